@@ -8,23 +8,93 @@
  * Usage:
  *   agent-proof init              - Initialize agent identity
  *   agent-proof attest            - Create attestation proof
+ *   agent-proof attest-batch <f>  - Issue attestations from a CSV/JSON file
+ *   agent-proof create            - Mint an AGENT-ID proof-of-existence NFT
  *   agent-proof verify <address>  - Verify an agent's proof
  *   agent-proof revoke <address>  - Revoke an attestation
+ *   agent-proof renew <address>   - Re-issue an attestation with a new expiry
+ *   agent-proof expiring          - Report attestations about to expire
+ *   agent-proof export <address>  - Write an offline proof bundle
+ *   agent-proof challenge         - Issue a key-possession challenge
+ *   agent-proof respond <file>    - Sign a challenge
+ *   agent-proof sign <file>       - Co-sign a --sign-only transaction
+ *   agent-proof broadcast <file>  - Submit a fully signed transaction
+ *   agent-proof serve             - HTTP verification service
+ *   agent-proof watch             - Stream attestation lifecycle events
+ *   agent-proof config <cmd>      - Manage network profiles
+ *   agent-proof schema <cmd>      - Upgrade and migrate schema versions
+ *   agent-proof capability <cmd>  - Prove / check single capabilities
+ *   agent-proof credential <cmd>  - Manage credential authorized signers
+ *   agent-proof index sync        - Sync attestations into the local index
+ *   agent-proof query             - Search the local index
  */
 
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import chalk from "chalk";
-import ora from "ora";
 import { initCommand } from "./commands/init";
 import { attestCommand } from "./commands/attest";
+import { attestBatchCommand } from "./commands/attest-batch";
 import { verifyCommand } from "./commands/verify";
+import { revokeCommand } from "./commands/revoke";
+import { renewCommand } from "./commands/renew";
+import { expiringCommand } from "./commands/expiring";
+import { challengeCommand } from "./commands/challenge";
+import { exportCommand } from "./commands/export";
+import { respondCommand } from "./commands/respond";
+import { signCommand } from "./commands/sign";
+import { broadcastCommand } from "./commands/broadcast";
+import { serveCommand } from "./commands/serve";
+import { watchCommand } from "./commands/watch";
+import { createCommand } from "./commands/create";
+import { listCommand } from "./commands/list";
+import { statusCommand } from "./commands/status";
+import { configCommand } from "./commands/config";
+import { schemaCommand } from "./commands/schema";
+import { capabilityCommand } from "./commands/capability";
+import { credentialCommand } from "./commands/credential";
+import { indexCommand } from "./commands/local-index";
+import { queryCommand } from "./commands/query";
+import { resolveNetwork, setActiveNetwork } from "./lib/profiles";
+import { setOutputMode, isTextOutput, fail, OUTPUT_MODES, type OutputMode } from "./lib/output";
 
 const program = new Command();
 
 program
   .name("agent-proof")
   .description("🤖 Verifiable identity proofs for AI agents on Solana")
-  .version("0.1.0");
+  .version("0.1.0")
+  .option("--profile <name>", "Network profile from ~/.config/agent-proof/config.json")
+  .option("-u, --url <rpc>", "RPC URL (overrides the profile)")
+  .option("--priority-fee <fee>", "Priority fee: auto, max or micro-lamports per CU (default: profile, else auto)")
+  .addOption(new Option("-o, --output <mode>", "Output mode").choices(OUTPUT_MODES).default("text"))
+  .hook("preAction", (thisCommand, actionCommand) => {
+    const { profile, url, output, priorityFee } = thisCommand.opts();
+    const { devnet, mainnet, json } = actionCommand.opts();
+    const commandName = actionCommand.parent && actionCommand.parent !== thisCommand
+      ? `${actionCommand.parent.name()} ${actionCommand.name()}`
+      : actionCommand.name();
+    setOutputMode(json ? "json" : output as OutputMode, commandName);
+
+    // Banner (stderr, text mode only)
+    if (isTextOutput()) {
+      console.error(chalk.cyan(`
+   ╭─────────────────────────────────╮
+   │  🤖 agent-proof v0.1.0         │
+   │  AI Identity on Solana         │
+   ╰─────────────────────────────────╯
+`));
+    }
+
+    try {
+      setActiveNetwork(resolveNetwork({
+        profile: profile ?? (mainnet ? "mainnet" : devnet ? "devnet" : undefined),
+        url,
+        priorityFee,
+      }));
+    } catch (error) {
+      fail(null, "Invalid network configuration", error);
+    }
+  });
 
 program
   .command("init")
@@ -32,9 +102,14 @@ program
   .option("-n, --name <name>", "Agent name", "unnamed-agent")
   .option("-t, --type <type>", "Agent type (claude, gpt-4, custom)", "custom")
   .option("-p, --platform <platform>", "Platform (openclaw, langchain, custom)", "custom")
-  .option("-k, --keypair <path>", "Path to keypair file", "~/.config/solana/id.json")
-  .option("--devnet", "Use devnet (default)", true)
-  .option("--mainnet", "Use mainnet-beta")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--dry-run", "Simulate and report fees and rent without sending")
+  .option("--sign-only", "Partially sign and print the transaction instead of sending it")
+  .option("--fee-payer <address>", "Fee payer who co-signs later (with --sign-only)")
+  .option("--nonce <account>", "Durable nonce account, so the transaction doesn't expire (with --sign-only)")
+  .option("--out <path>", "Write the transaction file here instead of stdout (with --sign-only)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .option("--mainnet", "Shortcut for --profile mainnet")
   .action(initCommand);
 
 program
@@ -44,44 +119,177 @@ program
   .option("-c, --credential <name>", "Credential name (from init)")
   .option("-t, --type <type>", "Agent type (claude, gpt-4, custom)", "custom")
   .option("-p, --platform <platform>", "Platform (openclaw, langchain, custom)", "custom")
-  .option("--capabilities <path>", "Path to capabilities manifest")
-  .option("-k, --keypair <path>", "Path to keypair file", "~/.config/solana/id.json")
-  .option("--devnet", "Use devnet (default)", true)
+  .option("--capabilities <path>", "Path to capabilities manifest (JSON, canonicalized before hashing)")
+  .option("--merkle", "Commit to a Merkle root of the manifest (enables capability proofs)")
+  .option("--schema-version <n>", "AgentIdentity schema version (default: newest on-chain)")
+  .option("--model-version <version>", "Model version (schema v2+)")
+  .option("--endpoint <url>", "Public endpoint URL (schema v2+)")
+  .option("--framework-version <version>", "Framework version (schema v2+)")
+  .option("--authority <address>", "Credential authority wallet, when attesting as an authorized operator")
+  .option("--recipient <wallet>", "Mint the proof NFT to this agent wallet (default: yourself)")
+  .option("--expiry <duration>", "Lifetime: 30d, 12h, 2w, 1y, ... or never", "365d")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--dry-run", "Simulate and report fees and rent without sending")
+  .option("--sign-only", "Partially sign and print the transaction instead of sending it")
+  .option("--fee-payer <address>", "Fee payer who co-signs later (with --sign-only)")
+  .option("--nonce <account>", "Durable nonce account, so the transaction doesn't expire (with --sign-only)")
+  .option("--out <path>", "Write the transaction file here instead of stdout (with --sign-only)")
+  .option("--devnet", "Shortcut for --profile devnet")
   .action(attestCommand);
 
+program
+  .command("attest-batch")
+  .description("Issue attestations for many agents from a CSV or JSON file (resumable)")
+  .argument("<file>", "Records: name, type, platform, recipient, capabilities[, model_version, endpoint_url, framework_version]")
+  .requiredOption("-c, --credential <name>", "Credential name (from init)")
+  .option("--authority <address>", "Credential authority wallet, when attesting as an authorized operator")
+  .option("--schema-version <n>", "AgentIdentity schema version (default: newest on-chain)")
+  .option("--merkle", "Commit to Merkle roots of the manifests (enables capability proofs)")
+  .option("--journal <path>", "Journal file (default: <file>.journal.ndjson)")
+  .option("--concurrency <n>", "Transactions in flight at once", "4")
+  .option("--max-per-tx <n>", "Cap attestations per transaction (default: as many as fit)")
+  .option("--force", "Ignore the journal and re-check every record on-chain")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(attestBatchCommand);
+
 program
   .command("verify")
   .description("Verify an agent's attestation proof")
-  .argument("<address>", "Agent wallet or attestation address")
-  .option("--devnet", "Use devnet (default)", true)
+  .argument("[address]", "Agent wallet or attestation address (optional with --bundle)")
+  .option("--capabilities <path>", "Check a capabilities manifest against the on-chain hash")
+  .option("--response <path>", "Check a signed challenge response from `respond`")
+  .option("--challenge <path>", "The challenge you issued (required with --response)")
+  .option("--bundle <path>", "Verify offline from an `export` bundle")
+  .option("--offline", "Verify from the local index (see `index sync`) instead of RPC")
+  .option("--devnet", "Shortcut for --profile devnet")
   .action(verifyCommand);
 
 program
-  .command("status")
-  .description("Check current agent status")
-  .option("-k, --keypair <path>", "Path to keypair file", "~/.config/solana/id.json")
-  .action(async (options) => {
-    const spinner = ora("Checking agent status...").start();
-    try {
-      // TODO: Implement status check
-      spinner.succeed("Status check complete");
-      console.log(chalk.cyan("\n📊 Agent Status"));
-      console.log(chalk.gray("─".repeat(40)));
-      console.log("Credential: " + chalk.yellow("Not initialized"));
-      console.log("Attestations: " + chalk.gray("0"));
-      console.log("\nRun " + chalk.green("agent-proof init") + " to get started.");
-    } catch (error) {
-      spinner.fail("Failed to check status");
-      console.error(error);
-    }
-  });
+  .command("export")
+  .description("Write a self-contained proof bundle for offline verification")
+  .argument("<address>", "Attestation address")
+  .option("--out <path>", "Write the bundle to a file instead of stdout")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(exportCommand);
 
-// Banner
-console.log(chalk.cyan(`
-   ╭─────────────────────────────────╮
-   │  🤖 agent-proof v0.1.0         │
-   │  AI Identity on Solana         │
-   ╰─────────────────────────────────╯
-`));
+program
+  .command("challenge")
+  .description("Issue a challenge an agent must sign to prove it controls its key")
+  .argument("[attestation]", "Attestation the agent must prove control of")
+  .option("--ttl <seconds>", "Seconds until the challenge expires (at most 600)", "300")
+  .option("--audience <name>", "Who is asking (bound into the signature)")
+  .option("--out <path>", "Write the challenge to a file instead of stdout")
+  .action(challengeCommand);
+
+program
+  .command("respond")
+  .description("Sign a challenge with your keypair")
+  .argument("<challenge>", "Path to a challenge file")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--out <path>", "Write the response to a file instead of stdout")
+  .action(respondCommand);
+
+program
+  .command("sign")
+  .description("Add your signature to a transaction file from --sign-only (works offline)")
+  .argument("<file>", "Transaction file")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--out <path>", "Write the signed file here instead of updating it in place")
+  .action(signCommand);
+
+program
+  .command("broadcast")
+  .description("Submit a fully signed transaction file and wait for confirmation")
+  .argument("<file>", "Transaction file")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(broadcastCommand);
+
+program
+  .command("serve")
+  .description("Serve verification results over HTTP")
+  .option("--port <port>", "Port to listen on", "8080")
+  .option("--host <host>", "Interface to bind", "127.0.0.1")
+  .option("--cache-slots <n>", "Serve cached lookups until the chain moves this many slots", "150")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(serveCommand);
+
+program
+  .command("watch")
+  .description("Stream created, revoked and expiring attestation events")
+  .option("-c, --credential <address>", "Attestations issued under this credential")
+  .option("-s, --schema <address>", "Attestations of this schema")
+  .option("-w, --wallet <address>", "Attestations whose proof NFT this wallet holds")
+  .option("--expiring-within <days>", "Report attestations expiring within this many days", "7")
+  .option("--webhook <url>", "Also POST each event to this URL")
+  .option("--webhook-retries <n>", "Retries per event on network errors, 429 and 5xx", "5")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(watchCommand);
+
+program.addCommand(createCommand);
+program.addCommand(listCommand);
+program.addCommand(configCommand);
+program.addCommand(schemaCommand);
+program.addCommand(capabilityCommand);
+program.addCommand(credentialCommand);
+program.addCommand(indexCommand);
+
+program
+  .command("query")
+  .description("Search the local attestation index by schema field, expiry, holder, ...")
+  .option("-w, --where <condition...>", "Filter: <field><op><value>, op one of = != > >= < <= ~ (e.g. agent_type=claude)")
+  .option("-c, --credential <address>", "Credential the proofs were issued under")
+  .option("-s, --schema <address>", "Schema the proofs belong to")
+  .option("--holder <wallet>", "Wallet holding the proof NFTs")
+  .option("--expiring-within <duration>", "Only proofs expiring within 30d, 12h, ...")
+  .option("--include-closed", "Include attestations closed since they were indexed")
+  .option("--limit <n>", "At most this many results")
+  .option("--fields", "List the fields you can filter on")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(queryCommand);
+
+program
+  .command("revoke")
+  .description("Revoke an attestation and burn its proof NFT (authority only)")
+  .argument("<address>", "Attestation address")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("-y, --yes", "Skip confirmation prompt")
+  .option("--dry-run", "Simulate and report fees and rent without sending")
+  .option("--sign-only", "Partially sign and print the transaction instead of sending it")
+  .option("--fee-payer <address>", "Fee payer who co-signs later (with --sign-only)")
+  .option("--nonce <account>", "Durable nonce account, so the transaction doesn't expire (with --sign-only)")
+  .option("--out <path>", "Write the transaction file here instead of stdout (with --sign-only)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(revokeCommand);
+
+program
+  .command("renew")
+  .description("Re-issue an attestation with a new expiry and close the old one (authority only)")
+  .argument("<address>", "Attestation address")
+  .option("--expiry <duration>", "New lifetime from now: 30d, 12h, 2w, 1y, ... or never", "365d")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--dry-run", "Simulate and report fees and rent without sending")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(renewCommand);
+
+program
+  .command("expiring")
+  .description("List attestations that expire within a window, soonest first")
+  .option("-c, --credential <address>", "Credential the proofs were issued under")
+  .option("-s, --schema <address>", "Schema the proofs belong to")
+  .option("--within <duration>", "Window: 30d, 12h, 2w, ...", "30d")
+  .option("--no-expired", "Leave out proofs that already expired")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(expiringCommand);
+
+program
+  .command("status")
+  .description("Check current agent status (exit code reflects readiness)")
+  .option("-n, --name <name>", "Agent name (from init)", "unnamed-agent")
+  .option("-c, --credential <name>", "Credential name (default: agent-proof-<name>)")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--offline", "Read from the local index (see `index sync`) instead of RPC")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(statusCommand);
 
 program.parse();
@@ -0,0 +1,253 @@
+/**
+ * attest-batch command - Issue attestations for many agents from a CSV/JSON file
+ *
+ * Packs as many attestations per transaction as fit, sends with bounded
+ * concurrency and records every outcome in a journal, so an interrupted run
+ * can be re-run with the same arguments to finish without double-minting.
+ */
+
+import chalk from "chalk";
+import { address, type Address } from "@solana/kit";
+import { fetchSchema } from "sas-lib";
+import { startSpinner, log, emit, fail, CliError, ERROR_CODES } from "../lib/output";
+import { SASClient } from "../lib/sas-client";
+import { loadSigner } from "../lib/signers";
+import {
+  EMPTY_CAPABILITIES_MANIFEST,
+  capabilitiesMerkleRoot,
+  hashCapabilities,
+  loadCapabilitiesManifest,
+  type CapabilitiesManifest,
+} from "../lib/capabilities";
+import { assertAuthorizedSigner, buildAgentIdentityData, resolveAgentSchema } from "../lib/issuance";
+import {
+  appendJournal,
+  findExistingAttestations,
+  loadBatchRecords,
+  packBatch,
+  readJournal,
+  sendBatch,
+  type BatchItem,
+  type JournalEntry,
+  type JournalStatus,
+} from "../lib/batch";
+import { AGENT_SCHEMA_NAME, AGENT_TOKEN_METADATA } from "../schemas/agent";
+
+/**
+ * Result emitted by `attest-batch` in json/ndjson output modes
+ */
+export interface AttestBatchResult {
+  credential: string;
+  schema: string;
+  schemaVersion: number;
+  journal: string;
+  total: number;
+  minted: number;
+  skipped: number;
+  failed: number;
+  transactions: number;
+  items: {
+    row: number;
+    name: string;
+    recipient: string;
+    attestation: string;
+    /** skipped = minted by an earlier run (journal) or already on-chain */
+    status: JournalStatus | "skipped";
+    signature: string | null;
+    error: string | null;
+  }[];
+}
+
+export interface AttestBatchOptions {
+  credential?: string;
+  authority?: string;
+  schemaVersion?: string;
+  merkle?: boolean;
+  journal?: string;
+  concurrency?: string;
+  maxPerTx?: string;
+  force?: boolean;
+  keypair?: string;
+}
+
+export async function attestBatchCommand(
+  file: string,
+  options: AttestBatchOptions
+): Promise<void> {
+  const spinner = startSpinner("Reading batch file...");
+
+  try {
+    if (!options.credential) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "--credential <name> is required for batch issuance");
+    }
+    const concurrency = Number(options.concurrency ?? 4);
+    const maxPerTx = options.maxPerTx ? Number(options.maxPerTx) : Infinity;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid --concurrency "${options.concurrency}"`);
+    }
+    if (maxPerTx !== Infinity && (!Number.isInteger(maxPerTx) || maxPerTx < 1)) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid --max-per-tx "${options.maxPerTx}"`);
+    }
+
+    const records = await loadBatchRecords(file);
+    const journalPath = options.journal ?? `${file}.journal.ndjson`;
+
+    spinner.text = "Loading keypair...";
+    const signer = await loadSigner(options.keypair);
+    const client = new SASClient({ signer });
+
+    spinner.text = "Resolving credential and schema...";
+    const authority = options.authority ? address(options.authority) : client.getAuthority();
+    const credential = await client.deriveCredentialAddress(options.credential, authority);
+    const { schema, version: schemaVersion } = await resolveAgentSchema(client, credential, options.schemaVersion);
+    await assertAuthorizedSigner(client, credential, options.credential);
+    const { data: schemaData } = await fetchSchema(client.getRpc(), schema);
+
+    // Build every instruction up front so a bad manifest fails before anything is sent
+    spinner.text = `Building ${records.length} attestations...`;
+    const manifests = new Map<string, CapabilitiesManifest>();
+    const items: BatchItem[] = [];
+    for (const record of records) {
+      let manifest = EMPTY_CAPABILITIES_MANIFEST;
+      if (record.capabilities) {
+        manifest = manifests.get(record.capabilities) ?? await loadCapabilitiesManifest(record.capabilities);
+        manifests.set(record.capabilities, manifest);
+      }
+      const data = buildAgentIdentityData({
+        agent_name: record.name,
+        agent_type: record.type,
+        platform: record.platform,
+        owner_pubkey: record.recipient,
+        capabilities_hash: options.merkle ? capabilitiesMerkleRoot(manifest) : hashCapabilities(manifest),
+        model_version: record.model_version,
+        endpoint_url: record.endpoint_url,
+        framework_version: record.framework_version,
+      }, schemaVersion);
+
+      const { instruction, attestation } = await client.buildTokenizedAttestation({
+        credential,
+        schema,
+        schemaData,
+        recipient: record.recipient,
+        nonce: record.recipient,
+        data: { ...data },
+        tokenName: `${AGENT_TOKEN_METADATA.name}: ${record.name}`,
+        tokenSymbol: AGENT_TOKEN_METADATA.symbol,
+        tokenUri: AGENT_TOKEN_METADATA.uri,
+      });
+      items.push({ record, attestation, instruction });
+    }
+
+    // Skip what the journal records as issued (unless --force), then anything already on-chain
+    spinner.text = "Checking journal and existing attestations...";
+    const journal = options.force ? new Map<string, JournalEntry>() : await readJournal(journalPath);
+    const issued = (item: BatchItem) => {
+      const status = journal.get(item.attestation)?.status;
+      return status === "minted" || status === "exists";
+    };
+    const existing = await findExistingAttestations(client, items.filter(i => !issued(i)).map(i => i.attestation));
+    const results = new Map<Address, AttestBatchResult["items"][number]>();
+    const pending: BatchItem[] = [];
+    for (const item of items) {
+      const previous = journal.get(item.attestation);
+      if (issued(item) || existing.has(item.attestation)) {
+        results.set(item.attestation, {
+          row: item.record.row,
+          name: item.record.name,
+          recipient: item.record.recipient,
+          attestation: item.attestation,
+          status: "skipped",
+          signature: previous?.status === "minted" ? previous.signature : null,
+          error: null,
+        });
+        if (!issued(item)) {
+          await appendJournal(journalPath, {
+            time: new Date().toISOString(),
+            row: item.record.row,
+            recipient: item.record.recipient,
+            attestation: item.attestation,
+            status: "exists",
+            signature: null,
+            error: null,
+          });
+        }
+      } else {
+        pending.push(item);
+      }
+    }
+
+    const groups = packBatch(client, pending, maxPerTx);
+    let settled = 0;
+    spinner.text = `Minting ${pending.length} attestations in ${groups.length} transactions...`;
+
+    const { transactions } = await sendBatch(client, groups, {
+      concurrency,
+      onOutcome: async ({ item, status, signature, error }) => {
+        await appendJournal(journalPath, {
+          time: new Date().toISOString(),
+          row: item.record.row,
+          recipient: item.record.recipient,
+          attestation: item.attestation,
+          status,
+          signature,
+          error,
+        });
+        results.set(item.attestation, {
+          row: item.record.row,
+          name: item.record.name,
+          recipient: item.record.recipient,
+          attestation: item.attestation,
+          status,
+          signature,
+          error,
+        });
+        settled++;
+        spinner.text = `Minting... ${settled}/${pending.length}`;
+      },
+    });
+
+    const ordered = items.map(item => results.get(item.attestation)!);
+    const count = (status: AttestBatchResult["items"][number]["status"]) => ordered.filter(r => r.status === status).length;
+    const failed = count("failed");
+
+    if (failed) {
+      spinner.warn(`Batch finished with ${failed} failure${failed === 1 ? "" : "s"}`);
+    } else {
+      spinner.succeed("Batch complete!");
+    }
+
+    emit({
+      credential,
+      schema,
+      schemaVersion,
+      journal: journalPath,
+      total: items.length,
+      minted: count("minted"),
+      skipped: count("skipped"),
+      failed,
+      transactions,
+      items: ordered,
+    } satisfies AttestBatchResult);
+
+    log(chalk.cyan("\n📦 Batch Issuance"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Schema:       ${chalk.white(`${AGENT_SCHEMA_NAME} v${schemaVersion}`)}`);
+    log(`Credential:   ${chalk.cyan(credential)}`);
+    log(`Minted:       ${chalk.green(count("minted"))} in ${transactions} transaction${transactions === 1 ? "" : "s"}`);
+    log(`Skipped:      ${chalk.gray(count("skipped"))} (already issued)`);
+    log(`Failed:       ${failed ? chalk.red(failed) : chalk.gray(0)}`);
+    log(`Journal:      ${chalk.gray(journalPath)}`);
+    log(chalk.gray("─".repeat(50)));
+    for (const result of ordered.filter(r => r.status === "failed")) {
+      log(chalk.red(`✗ row ${result.row} ${result.name}: ${result.error}`));
+    }
+
+    if (failed) {
+      log(chalk.yellow("\nRe-run the same command to retry the failed records."));
+      process.exitCode = 1;
+    }
+
+  } catch (error) {
+    fail(spinner, "Batch failed", error);
+  }
+}
@@ -4,47 +4,73 @@
  * Mints an NFT that contains:
  * - Agent identity data (name, type, platform)
  * - Owner's pubkey
- * - Capabilities hash
+ * - Capabilities hash (canonical manifest JSON, see lib/capabilities)
  * - Timestamp
  */
 
 import chalk from "chalk";
-import ora from "ora";
-import { createHash } from "crypto";
-import { generateKeyPairSigner, type Address, address } from "@solana/kit";
-import { loadKeypairFromFile, SASClient } from "../lib/sas-client";
+import { startSpinner, log, emit, fail, CliError, ERROR_CODES } from "../lib/output";
+import { generateKeyPairSigner, address } from "@solana/kit";
+import { SASClient } from "../lib/sas-client";
+import { loadSigner } from "../lib/signers";
+import { signOnly, signOnlyFeePayer, type SignOnlyOptions } from "../lib/offline";
+import { dryRun, type DryRunOptions } from "../lib/cost";
+import { DEFAULT_EXPIRY, formatExpiry, parseExpiry } from "../lib/expiry";
+import {
+  EMPTY_CAPABILITIES_MANIFEST,
+  capabilitiesMerkleRoot,
+  hashCapabilities,
+  loadCapabilitiesManifest,
+} from "../lib/capabilities";
+import { assertAuthorizedSigner, buildAgentIdentityData, resolveAgentSchema } from "../lib/issuance";
 import {
   AGENT_SCHEMA_NAME,
-  AGENT_SCHEMA_VERSION,
   AGENT_TOKEN_METADATA,
-  createAgentAttestationData,
+  type AgentAttestationData,
 } from "../schemas/agent";
 
-const DEVNET_RPC = "https://api.devnet.solana.com";
-const DEVNET_WSS = "wss://api.devnet.solana.com";
+/**
+ * Result emitted by `attest` in json/ndjson output modes
+ */
+export interface AttestResult {
+  attestation: string;
+  mint: string;
+  signature: string;
+  credential: string;
+  schema: string;
+  schemaVersion: number;
+  recipient: string;
+  data: AgentAttestationData;
+  /** null for a non-expiring attestation (--expiry never) */
+  expiresAt: string | null;
+  cuUsed: number;
+  cuLimit: number;
+}
 
-export interface AttestOptions {
+export interface AttestOptions extends SignOnlyOptions, DryRunOptions {
   name?: string;
   credential?: string;
   type?: string;
   platform?: string;
   capabilities?: string;
-  keypair: string;
-  devnet?: boolean;
+  merkle?: boolean;
+  schemaVersion?: string;
+  modelVersion?: string;
+  endpoint?: string;
+  frameworkVersion?: string;
+  authority?: string;
+  recipient?: string;
+  expiry?: string;
+  keypair?: string;
 }
 
 export async function attestCommand(options: AttestOptions): Promise<void> {
-  const spinner = ora("Loading keypair...").start();
+  const spinner = startSpinner("Loading keypair...");
   
   try {
-    const keypairPath = options.keypair.replace("~", process.env.HOME || "");
-    const signer = await loadKeypairFromFile(keypairPath);
+    const signer = await loadSigner(options.keypair);
     
-    const client = new SASClient({
-      rpcUrl: DEVNET_RPC,
-      wssUrl: DEVNET_WSS,
-      signer,
-    });
+    const client = new SASClient({ signer, feePayer: signOnlyFeePayer(options) });
 
     spinner.text = "Preparing attestation data...";
 
@@ -52,80 +78,133 @@ export async function attestCommand(options: AttestOptions): Promise<void> {
     const agentName = options.name || "unnamed-agent";
     const agentType = options.type || "custom";
     const platform = options.platform || "custom";
-    const capabilitiesHash = options.capabilities 
-      ? await hashFile(options.capabilities)
-      : hashString(`agent:${agentName}:${Date.now()}`);
+    // Canonical manifest hash (or Merkle root for selective disclosure);
+    // agents without a manifest declare no capabilities
+    if (options.merkle && !options.capabilities) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "--merkle requires --capabilities <path>");
+    }
+    const manifest = options.capabilities
+      ? await loadCapabilitiesManifest(options.capabilities)
+      : EMPTY_CAPABILITIES_MANIFEST;
+    const capabilitiesHash = options.merkle ? capabilitiesMerkleRoot(manifest) : hashCapabilities(manifest);
+    const expiryDays = parseExpiry(options.expiry ?? DEFAULT_EXPIRY);
 
     // The credential name (either passed or derived from agent name)
     const credentialName = options.credential || `agent-proof-${agentName}`;
     
     // Derive addresses
     spinner.text = "Deriving addresses...";
-    const credential = await client.deriveCredentialAddress(credentialName);
-    const schema = await client.deriveSchemaAddress(credential, AGENT_SCHEMA_NAME, AGENT_SCHEMA_VERSION);
+    // Operators issue under the credential of another wallet (see `credential signers add`)
+    const authority = options.authority ? address(options.authority) : client.getAuthority();
+    const credential = await client.deriveCredentialAddress(credentialName, authority);
+    const { schema, version: schemaVersion } = await resolveAgentSchema(client, credential, options.schemaVersion);
+    await assertAuthorizedSigner(client, credential, credentialName);
     
-    // Generate a unique nonce for this attestation (could also be the subject's address)
-    const nonceKeypair = await generateKeyPairSigner();
-    const nonce = nonceKeypair.address;
+    // Third-party recipients get their wallet as the nonce (one attestation per
+    // recipient per schema version, recomputable from the wallet alone);
+    // self-attestations keep a fresh random nonce
+    const recipient = options.recipient ? address(options.recipient) : client.getAuthority();
+    const nonce = options.recipient ? recipient : (await generateKeyPairSigner()).address;
+
+    if (options.recipient) {
+      spinner.text = "Checking for an existing attestation...";
+      const attestationPda = await client.deriveAttestationAddress(credential, schema, nonce);
+      const { value: existingAttestation } = await client.getRpc().getAccountInfo(attestationPda, { encoding: "base64" }).send();
+      if (existingAttestation) {
+        throw new CliError(ERROR_CODES.ALREADY_EXISTS, "Attestation already exists for this recipient",
+          { attestation: attestationPda, recipient, schemaVersion },
+          `View: agent-proof verify ${attestationPda}  (revoke it first to re-issue)`);
+      }
+    }
     
     // Build attestation data matching the schema fields
-    const attestationData = {
+    const attestationData = buildAgentIdentityData({
       agent_name: agentName,
       agent_type: agentType,
       platform: platform,
-      owner_pubkey: client.getAuthority().toString(),
+      owner_pubkey: recipient.toString(),
       capabilities_hash: capabilitiesHash,
-      created_at: BigInt(Math.floor(Date.now() / 1000)),
-    };
+      model_version: options.modelVersion,
+      endpoint_url: options.endpoint,
+      framework_version: options.frameworkVersion,
+    }, schemaVersion);
+
+    if (options.signOnly || options.dryRun) {
+      spinner.text = "Building attestation...";
+      const { instruction, attestation, newAccounts } = await client.buildTokenizedAttestation({
+        credential,
+        schema,
+        recipient,
+        nonce,
+        data: { ...attestationData },
+        tokenName: `${AGENT_TOKEN_METADATA.name}: ${agentName}`,
+        tokenSymbol: AGENT_TOKEN_METADATA.symbol,
+        tokenUri: AGENT_TOKEN_METADATA.uri,
+        expiryDays,
+      });
+      const description = `attest ${agentName} (${AGENT_SCHEMA_NAME} v${schemaVersion}) to ${recipient} under ${credentialName}: attestation ${attestation}`;
+      if (options.dryRun) {
+        await dryRun(spinner, client, { description, instructions: [instruction], newAccounts }, options);
+      } else {
+        await signOnly(spinner, client, [instruction], description, options);
+      }
+      return;
+    }
 
     spinner.text = "Creating tokenized attestation...";
     
-    const { signature, attestation, mint, cuUsed, cuLimit } = await client.createTokenizedAttestation(
+    const { signature, attestation, mint, expiry, cuUsed, cuLimit } = await client.createTokenizedAttestation(
       credential,
       schema,
-      client.getAuthority(), // recipient = authority (self)
+      recipient,
       nonce,
-      attestationData,
+      { ...attestationData },
       `${AGENT_TOKEN_METADATA.name}: ${agentName}`,
       AGENT_TOKEN_METADATA.symbol,
       AGENT_TOKEN_METADATA.uri,
-      365, // 1 year expiry
+      expiryDays,
     );
 
     spinner.succeed("Attestation created!");
 
-    console.log(chalk.cyan("\n🎫 Agent Proof Minted"));
-    console.log(chalk.gray("─".repeat(50)));
-    console.log(`Agent:       ${chalk.white(agentName)}`);
-    console.log(`Type:        ${chalk.white(agentType)}`);
-    console.log(`Platform:    ${chalk.white(platform)}`);
-    console.log(`Owner:       ${chalk.green(client.getAuthority().toString().slice(0, 20))}...`);
-    console.log(`Hash:        ${chalk.yellow(capabilitiesHash.slice(0, 16))}...`);
-    console.log(`Timestamp:   ${chalk.gray(new Date().toISOString())}`);
-    console.log(chalk.gray("─".repeat(50)));
-    console.log(`Signature:   ${chalk.cyan(signature.slice(0, 32))}...`);
-    console.log(`Attestation: ${chalk.cyan(attestation)}`);
-    console.log(`Token Mint:  ${chalk.cyan(mint)}`);
-    console.log(`CU Used:     ${chalk.magenta(cuUsed.toLocaleString())} / ${cuLimit.toLocaleString()} (${((cuUsed/cuLimit)*100).toFixed(1)}%)`);
-    console.log(chalk.gray("─".repeat(50)));
+    emit({
+      attestation,
+      mint,
+      signature,
+      credential,
+      schema,
+      schemaVersion,
+      recipient,
+      data: attestationData,
+      expiresAt: formatExpiry(expiry),
+      cuUsed,
+      cuLimit,
+    } satisfies AttestResult);
+
+    log(chalk.cyan("\n🎫 Agent Proof Minted"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Agent:       ${chalk.white(agentName)}`);
+    log(`Type:        ${chalk.white(agentType)}`);
+    log(`Platform:    ${chalk.white(platform)}`);
+    log(`Schema:      ${chalk.white(`${AGENT_SCHEMA_NAME} v${schemaVersion}`)}`);
+    log(`Owner:       ${chalk.green(recipient.toString().slice(0, 20))}...`);
+    log(`Hash:        ${chalk.yellow(capabilitiesHash.slice(0, 16))}...`);
+    log(`Timestamp:   ${chalk.gray(new Date().toISOString())}`);
+    log(`Expires:     ${chalk.gray(formatExpiry(expiry) ?? "never")}`);
+    log(chalk.gray("─".repeat(50)));
+    log(`Signature:   ${chalk.cyan(signature.slice(0, 32))}...`);
+    log(`Attestation: ${chalk.cyan(attestation)}`);
+    log(`Token Mint:  ${chalk.cyan(mint)}`);
+    log(`CU Used:     ${chalk.magenta(cuUsed.toLocaleString())} / ${cuLimit.toLocaleString()} (${((cuUsed/cuLimit)*100).toFixed(1)}%)`);
+    log(chalk.gray("─".repeat(50)));
     
-    console.log(chalk.green("\n✓ Proof NFT is now in your wallet!"));
-    console.log(chalk.gray("Anyone can verify your agent identity on-chain."));
-    console.log(chalk.gray(`\nVerify with: agent-proof verify ${attestation}`));
+    log(chalk.green(options.recipient
+      ? `\n✓ Proof NFT is now in ${recipient.slice(0, 8)}...'s wallet!`
+      : "\n✓ Proof NFT is now in your wallet!"));
+    log(chalk.gray("Anyone can verify your agent identity on-chain."));
+    log(chalk.gray(`\nVerify with: agent-proof verify ${attestation}`));
 
   } catch (error) {
-    spinner.fail("Attestation failed");
-    console.error(chalk.red("\nError:"), error);
-    process.exit(1);
+    fail(spinner, "Attestation failed", error);
   }
 }
-
-function hashString(input: string): string {
-  return createHash("sha256").update(input).digest("hex");
-}
-
-async function hashFile(path: string): Promise<string> {
-  const file = Bun.file(path);
-  const content = await file.text();
-  return hashString(content);
-}
@@ -0,0 +1,43 @@
+/**
+ * broadcast command - Submit a fully signed transaction file and confirm it
+ */
+
+import chalk from "chalk";
+import { startSpinner, log, emit, fail } from "../lib/output";
+import { broadcastTransaction, readTransactionFile } from "../lib/offline";
+
+/**
+ * Result emitted by `broadcast` in json/ndjson output modes
+ */
+export interface BroadcastResult {
+  signature: string;
+  description: string;
+  network: string;
+}
+
+export async function broadcastCommand(path: string): Promise<void> {
+  const spinner = startSpinner("Reading transaction...");
+
+  try {
+    const { file, transaction } = await readTransactionFile(path);
+
+    spinner.text = "Sending transaction...";
+    const signature = await broadcastTransaction(file, transaction);
+    spinner.succeed("Transaction confirmed!");
+
+    emit({
+      signature,
+      description: file.description,
+      network: file.network,
+    } satisfies BroadcastResult);
+
+    log(chalk.cyan("\n📡 Transaction Broadcast"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Action:      ${chalk.white(file.description)}`);
+    log(`Signature:   ${chalk.cyan(signature)}`);
+    log(chalk.gray("─".repeat(50)));
+
+  } catch (error) {
+    fail(spinner, "Broadcast failed", error);
+  }
+}
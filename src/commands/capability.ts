@@ -0,0 +1,150 @@
+/**
+ * Capability command - selective disclosure of attested capabilities
+ *
+ * prove <name>     Build an inclusion proof for one manifest entry
+ * check <proof>    Verify a proof against an attestation's on-chain capabilities_hash
+ *
+ * Requires an attestation made with `attest --capabilities <path> --merkle`.
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { address, createSolanaRpc } from "@solana/kit";
+import { getActiveNetwork } from "../lib/profiles.js";
+import { fetchDecodedAttestation } from "../lib/attestations.js";
+import { readJsonFile } from "../lib/files.js";
+import {
+  capabilityProofRoot,
+  findCapabilityEntry,
+  isMerkleCapabilitiesHash,
+  loadCapabilitiesManifest,
+  parseCapabilityProof,
+  proveCapability,
+  stringifyCapabilityEntry,
+  type CapabilityEntry,
+  type CapabilityProof,
+} from "../lib/capabilities.js";
+import { startSpinner, log, emit, fail, isTextOutput, CliError, ERROR_CODES } from "../lib/output.js";
+
+/**
+ * Result emitted by `capability check` in json/ndjson output modes
+ */
+export interface CapabilityCheckResult {
+  attestation: string;
+  entry: CapabilityEntry;
+  root: string;
+  onChainHash: string;
+  valid: boolean;
+}
+
+export const capabilityCommand = new Command("capability")
+  .description("Prove or check a single attested capability without revealing the manifest");
+
+capabilityCommand
+  .command("prove")
+  .description("Build an inclusion proof for one capability")
+  .argument("<name>", "Capability: tool:<name>, permission:<name>, limit:<name>, model, or a bare name")
+  .requiredOption("--capabilities <path>", "Capabilities manifest the attestation committed to")
+  .option("-a, --attestation <address>", "Check the proof against this attestation and embed its address")
+  .option("--out <path>", "Write the proof to a file instead of stdout")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(async (name: string, options) => {
+    const spinner = startSpinner("Building proof...");
+
+    try {
+      const manifest = await loadCapabilitiesManifest(options.capabilities);
+      const entry = findCapabilityEntry(manifest, name);
+      const proof: CapabilityProof = proveCapability(manifest, entry);
+
+      if (options.attestation) {
+        spinner.text = "Fetching attestation...";
+        const onChainHash = await fetchCapabilitiesHash(options.attestation);
+        if (onChainHash !== proof.root) {
+          throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Manifest does not match the attestation's capabilities_hash",
+            { root: proof.root, onChainHash },
+            isMerkleCapabilitiesHash(onChainHash) ? undefined : "The attestation was not made with --merkle.");
+        }
+        proof.attestation = options.attestation;
+      }
+
+      spinner.succeed(`Proof built for ${stringifyCapabilityEntry(entry)}`);
+
+      if (options.out) {
+        await Bun.write(options.out, JSON.stringify(proof, null, 2) + "\n");
+        log(chalk.green(`\n✓ Proof written to ${options.out}`));
+        log(chalk.gray(`Share it with: agent-proof capability check ${options.out}${options.attestation ? "" : " --attestation <address>"}`));
+      } else if (isTextOutput()) {
+        console.log(JSON.stringify(proof, null, 2));
+      }
+      emit(proof);
+    } catch (error) {
+      fail(spinner, "Proof failed", error);
+    }
+  });
+
+capabilityCommand
+  .command("check")
+  .description("Verify a capability proof against an attestation")
+  .argument("<proof>", "Path to a proof file from `capability prove`")
+  .option("-a, --attestation <address>", "Attestation to check against (default: the one in the proof)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(async (proofPath: string, options) => {
+    const spinner = startSpinner("Checking proof...");
+
+    try {
+      const proof = parseCapabilityProof(await readJsonFile(proofPath, `Proof file ${proofPath}`));
+
+      const attestation = options.attestation ?? proof.attestation;
+      if (!attestation) {
+        throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "The proof does not name an attestation; pass --attestation <address>");
+      }
+
+      spinner.text = "Fetching attestation...";
+      const onChainHash = await fetchCapabilitiesHash(attestation);
+      const root = capabilityProofRoot(proof);
+      const valid = root === onChainHash;
+
+      if (valid) {
+        spinner.succeed("Proof is valid");
+      } else {
+        spinner.fail("Proof is invalid");
+      }
+
+      emit({
+        attestation,
+        entry: proof.entry,
+        root,
+        onChainHash,
+        valid,
+      } satisfies CapabilityCheckResult);
+
+      log(chalk.cyan("\n🔐 Capability Proof"));
+      log(chalk.gray("─".repeat(50)));
+      log(`Capability:  ${chalk.white(stringifyCapabilityEntry(proof.entry))}`);
+      log(`Attestation: ${chalk.cyan(attestation)}`);
+      log(`Proof Root:  ${chalk.yellow(root.slice(0, 31))}...`);
+      log(`On-chain:    ${chalk.yellow(onChainHash.slice(0, 31))}...`);
+      log(chalk.gray("─".repeat(50)));
+
+      if (valid) {
+        log(chalk.green("\n✓ The agent attested to this capability."));
+      } else {
+        log(chalk.red("\n✗ This capability is not part of what the agent attested."));
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      fail(spinner, "Check failed", error);
+    }
+  });
+
+/**
+ * Fetch an attestation the way `verify` does and return its capabilities_hash
+ */
+async function fetchCapabilitiesHash(attestation: string): Promise<string> {
+  const rpc = createSolanaRpc(getActiveNetwork().rpcUrl);
+  const { data, decoder } = await fetchDecodedAttestation(rpc, address(attestation));
+  if (typeof data.capabilities_hash !== "string") {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Schema ${decoder.id} has no capabilities_hash field`);
+  }
+  return data.capabilities_hash;
+}
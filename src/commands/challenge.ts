@@ -0,0 +1,44 @@
+/**
+ * challenge command - Issue a challenge an agent must sign to prove key possession
+ *
+ * The agent answers with `agent-proof respond <file>`; check the answer with
+ * `agent-proof verify <attestation> --response <file> --challenge <file>`.
+ */
+
+import chalk from "chalk";
+import { address } from "@solana/kit";
+import { log, emit, fail, isTextOutput } from "../lib/output";
+import { createChallenge, DEFAULT_CHALLENGE_TTL_SECONDS } from "../lib/challenge";
+
+export interface ChallengeOptions {
+  ttl?: string;
+  audience?: string;
+  out?: string;
+}
+
+export async function challengeCommand(
+  attestationStr: string | undefined,
+  options: ChallengeOptions
+): Promise<void> {
+  try {
+    const challenge = createChallenge({
+      // Validate the address early; the challenge stores it as given
+      attestation: attestationStr ? address(attestationStr) : undefined,
+      audience: options.audience,
+      ttlSeconds: options.ttl ? Number(options.ttl) : DEFAULT_CHALLENGE_TTL_SECONDS,
+    });
+
+    if (options.out) {
+      await Bun.write(options.out, JSON.stringify(challenge, null, 2) + "\n");
+      log(chalk.green(`✓ Challenge written to ${options.out}`));
+      log(chalk.gray(`Expires: ${challenge.expiresAt}`));
+      log(chalk.gray(`The agent answers with: agent-proof respond ${options.out} --out response.json`));
+    } else if (isTextOutput()) {
+      console.log(JSON.stringify(challenge, null, 2));
+    }
+    emit(challenge);
+
+  } catch (error) {
+    fail(null, "Challenge failed", error);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Config command - manage network profiles in ~/.config/agent-proof/config.json
+ *
+ * Keys:
+ *   profile                 Active profile name
+ *   <field>                 Field of the active profile (rpcUrl, wssUrl, keypair, commitment, priorityFee, indexCredentials)
+ *   <profile>.<field>       Field of a named profile (created on first set)
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import {
+  CONFIG_PATH,
+  PROFILE_FIELDS,
+  loadConfig,
+  saveConfig,
+  validateProfileField,
+  type AgentProofConfig,
+  type NetworkProfile,
+} from "../lib/profiles.js";
+import { log, emit, fail, CliError, ERROR_CODES } from "../lib/output.js";
+
+export const configCommand = new Command("config")
+  .description("Manage network profiles and defaults");
+
+configCommand
+  .command("get")
+  .description("Print a config value")
+  .argument("<key>", "profile, <field> or <profile>.<field>")
+  .action((key: string) => {
+    try {
+      const config = loadConfig();
+      if (key === "profile") {
+        log(config.profile);
+        emit({ key, value: config.profile });
+        return;
+      }
+      const { profile, field } = parseKey(config, key);
+      const value = config.profiles[profile]?.[field];
+      if (value === undefined) {
+        throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${profile}.${field} is not set`);
+      }
+      log(value);
+      emit({ key: `${profile}.${field}`, value });
+    } catch (error) {
+      fail(null, "Config get failed", error);
+    }
+  });
+
+configCommand
+  .command("set")
+  .description("Set a config value")
+  .argument("<key>", "profile, <field> or <profile>.<field>")
+  .argument("<value>", "Value to set")
+  .action((key: string, value: string) => {
+    try {
+      const config = loadConfig();
+      if (key === "profile") {
+        if (!config.profiles[value]) {
+          throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Unknown profile "${value}". Set ${value}.rpcUrl first to create it.`);
+        }
+        config.profile = value;
+      } else {
+        const { profile, field } = parseKey(config, key);
+        validateProfileField(field, value);
+        if (!config.profiles[profile]) {
+          if (field !== "rpcUrl") {
+            throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Profile "${profile}" does not exist. Set ${profile}.rpcUrl first to create it.`);
+          }
+          config.profiles[profile] = { rpcUrl: value };
+        } else {
+          config.profiles[profile] = { ...config.profiles[profile], [field]: value };
+        }
+      }
+      saveConfig(config);
+      log(chalk.green(`✓ ${key} = ${value}`));
+      emit({ key, value });
+    } catch (error) {
+      fail(null, "Config set failed", error);
+    }
+  });
+
+configCommand
+  .command("list")
+  .description("Show all profiles")
+  .action(() => {
+    try {
+      const config = loadConfig();
+      emit({ path: CONFIG_PATH, ...config });
+      log(chalk.gray(`Config: ${CONFIG_PATH}\n`));
+      for (const [name, profile] of Object.entries(config.profiles)) {
+        const marker = name === config.profile ? chalk.green("* ") : "  ";
+        log(marker + chalk.cyan(name));
+        for (const field of PROFILE_FIELDS) {
+          if (profile[field]) {
+            log(`    ${field.padEnd(16)} ${profile[field]}`);
+          }
+        }
+      }
+    } catch (error) {
+      fail(null, "Config list failed", error);
+    }
+  });
+
+function parseKey(config: AgentProofConfig, key: string): { profile: string; field: keyof NetworkProfile } {
+  const [profile, field] = key.includes(".")
+    ? key.split(".", 2)
+    : [config.profile, key];
+  if (!(PROFILE_FIELDS as readonly string[]).includes(field)) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Unknown key "${key}". Fields: ${PROFILE_FIELDS.join(", ")}`);
+  }
+  return { profile, field: field as keyof NetworkProfile };
+}
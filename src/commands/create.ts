@@ -4,11 +4,7 @@
 
 import { Command } from "commander";
 import { createHash } from "crypto";
-import * as fs from "fs";
-import * as path from "path";
 import {
-  createKeyPairSignerFromBytes,
-  generateKeyPairSigner,
   lamports,
   airdropFactory,
   Address,
@@ -22,40 +18,57 @@ import {
   serializeAttestationData,
 } from "sas-lib";
 import {
-  getMintSize,
   TOKEN_2022_PROGRAM_ADDRESS,
   ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
   findAssociatedTokenPda,
 } from "@solana-program/token-2022";
-import { getClient, setRpcUrl } from "../lib/client.js";
+import { getClient } from "../lib/client.js";
+import {
+  SASClient,
+  ATTESTATION_TOKEN_ACCOUNT_SIZE,
+  getAttestationMintSize,
+  getAttestationSize,
+} from "../lib/sas-client.js";
+import { dryRun } from "../lib/cost.js";
 import { sendAndConfirmInstructions } from "../lib/transaction.js";
 import { CONFIG } from "../lib/config.js";
+import { log, emit, fail, isTextOutput, startSpinner, CliError, ERROR_CODES } from "../lib/output.js";
+import { loadSigner } from "../lib/signers.js";
+
+/**
+ * Result emitted by `create` in json/ndjson output modes
+ */
+export interface CreateResult {
+  agent: string;
+  model: string;
+  proofHash: string;
+  attestation: string;
+  mint: string;
+  recipient: string;
+  signature: string;
+  explorer: string;
+}
 
 export const createCommand = new Command("create")
   .description("Create a proof-of-existence attestation for an agent")
   .requiredOption("-n, --name <name>", "Agent name (max 32 chars)")
   .requiredOption("-c, --claim <text>", "Claim text to hash as proof")
   .option("-m, --model <id>", "Model/version identifier", "unknown")
-  .option("-k, --keypair <path>", "Path to keypair file (payer & recipient)")
-  .option("--rpc <url>", "RPC URL (default: devnet)")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (payer & recipient)")
   .option("--expiry <days>", "Attestation expiry in days", "365")
-  .option("--json", "Output as JSON")
+  .option("--dry-run", "Simulate and report fees and rent without sending")
+  .option("--json", "Output as JSON (same as --output json)")
+  .option("--devnet", "Shortcut for --profile devnet")
   .action(async (options) => {
-    const json = options.json;
-    
-    if (!json) {
-      console.log("\n🌑 Agent Proof - Create\n");
-    }
+    const json = !isTextOutput();
     
-    // Set RPC if provided
-    if (options.rpc) {
-      setRpcUrl(options.rpc);
-    }
+    log("\n🌑 Agent Proof - Create\n");
     
+    // RPC from the global --url / --profile
     const client = getClient();
     
-    // Load keypair
-    const payer = await loadKeypair(options.keypair);
+    // Load signer (no silent fallback: a throwaway key would own the proof)
+    const payer = await loadSigner(options.keypair).catch(error => fail(null, "Create failed", error));
     
     if (!json) {
       console.log(`Agent:       ${options.name}`);
@@ -74,20 +87,6 @@ export const createCommand = new Command("create")
       console.log();
     }
     
-    // Check balance
-    const balance = await client.rpc.getBalance(payer.address).send();
-    if (balance.value < lamports(10_000_000n)) {
-      if (!json) {
-        console.log("📥 Low balance, requesting airdrop...");
-      }
-      const airdrop = airdropFactory({ rpc: client.rpc, rpcSubscriptions: client.rpcSubscriptions });
-      await airdrop({
-        commitment: "confirmed",
-        lamports: lamports(1_000_000_000n),
-        recipientAddress: payer.address,
-      });
-    }
-    
     // Fetch schema to serialize data
     const schema = await fetchSchema(client.rpc, CONFIG.SCHEMA_ADDRESS!);
     
@@ -121,17 +120,12 @@ export const createCommand = new Command("create")
     // Check if attestation already exists
     const existingAttestation = await client.rpc.getAccountInfo(attestationPda).send();
     if (existingAttestation.value) {
-      if (json) {
-        console.log(JSON.stringify({
-          success: false,
-          error: "Attestation already exists for this agent",
-          attestation: attestationPda,
-        }));
-      } else {
-        console.log("⚠️  Attestation already exists for this agent!");
-        console.log(`   View: https://explorer.solana.com/address/${attestationPda}?cluster=devnet`);
-      }
-      return;
+      fail(null, "Create failed", new CliError(
+        ERROR_CODES.ALREADY_EXISTS,
+        "Attestation already exists for this agent",
+        { attestation: attestationPda },
+        `View: https://explorer.solana.com/address/${attestationPda}?cluster=devnet`,
+      ));
     }
     
     // Prepare attestation data
@@ -148,43 +142,16 @@ export const createCommand = new Command("create")
     const expiryTimestamp = Math.floor(Date.now() / 1000) + (expiryDays * 24 * 60 * 60);
     
     // Calculate mint account space
-    const mintSpace = getMintSize([
-      {
-        __kind: "GroupMemberPointer",
-        authority: sasPda,
-        memberAddress: attestationMint,
-      },
-      { __kind: "NonTransferable" },
-      {
-        __kind: "MetadataPointer",
-        authority: sasPda,
-        metadataAddress: attestationMint,
-      },
-      { __kind: "PermanentDelegate", delegate: sasPda },
-      { __kind: "MintCloseAuthority", closeAuthority: sasPda },
-      {
-        __kind: "TokenMetadata",
-        updateAuthority: sasPda,
-        mint: attestationMint,
-        name: `Agent Proof: ${options.name}`,
-        symbol: CONFIG.TOKEN_SYMBOL,
-        uri: `${CONFIG.TOKEN_URI_BASE}${attestationPda}`,
-        additionalMetadata: new Map([
-          ["attestation", attestationPda],
-          ["schema", CONFIG.SCHEMA_ADDRESS!],
-        ]),
-      },
-      {
-        __kind: "TokenGroupMember",
-        group: CONFIG.SCHEMA_MINT_ADDRESS!,
-        mint: attestationMint,
-        memberNumber: 1,
-      },
-    ]);
-    
-    if (!json) {
-      console.log("🔨 Creating tokenized attestation...");
-    }
+    const mintSpace = getAttestationMintSize({
+      sasPda,
+      attestation: attestationPda,
+      attestationMint,
+      schema: CONFIG.SCHEMA_ADDRESS!,
+      schemaMint: CONFIG.SCHEMA_MINT_ADDRESS!,
+      tokenName: `Agent Proof: ${options.name}`,
+      tokenSymbol: CONFIG.TOKEN_SYMBOL,
+      tokenUri: `${CONFIG.TOKEN_URI_BASE}${attestationPda}`,
+    });
     
     // Create the instruction
     const createAttestationIx = await getCreateTokenizedAttestationInstruction({
@@ -209,6 +176,42 @@ export const createCommand = new Command("create")
       tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
     });
     
+    // Estimate fees and rent for what this transaction creates
+    const estimator = new SASClient({ signer: payer });
+    const plan = {
+      description: `create proof for ${options.name}: attestation ${attestationPda}`,
+      instructions: [createAttestationIx],
+      newAccounts: [
+        { label: "attestation", address: attestationPda, space: getAttestationSize(serializedData) },
+        { label: "attestation mint", address: attestationMint, space: mintSpace },
+        { label: "recipient token account", address: recipientAta, space: ATTESTATION_TOKEN_ACCOUNT_SIZE },
+      ],
+    };
+
+    if (options.dryRun) {
+      await dryRun(startSpinner("Simulating..."), estimator, plan, options)
+        .catch(error => fail(null, "Create failed", error));
+      return;
+    }
+
+    // Check balance
+    const estimate = await estimator.estimateCost(plan.instructions, plan.newAccounts);
+    if (estimate.balanceLamports < estimate.totalLamports) {
+      if (!json) {
+        console.log("📥 Low balance, requesting airdrop...");
+      }
+      const airdrop = airdropFactory({ rpc: client.rpc, rpcSubscriptions: client.rpcSubscriptions });
+      await airdrop({
+        commitment: "confirmed",
+        lamports: lamports(1_000_000_000n),
+        recipientAddress: payer.address,
+      });
+    }
+    
+    if (!json) {
+      console.log("🔨 Creating tokenized attestation...");
+    }
+    
     // Send transaction
     const signature = await sendAndConfirmInstructions(
       client,
@@ -217,8 +220,7 @@ export const createCommand = new Command("create")
       json ? undefined : "Attestation created"
     );
     
-    const result = {
-      success: true,
+    const result: CreateResult = {
       agent: options.name,
       model: options.model,
       proofHash,
@@ -230,7 +232,7 @@ export const createCommand = new Command("create")
     };
     
     if (json) {
-      console.log(JSON.stringify(result, null, 2));
+      emit(result);
     } else {
       console.log();
       console.log("🎉 Proof created successfully!");
@@ -240,21 +242,3 @@ export const createCommand = new Command("create")
       console.log();
     }
   });
-
-async function loadKeypair(keypairPath?: string) {
-  if (keypairPath && fs.existsSync(keypairPath)) {
-    const secretKey = JSON.parse(fs.readFileSync(keypairPath, "utf-8"));
-    return createKeyPairSignerFromBytes(new Uint8Array(secretKey));
-  }
-  
-  // Try default Solana CLI keypair
-  const defaultPath = path.join(process.env.HOME || "", ".config/solana/id.json");
-  if (fs.existsSync(defaultPath)) {
-    const secretKey = JSON.parse(fs.readFileSync(defaultPath, "utf-8"));
-    return createKeyPairSignerFromBytes(new Uint8Array(secretKey));
-  }
-  
-  // Generate new keypair
-  console.log("⚠️  No keypair found, generating temporary one...");
-  return generateKeyPairSigner();
-}
@@ -0,0 +1,171 @@
+/**
+ * Credential command - manage who may issue attestations under a credential
+ *
+ * signers list                 Show the credential's authority and authorized signers
+ * signers add <address...>     Authorize more operator keys (authority only)
+ * signers remove <address...>  Revoke operator keys (authority only)
+ *
+ * Authorized operators attest with `agent-proof attest --authority <authority-wallet>`.
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { address, type Address } from "@solana/kit";
+import { SASClient } from "../lib/sas-client.js";
+import { loadSigner } from "../lib/signers.js";
+import { startSpinner, log, emit, fail, CliError, ERROR_CODES } from "../lib/output.js";
+
+/**
+ * Result emitted by `credential signers list|add|remove` in json/ndjson output modes
+ */
+export interface CredentialSignersResult {
+  credential: string;
+  authority: string;
+  signers: string[];
+  added: string[];
+  removed: string[];
+  /** null when nothing changed (and for `list`) */
+  signature: string | null;
+}
+
+export const credentialCommand = new Command("credential")
+  .description("Manage credential authorized signers");
+
+const signersCommand = credentialCommand
+  .command("signers")
+  .description("List, add or remove the keys allowed to issue attestations");
+
+signersCommand
+  .command("list")
+  .description("Show a credential's authority and authorized signers")
+  .option("-n, --name <name>", "Agent name (from init)", "unnamed-agent")
+  .option("-c, --credential <name>", "Credential name (default: agent-proof-<name>)")
+  .option("--authority <address>", "Credential authority (default: your keypair)")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(async (options) => {
+    const spinner = startSpinner("Fetching credential...");
+
+    try {
+      const { client, credential } = await openCredential(options);
+      const { authority, signers } = await client.getCredentialSigners(credential);
+      spinner.succeed(`${signers.length} authorized signer${signers.length === 1 ? "" : "s"}`);
+      report({ credential, authority, signers, added: [], removed: [], signature: null });
+    } catch (error) {
+      fail(spinner, "Failed to list signers", error);
+    }
+  });
+
+signersCommand
+  .command("add")
+  .description("Authorize operator keys to issue attestations (authority only)")
+  .argument("<addresses...>", "Wallet addresses to authorize")
+  .option("-n, --name <name>", "Agent name (from init)", "unnamed-agent")
+  .option("-c, --credential <name>", "Credential name (default: agent-proof-<name>)")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(async (addresses: string[], options) => {
+    const spinner = startSpinner("Fetching credential...");
+
+    try {
+      const requested = parseAddresses(addresses);
+      await updateSigners(spinner, options, current => {
+        const added = requested.filter(a => !current.includes(a));
+        return { signers: [...current, ...added], added, removed: [] };
+      });
+    } catch (error) {
+      fail(spinner, "Failed to add signers", error);
+    }
+  });
+
+signersCommand
+  .command("remove")
+  .description("Revoke operator keys (authority only)")
+  .argument("<addresses...>", "Wallet addresses to remove")
+  .option("-n, --name <name>", "Agent name (from init)", "unnamed-agent")
+  .option("-c, --credential <name>", "Credential name (default: agent-proof-<name>)")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(async (addresses: string[], options) => {
+    const spinner = startSpinner("Fetching credential...");
+
+    try {
+      const requested = parseAddresses(addresses);
+      await updateSigners(spinner, options, current => {
+        const removed = current.filter(a => requested.includes(a));
+        const signers = current.filter(a => !requested.includes(a));
+        if (signers.length === 0) {
+          throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "A credential needs at least one authorized signer",
+            undefined, "Add the replacement signer before removing the last one.");
+        }
+        return { signers, added: [], removed };
+      });
+    } catch (error) {
+      fail(spinner, "Failed to remove signers", error);
+    }
+  });
+
+async function openCredential(options: { name: string; credential?: string; authority?: string; keypair?: string }) {
+  const signer = await loadSigner(options.keypair);
+  const client = new SASClient({ signer });
+  const credentialName = options.credential || `agent-proof-${options.name}`;
+  const authority = options.authority ? address(options.authority) : undefined;
+  const credential = await client.deriveCredentialAddress(credentialName, authority);
+  return { client, credential, credentialName };
+}
+
+async function updateSigners(
+  spinner: ReturnType<typeof startSpinner>,
+  options: { name: string; credential?: string; keypair?: string },
+  change: (current: Address[]) => { signers: Address[]; added: Address[]; removed: Address[] },
+): Promise<void> {
+  const { client, credential, credentialName } = await openCredential(options);
+  const { authority, signers: current } = await client.getCredentialSigners(credential);
+  if (authority !== client.getAuthority()) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Only the credential authority can change signers of ${credentialName}`,
+      { credential, authority, keypair: client.getAuthority() });
+  }
+
+  const { signers, added, removed } = change(current);
+  if (added.length === 0 && removed.length === 0) {
+    spinner.succeed("Signers already up to date");
+    report({ credential, authority, signers: current, added, removed, signature: null });
+    return;
+  }
+
+  spinner.text = "Updating authorized signers...";
+  const result = await client.changeAuthorizedSigners(credential, signers);
+  spinner.succeed("Authorized signers updated!");
+  log(chalk.green(`✓ Transaction: ${result.signature.slice(0, 16)}...`) + chalk.gray(` (${result.cuUsed.toLocaleString()} CU)`));
+  report({ credential, authority, signers, added, removed, signature: result.signature });
+}
+
+function report(result: CredentialSignersResult): void {
+  emit(result);
+
+  log(chalk.cyan("\n🔑 Credential Signers"));
+  log(chalk.gray("─".repeat(50)));
+  log(`Credential:  ${chalk.cyan(result.credential)}`);
+  log(`Authority:   ${chalk.cyan(result.authority)}`);
+  log(chalk.gray("─".repeat(50)));
+  for (const signer of result.signers) {
+    const tag = result.added.includes(signer) ? chalk.green(" (added)")
+      : signer === result.authority ? chalk.gray(" (authority)")
+      : "";
+    log(`  ${chalk.white(signer)}${tag}`);
+  }
+  for (const signer of result.removed) {
+    log(`  ${chalk.red.strikethrough(signer)}${chalk.red(" (removed)")}`);
+  }
+  log(chalk.gray("─".repeat(50)));
+}
+
+function parseAddresses(values: string[]): Address[] {
+  return [...new Set(values.map(v => {
+    try {
+      return address(v);
+    } catch {
+      throw new CliError(ERROR_CODES.INVALID_ADDRESS, `Invalid address "${v}"`);
+    }
+  }))];
+}
@@ -0,0 +1,102 @@
+/**
+ * expiring command - Report attestations about to lapse
+ *
+ * Lists a credential's (or schema's) attestations that expire within a
+ * window, soonest first, with the wallet holding each proof, so they can be
+ * renewed before verifiers start rejecting them.
+ */
+
+import chalk from "chalk";
+import { address } from "@solana/kit";
+import { getClient } from "../lib/client";
+import { attestationRecordJson, type AttestationRecordJson } from "../lib/attestations";
+import {
+  DEFAULT_EXPIRING_WITHIN,
+  findExpiringAttestations,
+  parseDuration,
+  type ExpiringAttestation,
+} from "../lib/expiry";
+import { startSpinner, log, emit, fail, isTextOutput, CliError, ERROR_CODES } from "../lib/output";
+
+/**
+ * Row emitted by `expiring` in json/ndjson output modes
+ */
+export interface ExpiringResultItem extends AttestationRecordJson {
+  holder: string | null;
+  /** Seconds until expiry, negative once expired */
+  expiresIn: number;
+}
+
+export interface ExpiringOptions {
+  credential?: string;
+  schema?: string;
+  within?: string;
+  expired?: boolean;
+}
+
+export async function expiringCommand(options: ExpiringOptions): Promise<void> {
+  const spinner = startSpinner("Finding expiring attestations...");
+
+  try {
+    if (!options.credential && !options.schema) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Pass --credential <address> or --schema <address>");
+    }
+    const within = options.within ?? DEFAULT_EXPIRING_WITHIN;
+    const withinSeconds = parseDuration(within, "--within");
+
+    const expiring = await findExpiringAttestations(getClient().rpc, {
+      credential: options.credential ? address(options.credential) : undefined,
+      schema: options.schema ? address(options.schema) : undefined,
+    }, withinSeconds, { includeExpired: options.expired !== false });
+    spinner.stop();
+
+    emit(expiring.map(({ record, holder, expiresIn }) => ({
+      ...attestationRecordJson(record),
+      holder,
+      expiresIn,
+    })) satisfies ExpiringResultItem[]);
+
+    if (!isTextOutput()) return;
+
+    if (expiring.length === 0) {
+      log(chalk.green(`\n✓ Nothing expires within ${within}.\n`));
+      return;
+    }
+
+    log();
+    printTable(expiring);
+    const expired = expiring.filter(e => e.expiresIn <= 0).length;
+    log(`\n${expiring.length} proof(s) expiring within ${within}, ${expired} already expired`);
+    log(chalk.gray("Renew with: agent-proof renew <attestation> --expiry <duration>\n"));
+  } catch (error) {
+    fail(spinner, "Expiry report failed", error);
+  }
+}
+
+function printTable(expiring: ExpiringAttestation[]) {
+  const rows = expiring.map(({ record, holder, expiresIn }) => {
+    const summary = record.data && record.decoder?.summary ? record.decoder.summary(record.data) : {};
+    return [
+      record.address,
+      summary.agent ?? "-",
+      holder ?? "(burned)",
+      new Date(Number(record.expiry) * 1000).toISOString().slice(0, 16).replace("T", " "),
+      expiresIn <= 0 ? "⚠ expired" : `in ${formatSeconds(expiresIn)}`,
+    ];
+  });
+  const header = ["Attestation", "Agent", "Holder", "Expires (UTC)", "Status"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join("  ");
+
+  log(format(header));
+  log("─".repeat(widths.reduce((a, b) => a + b + 2, -2)));
+  for (const row of rows) {
+    log(format(row));
+  }
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds >= 24 * 60 * 60) return `${Math.floor(seconds / (24 * 60 * 60))}d`;
+  if (seconds >= 60 * 60) return `${Math.floor(seconds / (60 * 60))}h`;
+  return `${Math.max(1, Math.floor(seconds / 60))}m`;
+}
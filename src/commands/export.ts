@@ -0,0 +1,82 @@
+/**
+ * export command - Write an offline-verifiable proof bundle
+ *
+ * The bundle holds the raw attestation, schema, credential and proof NFT
+ * accounts read at a single slot. Check it later without network access:
+ *   agent-proof verify --bundle <file>
+ */
+
+import chalk from "chalk";
+import { address, createSolanaRpc } from "@solana/kit";
+import { startSpinner, log, emit, fail, isTextOutput, toCliError, CliError, ERROR_CODES } from "../lib/output";
+import { getActiveNetwork } from "../lib/profiles";
+import { createProofBundle } from "../lib/bundle";
+
+/**
+ * Result emitted by `export --out` in json/ndjson output modes (without --out the bundle itself is emitted)
+ */
+export interface ExportResult {
+  attestation: string;
+  path: string;
+  slot: string;
+  blockhash: string;
+  decoder: string;
+}
+
+export interface ExportOptions {
+  out?: string;
+}
+
+export async function exportCommand(
+  addressStr: string,
+  options: ExportOptions
+): Promise<void> {
+  const spinner = startSpinner("Reading attestation accounts...");
+
+  try {
+    const network = getActiveNetwork();
+    const rpc = createSolanaRpc(network.rpcUrl);
+
+    const bundle = await createProofBundle(rpc, address(addressStr), {
+      profile: network.profile,
+      rpcUrl: network.rpcUrl,
+    });
+
+    spinner.succeed(`Bundle read at slot ${bundle.slot}`);
+
+    if (!options.out) {
+      if (isTextOutput()) {
+        console.log(JSON.stringify(bundle, null, 2));
+      }
+      emit(bundle);
+      return;
+    }
+
+    await Bun.write(options.out, JSON.stringify(bundle, null, 2) + "\n");
+
+    emit({
+      attestation: bundle.attestation,
+      path: options.out,
+      slot: bundle.slot,
+      blockhash: bundle.blockhash,
+      decoder: bundle.decoded.decoder,
+    } satisfies ExportResult);
+
+    log(chalk.cyan("\n📦 Proof Bundle Exported"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Attestation: ${chalk.cyan(bundle.attestation)}`);
+    log(`Schema Type: ${chalk.gray(bundle.decoded.decoder)}`);
+    log(`Slot:        ${chalk.white(bundle.slot)}`);
+    log(`Blockhash:   ${chalk.gray(bundle.blockhash)}`);
+    log(`File:        ${chalk.white(options.out)}`);
+    log(chalk.gray("─".repeat(50)));
+    log(chalk.gray(`\nVerify offline with: agent-proof verify --bundle ${options.out}`));
+
+  } catch (error) {
+    const cliError = toCliError(error);
+    fail(spinner, "Export failed", cliError.code === ERROR_CODES.ACCOUNT_NOT_FOUND
+      ? new CliError(cliError.code, cliError.message, { address: addressStr },
+        "The address may not have an agent proof, or it may have been revoked.")
+      : cliError);
+  }
+}
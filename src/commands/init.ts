@@ -5,11 +5,20 @@
  * 1. Credential (authority to issue attestations)
  * 2. Schema (defines agent attestation structure)
  * 3. Tokenizes schema (enables NFT proofs)
+ *
+ * Shows a plan first and runs only the missing steps, so it is safe to
+ * re-run after a partial failure. Stops if an existing account differs from
+ * what init would create (see lib/plan).
  */
 
 import chalk from "chalk";
-import ora from "ora";
-import { loadKeypairFromFile, SASClient } from "../lib/sas-client";
+import { startSpinner, log, emit, fail, CliError, ERROR_CODES } from "../lib/output";
+import { SASClient, type SchemaConfig } from "../lib/sas-client";
+import { loadSigner } from "../lib/signers";
+import { getActiveNetwork, isMainnet as isMainnetNetwork } from "../lib/profiles";
+import { signOnly, signOnlyFeePayer, type SignOnlyOptions } from "../lib/offline";
+import { dryRun, type DryRunOptions } from "../lib/cost";
+import { planInit, type InitPlan, type PlanStatus } from "../lib/plan";
 import {
   AGENT_SCHEMA_NAME,
   AGENT_SCHEMA_DESCRIPTION,
@@ -18,107 +27,207 @@ import {
   AGENT_SCHEMA_VERSION,
 } from "../schemas/agent";
 
-const DEVNET_RPC = "https://api.devnet.solana.com";
-const DEVNET_WSS = "wss://api.devnet.solana.com";
-const MAINNET_RPC = "https://api.mainnet-beta.solana.com";
-const MAINNET_WSS = "wss://api.mainnet-beta.solana.com";
+/**
+ * Result emitted by `init` in json/ndjson output modes
+ */
+export interface InitResult {
+  network: string;
+  authority: string;
+  agent: { name: string; type: string; platform: string };
+  credential: string;
+  schema: string;
+  schemaMint: string;
+  plan: { step: string; account: string; status: PlanStatus; rentLamports: string }[];
+  rentLamports: string;
+  /** null for steps that were already done */
+  signatures: { credential: string | null; schema: string | null; tokenize: string | null };
+  totalCuUsed: number;
+}
 
-export interface InitOptions {
+export interface InitOptions extends SignOnlyOptions, DryRunOptions {
   name: string;
   type: string;
   platform: string;
-  keypair: string;
-  devnet?: boolean;
-  mainnet?: boolean;
+  keypair?: string;
 }
 
 export async function initCommand(options: InitOptions): Promise<void> {
-  const spinner = ora("Loading keypair...").start();
+  const spinner = startSpinner("Loading keypair...");
   
   try {
-    // Expand ~ to home directory
-    const keypairPath = options.keypair.replace("~", process.env.HOME || "");
-    const signer = await loadKeypairFromFile(keypairPath);
+    const signer = await loadSigner(options.keypair);
     
     spinner.text = "Initializing SAS client...";
     
-    const isMainnet = options.mainnet;
-    const client = new SASClient({
-      rpcUrl: isMainnet ? MAINNET_RPC : DEVNET_RPC,
-      wssUrl: isMainnet ? MAINNET_WSS : DEVNET_WSS,
-      signer,
-    });
-
-    // Check balance
-    spinner.text = "Checking balance...";
-    const balance = await client.getBalance();
-    const solBalance = Number(balance) / 1e9;
+    const network = getActiveNetwork();
+    const isMainnet = isMainnetNetwork(network);
+    const client = new SASClient({ signer, feePayer: signOnlyFeePayer(options) });
+    const credentialName = `agent-proof-${options.name}`;
+    const schemaConfig: SchemaConfig = {
+      credentialName,
+      name: AGENT_SCHEMA_NAME,
+      description: AGENT_SCHEMA_DESCRIPTION,
+      layout: AGENT_SCHEMA_LAYOUT,
+      fieldNames: AGENT_SCHEMA_FIELD_NAMES,
+      version: AGENT_SCHEMA_VERSION,
+    };
+
+    spinner.text = "Checking existing accounts...";
+    const plan = await planInit(client, schemaConfig);
+    const pending = new Set(plan.steps.filter(s => s.status === "create").map(s => s.step));
+    spinner.stop();
+    logPlan(plan);
+
+    const mismatches = plan.steps.filter(s => s.status === "mismatch");
+    if (mismatches.length > 0) {
+      throw new CliError(ERROR_CODES.ALREADY_EXISTS,
+        `Existing ${mismatches.map(s => s.step).join(" and ")} account${mismatches.length === 1 ? " does" : "s do"} not match what init would create`,
+        { mismatches: mismatches.map(s => ({ step: s.step, account: s.account, mismatch: s.mismatch })) },
+        "Use another --name, or `agent-proof schema upgrade` to move an existing credential to a new schema version.");
+    }
+
+    const signatures: InitResult["signatures"] = { credential: null, schema: null, tokenize: null };
+    let totalCuUsed = 0;
+
+    if (pending.size === 0) {
+      spinner.succeed("Already initialized, nothing to do");
+      report(options, network.profile, client, plan, signatures, totalCuUsed);
+      return;
+    }
+
+    const description = `init ${credentialName}: ${[...pending].join(", ")} (credential ${plan.credential}, schema ${plan.schema})`;
+
+    if (options.dryRun) {
+      spinner.start();
+      await dryRun(spinner, client, {
+        description,
+        instructions: plan.instructions,
+        newAccounts: plan.newAccounts,
+        transactions: pending.size,
+      }, options);
+      return;
+    }
+
+    if (options.signOnly) {
+      // One transaction, so a single signature round (and durable nonce) covers every missing step
+      spinner.start("Building transaction...");
+      await signOnly(spinner, client, plan.instructions, description, options);
+      return;
+    }
+
+    // Check balance against the estimated fees and rent
+    spinner.start("Checking balance...");
+    const estimate = await client.estimateCost(plan.instructions, plan.newAccounts, pending.size);
+    const solBalance = Number(estimate.balanceLamports) / 1e9;
     
-    if (solBalance < 0.05) {
+    if (estimate.balanceLamports < estimate.totalLamports) {
       spinner.warn("Low balance detected");
-      console.log(chalk.yellow(`\nBalance: ${solBalance.toFixed(4)} SOL`));
-      console.log(chalk.gray("You may need more SOL for transactions."));
+      log(chalk.yellow(`\nBalance: ${solBalance.toFixed(4)} SOL (needs ~${(Number(estimate.totalLamports) / 1e9).toFixed(4)} SOL)`));
+      log(chalk.gray("You may need more SOL for transactions."));
       
       if (!isMainnet) {
-        console.log(chalk.cyan("\nRequesting airdrop..."));
+        log(chalk.cyan("\nRequesting airdrop..."));
         const sig = await client.airdrop();
-        console.log(chalk.green(`✓ Airdrop: ${sig.slice(0, 16)}...`));
+        log(chalk.green(`✓ Airdrop: ${sig.slice(0, 16)}...`));
         await new Promise(r => setTimeout(r, 2000));
       }
+      spinner.start();
     }
 
-    const credentialName = `agent-proof-${options.name}`;
-    let totalCuUsed = 0;
-    
     // Step 1: Create Credential
-    spinner.text = "Creating credential...";
-    const { signature: credSig, credential, cuUsed: credCu } = await client.createCredential({
-      name: credentialName,
-    });
-    totalCuUsed += credCu;
-    console.log(chalk.green(`\n✓ Credential: ${credSig.slice(0, 16)}...`) + chalk.gray(` (${credCu.toLocaleString()} CU)`));
+    if (pending.has("credential")) {
+      spinner.text = "Creating credential...";
+      const { signature, cuUsed } = await client.createCredential({ name: credentialName });
+      signatures.credential = signature;
+      totalCuUsed += cuUsed;
+      log(chalk.green(`\n✓ Credential: ${signature.slice(0, 16)}...`) + chalk.gray(` (${cuUsed.toLocaleString()} CU)`));
+    }
     
     // Step 2: Create Schema
-    spinner.text = "Creating schema...";
-    const { signature: schemaSig, schema, cuUsed: schemaCu } = await client.createSchema({
-      credentialName,
-      name: AGENT_SCHEMA_NAME,
-      description: AGENT_SCHEMA_DESCRIPTION,
-      layout: AGENT_SCHEMA_LAYOUT,
-      fieldNames: AGENT_SCHEMA_FIELD_NAMES,
-      version: AGENT_SCHEMA_VERSION,
-    });
-    totalCuUsed += schemaCu;
-    console.log(chalk.green(`✓ Schema: ${schemaSig.slice(0, 16)}...`) + chalk.gray(` (${schemaCu.toLocaleString()} CU)`));
+    if (pending.has("schema")) {
+      spinner.text = "Creating schema...";
+      const { signature, cuUsed } = await client.createSchema(schemaConfig);
+      signatures.schema = signature;
+      totalCuUsed += cuUsed;
+      log(chalk.green(`✓ Schema: ${signature.slice(0, 16)}...`) + chalk.gray(` (${cuUsed.toLocaleString()} CU)`));
+    }
     
     // Step 3: Tokenize Schema
-    spinner.text = "Tokenizing schema...";
-    const { signature: tokenSig, mint, cuUsed: tokenCu } = await client.tokenizeSchema(credential, schema);
-    totalCuUsed += tokenCu;
-    console.log(chalk.green(`✓ Tokenized: ${tokenSig.slice(0, 16)}...`) + chalk.gray(` (${tokenCu.toLocaleString()} CU)`));
+    if (pending.has("tokenize")) {
+      spinner.text = "Tokenizing schema...";
+      const { signature, cuUsed } = await client.tokenizeSchema(plan.credential, plan.schema);
+      signatures.tokenize = signature;
+      totalCuUsed += cuUsed;
+      log(chalk.green(`✓ Tokenized: ${signature.slice(0, 16)}...`) + chalk.gray(` (${cuUsed.toLocaleString()} CU)`));
+    }
 
     spinner.succeed("Initialization complete!");
-    
-    console.log(chalk.cyan("\n📋 Agent Identity Initialized"));
-    console.log(chalk.gray("─".repeat(50)));
-    console.log(`Network:     ${chalk.yellow(isMainnet ? "mainnet-beta" : "devnet")}`);
-    console.log(`Authority:   ${chalk.green(client.getAuthority())}`);
-    console.log(`Agent Name:  ${chalk.white(options.name)}`);
-    console.log(`Agent Type:  ${chalk.white(options.type)}`);
-    console.log(`Platform:    ${chalk.white(options.platform)}`);
-    console.log(chalk.gray("─".repeat(50)));
-    console.log(`Credential:  ${chalk.cyan(credential)}`);
-    console.log(`Schema:      ${chalk.cyan(schema)}`);
-    console.log(`Schema Mint: ${chalk.cyan(mint)}`);
-    console.log(`Total CU:    ${chalk.magenta(totalCuUsed.toLocaleString())} (3 txns)`);
-    console.log(chalk.gray("─".repeat(50)));
-    
-    console.log(chalk.green("\n✓ Ready to create attestations!"));
-    console.log(chalk.gray(`Run: agent-proof attest --name "${options.name}"`));
+    report(options, network.profile, client, plan, signatures, totalCuUsed);
 
   } catch (error) {
-    spinner.fail("Initialization failed");
-    console.error(chalk.red("\nError:"), error);
-    process.exit(1);
+    fail(spinner, "Initialization failed", error);
+  }
+}
+
+const STATUS_LABELS: Record<PlanStatus, string> = {
+  exists: chalk.gray("✓ exists  "),
+  create: chalk.green("+ create  "),
+  mismatch: chalk.red("✗ mismatch"),
+};
+
+function logPlan(plan: InitPlan): void {
+  log(chalk.cyan("\n🗺  Plan"));
+  log(chalk.gray("─".repeat(50)));
+  for (const step of plan.steps) {
+    const rent = step.status === "create" ? chalk.gray(` (${(Number(step.rentLamports) / 1e9).toFixed(6)} SOL rent)`) : "";
+    log(`${STATUS_LABELS[step.status]}  ${step.step.padEnd(10)} ${chalk.cyan(step.account)}${rent}`);
+    if (step.mismatch) {
+      log(chalk.red(`            ${step.mismatch}`));
+    }
   }
+  log(chalk.gray("─".repeat(50)));
+  if (plan.rentLamports > 0n) {
+    log(`Estimated rent: ${chalk.white((Number(plan.rentLamports) / 1e9).toFixed(6))} SOL`);
+  }
+}
+
+function report(
+  options: InitOptions,
+  networkName: string,
+  client: SASClient,
+  plan: InitPlan,
+  signatures: InitResult["signatures"],
+  totalCuUsed: number,
+): void {
+  const sent = Object.values(signatures).filter(Boolean).length;
+
+  emit({
+    network: networkName,
+    authority: client.getAuthority(),
+    agent: { name: options.name, type: options.type, platform: options.platform },
+    credential: plan.credential,
+    schema: plan.schema,
+    schemaMint: plan.mint,
+    plan: plan.steps.map(s => ({ step: s.step, account: s.account, status: s.status, rentLamports: s.rentLamports.toString() })),
+    rentLamports: plan.rentLamports.toString(),
+    signatures,
+    totalCuUsed,
+  } satisfies InitResult);
+    
+  log(chalk.cyan("\n📋 Agent Identity Initialized"));
+  log(chalk.gray("─".repeat(50)));
+  log(`Network:     ${chalk.yellow(networkName)}`);
+  log(`Authority:   ${chalk.green(client.getAuthority())}`);
+  log(`Agent Name:  ${chalk.white(options.name)}`);
+  log(`Agent Type:  ${chalk.white(options.type)}`);
+  log(`Platform:    ${chalk.white(options.platform)}`);
+  log(chalk.gray("─".repeat(50)));
+  log(`Credential:  ${chalk.cyan(plan.credential)}`);
+  log(`Schema:      ${chalk.cyan(plan.schema)}`);
+  log(`Schema Mint: ${chalk.cyan(plan.mint)}`);
+  log(`Total CU:    ${chalk.magenta(totalCuUsed.toLocaleString())} (${sent} txn${sent === 1 ? "" : "s"})`);
+  log(chalk.gray("─".repeat(50)));
+    
+  log(chalk.green("\n✓ Ready to create attestations!"));
+  log(chalk.gray(`Run: agent-proof attest --name "${options.name}"`));
 }
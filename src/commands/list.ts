@@ -3,25 +3,130 @@
  */
 
 import { Command } from "commander";
+import { address, type Address } from "@solana/kit";
+import type { Attestation } from "sas-lib";
+import { getClient, setRpcUrl } from "../lib/client.js";
+import {
+  findAttestations,
+  findAttestationsByOwner,
+  decodeAttestations,
+  attestationRecordJson,
+  type AttestationRecord,
+  type AttestationRecordJson,
+} from "../lib/attestations.js";
+import { loadSigner } from "../lib/signers.js";
+import { AttestationIndex } from "../lib/local-index.js";
+import { log, emit, fail, isTextOutput } from "../lib/output.js";
 
 export const listCommand = new Command("list")
   .description("List proof attestations for an agent")
-  .option("-a, --agent <pubkey>", "Agent public key")
+  .option("-a, --agent <pubkey>", "Agent wallet holding the proof NFTs")
+  .option("-c, --credential <address>", "Credential the proofs were issued under")
+  .option("-s, --schema <address>", "Schema the proofs belong to")
   .option("--all", "List all proofs in the registry")
-  .option("--rpc <url>", "RPC URL")
-  .option("--json", "Output as JSON")
+  .option("-k, --keypair <signer>", "Signer whose proofs to list: keypair path, env:<VAR> or exec:<command>")
+  .option("--rpc <url>", "RPC URL (overrides the active profile)")
+  .option("--offline", "Read from the local index (see `index sync`) instead of RPC")
+  .option("--json", "Output as JSON (same as --output json)")
   .action(async (options) => {
-    console.log("\n🌑 Agent Proof - List\n");
-    
-    if (options.agent) {
-      console.log(`Agent: ${options.agent}`);
-    } else if (options.all) {
-      console.log("Listing all proofs...");
-    } else {
-      console.log("Listing proofs for current keypair...");
+    log("\n🌑 Agent Proof - List\n");
+
+    try {
+      if (options.rpc) {
+        setRpcUrl(options.rpc);
+      }
+
+      if (options.offline) {
+        const owner = options.agent
+          ? address(options.agent)
+          : options.credential || options.schema || options.all ? undefined : (await loadSigner(options.keypair)).address;
+        log(owner ? `Agent: ${owner} (offline)` : "Listing proofs from the local index...");
+        const index = AttestationIndex.open();
+        try {
+          show(index.attestations({
+            credential: options.credential ? address(options.credential) : undefined,
+            schema: options.schema ? address(options.schema) : undefined,
+            holder: owner,
+          }).map(a => a.record));
+        } finally {
+          index.close();
+        }
+        return;
+      }
+
+      const client = getClient();
+
+      let found: { address: Address; attestation: Attestation }[];
+      if (options.credential || options.schema || options.all) {
+        log(options.all
+          ? "Listing all proofs..."
+          : `Listing proofs for ${options.credential ? `credential ${options.credential}` : `schema ${options.schema}`}...`);
+        found = await findAttestations(client.rpc, {
+          credential: options.credential ? address(options.credential) : undefined,
+          schema: options.schema ? address(options.schema) : undefined,
+        });
+      } else {
+        const owner = options.agent
+          ? address(options.agent)
+          : (await loadSigner(options.keypair)).address;
+        log(`Agent: ${owner}`);
+        found = await findAttestationsByOwner(client.rpc, owner);
+      }
+
+      // --agent combined with a credential/schema filter narrows to that wallet's holdings
+      if (options.agent && (options.credential || options.schema)) {
+        const held = new Set((await findAttestationsByOwner(client.rpc, address(options.agent))).map(a => a.address));
+        found = found.filter(a => held.has(a.address));
+      }
+
+      show(await decodeAttestations(client.rpc, found));
+    } catch (error) {
+      fail(null, "List failed", error);
     }
-    
-    // TODO: Implement listing
-    console.log("\n⚠️  Listing not yet implemented");
-    console.log("   Waiting for credential & schema deployment...\n");
   });
+
+/**
+ * Row emitted by `list` in json/ndjson output modes
+ */
+export type ListResultItem = AttestationRecordJson;
+
+function show(records: AttestationRecord[]) {
+  records.sort((a, b) => Number(b.expiry - a.expiry));
+
+  if (!isTextOutput()) {
+    emit(records.map(attestationRecordJson));
+    return;
+  }
+
+  if (records.length === 0) {
+    console.log("\nNo proofs found.\n");
+    return;
+  }
+
+  console.log();
+  printTable(records);
+  const expired = records.filter(r => r.isExpired).length;
+  console.log(`\n${records.length} proof(s), ${expired} expired\n`);
+}
+
+function printTable(records: AttestationRecord[]) {
+  const rows = records.map(r => {
+    const summary = r.data && r.decoder?.summary ? r.decoder.summary(r.data) : {};
+    return [
+      r.address,
+      summary.agent ?? "-",
+      summary.type ?? "-",
+      r.expiry > 0n ? new Date(Number(r.expiry) * 1000).toISOString().slice(0, 10) : "never",
+      r.isExpired ? "⚠ expired" : r.data ? "✓ valid" : "? undecoded",
+    ];
+  });
+  const header = ["Attestation", "Agent", "Type", "Expires", "Status"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join("  ");
+
+  console.log(format(header));
+  console.log("─".repeat(widths.reduce((a, b) => a + b + 2, -2)));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Index command - maintain the local SQLite attestation index
+ *
+ * sync    Copy the configured credentials' schemas and attestations (incremental)
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { address, type Address } from "@solana/kit";
+import { getClient } from "../lib/client.js";
+import { getActiveNetwork } from "../lib/profiles.js";
+import { AttestationIndex } from "../lib/local-index.js";
+import { startSpinner, log, emit, fail, CliError, ERROR_CODES } from "../lib/output.js";
+
+/**
+ * Result emitted by `index sync` in json/ndjson output modes
+ */
+export interface IndexSyncResult {
+  path: string;
+  credentials: {
+    credential: string;
+    mode: "full" | "incremental";
+    slot: string;
+    transactions: number;
+    schemas: number;
+    attestations: number;
+    closed: number;
+  }[];
+}
+
+export const indexCommand = new Command("index")
+  .description("Maintain the local attestation index (for query and --offline)");
+
+indexCommand
+  .command("sync")
+  .description("Sync credentials' schemas and attestations into the local index")
+  .option("-c, --credential <address...>", "Credentials to sync (default: profile indexCredentials, else those already indexed)")
+  .option("--full", "Re-read every account instead of replaying new transactions")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(async (options) => {
+    const spinner = startSpinner("Opening index...");
+
+    try {
+      const index = AttestationIndex.open({ create: true });
+      try {
+        const configured: string[] = options.credential ?? getActiveNetwork().indexCredentials;
+        const credentials: Address[] = configured.length > 0
+          ? configured.map(c => address(c))
+          : index.syncedCredentials();
+        if (credentials.length === 0) {
+          throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "No credentials to index", undefined,
+            "Pass --credential <address>, or run: agent-proof config set indexCredentials <address>[,<address>...]");
+        }
+
+        const reports = [];
+        for (const credential of credentials) {
+          spinner.text = `Syncing ${credential}...`;
+          reports.push(await index.sync(getClient().rpc, credential, { full: options.full }));
+        }
+        spinner.succeed("Index synced");
+
+        emit({
+          path: index.path,
+          credentials: reports.map(r => ({ ...r, slot: r.slot.toString() })),
+        } satisfies IndexSyncResult);
+
+        log(chalk.gray(`\nIndex: ${index.path}\n`));
+        for (const r of reports) {
+          log(`${chalk.cyan(r.credential)} ${chalk.gray(`slot ${r.slot}, ${r.mode === "full" ? "full read" : `${r.transactions} new transaction${r.transactions === 1 ? "" : "s"}`}`)}`);
+          log(`  ${chalk.white(r.attestations)} attestation${r.attestations === 1 ? "" : "s"} updated, `
+            + `${r.closed ? chalk.yellow(`${r.closed} closed`) : "0 closed"}, ${r.schemas} schema${r.schemas === 1 ? "" : "s"}`);
+        }
+      } finally {
+        index.close();
+      }
+    } catch (error) {
+      fail(spinner, "Index sync failed", error);
+    }
+  });
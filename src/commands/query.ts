@@ -0,0 +1,131 @@
+/**
+ * query command - Search the local attestation index
+ *
+ * Filters on any indexed column: decoded schema fields (agent_type,
+ * platform, owner_pubkey, created_at, ...) and attestation columns
+ * (credential, schema, holder, expiry, ...). Reads only the index, so run
+ * `index sync` first.
+ */
+
+import chalk from "chalk";
+import { attestationRecordJson, type AttestationRecordJson } from "../lib/attestations";
+import { parseDuration } from "../lib/expiry";
+import {
+  AttestationIndex,
+  QUERY_OPERATORS,
+  type IndexedAttestation,
+  type QueryCondition,
+} from "../lib/local-index";
+import { log, emit, fail, isTextOutput, CliError, ERROR_CODES } from "../lib/output";
+
+/**
+ * Row emitted by `query` in json/ndjson output modes
+ */
+export interface QueryResultItem extends AttestationRecordJson {
+  holder: string | null;
+  /** Slot the attestation was last synced at */
+  slot: string;
+  /** Slot it was found closed at (--include-closed) */
+  closedSlot: string | null;
+}
+
+export interface QueryOptions {
+  where?: string[];
+  credential?: string;
+  schema?: string;
+  holder?: string;
+  expiringWithin?: string;
+  includeClosed?: boolean;
+  limit?: string;
+  fields?: boolean;
+}
+
+export async function queryCommand(options: QueryOptions): Promise<void> {
+  try {
+    const index = AttestationIndex.open();
+    try {
+      if (options.fields) {
+        const fields = index.queryFields();
+        emit(fields);
+        log(fields.join("\n"));
+        return;
+      }
+
+      const conditions = (options.where ?? []).map(parseCondition);
+      if (options.credential) conditions.push({ field: "credential", operator: "=", value: options.credential });
+      if (options.schema) conditions.push({ field: "schema", operator: "=", value: options.schema });
+      if (options.holder) conditions.push({ field: "holder", operator: "=", value: options.holder });
+      if (options.expiringWithin) {
+        const now = Math.floor(Date.now() / 1000);
+        conditions.push(
+          { field: "expiry", operator: ">", value: String(now) },
+          { field: "expiry", operator: "<=", value: String(now + parseDuration(options.expiringWithin, "--expiring-within")) },
+        );
+      }
+      const limit = options.limit ? Number(options.limit) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid --limit "${options.limit}"`);
+      }
+
+      const results = index.query(conditions, { includeClosed: options.includeClosed, limit });
+
+      emit(results.map(({ record, holder, slot, closedSlot }) => ({
+        ...attestationRecordJson(record),
+        holder,
+        slot: slot.toString(),
+        closedSlot: closedSlot?.toString() ?? null,
+      })) satisfies QueryResultItem[]);
+
+      if (!isTextOutput()) return;
+
+      if (results.length === 0) {
+        console.log("\nNo matching proofs in the local index.\n");
+        return;
+      }
+      console.log();
+      printTable(results);
+      console.log(chalk.gray(`\n${results.length} proof(s) from ${index.path}\n`));
+    } finally {
+      index.close();
+    }
+  } catch (error) {
+    fail(null, "Query failed", error);
+  }
+}
+
+/**
+ * Parse `field<op>value`, e.g. `agent_type=claude`, `created_at>=2026-09-01`, `platform~claw`
+ */
+function parseCondition(condition: string): QueryCondition {
+  const match = /^([A-Za-z_][A-Za-z0-9_]*)\s*(!=|>=|<=|=|>|<|~)\s*(.*)$/.exec(condition);
+  if (!match) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid --where "${condition}"`, undefined,
+      `Use <field><op><value> with op one of ${QUERY_OPERATORS.join(" ")}, e.g. agent_type=claude`);
+  }
+  return { field: match[1], operator: match[2] as QueryCondition["operator"], value: match[3] };
+}
+
+function printTable(results: IndexedAttestation[]) {
+  const rows = results.map(({ record, holder, closedSlot }) => {
+    const summary = record.data && record.decoder?.summary ? record.decoder.summary(record.data) : {};
+    const createdAt = record.data ? record.decoder?.createdAt?.(record.data) : null;
+    return [
+      record.address,
+      summary.agent ?? "-",
+      summary.type ?? "-",
+      holder ?? "(burned)",
+      createdAt ? createdAt.toISOString().slice(0, 10) : "-",
+      record.expiry > 0n ? new Date(Number(record.expiry) * 1000).toISOString().slice(0, 10) : "never",
+      closedSlot !== null ? "✗ closed" : record.isExpired ? "⚠ expired" : record.data ? "✓ valid" : "? undecoded",
+    ];
+  });
+  const header = ["Attestation", "Agent", "Type", "Holder", "Created", "Expires", "Status"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join("  ");
+
+  console.log(format(header));
+  console.log("─".repeat(widths.reduce((a, b) => a + b + 2, -2)));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * renew command - Re-issue an attestation with a new expiry
+ *
+ * Closes the old attestation and burns its NFT, and mints a new proof to the
+ * same holder with the same data and a fresh created_at, in one transaction
+ * when it fits (see src/lib/renewal.ts for the order and nonce).
+ */
+
+import chalk from "chalk";
+import { address } from "@solana/kit";
+import { startSpinner, log, emit, fail, toCliError, CliError, ERROR_CODES } from "../lib/output";
+import { SASClient } from "../lib/sas-client";
+import { loadSigner } from "../lib/signers";
+import { dryRun, type DryRunOptions } from "../lib/cost";
+import { DEFAULT_EXPIRY, formatExpiry, parseExpiry } from "../lib/expiry";
+import { planRenewal, renewAttestation, renewalInstructions } from "../lib/renewal";
+
+/**
+ * Result emitted by `renew` in json/ndjson output modes
+ */
+export interface RenewResult {
+  from: { attestation: string; mint: string; expiresAt: string | null };
+  to: { attestation: string; mint: string; expiresAt: string | null };
+  credential: string;
+  schema: string;
+  holder: string;
+  data: Record<string, unknown>;
+  atomic: boolean;
+  signatures: { attest: string; close: string };
+  reclaimedLamports: string;
+  cuUsed: number;
+}
+
+export interface RenewOptions extends DryRunOptions {
+  expiry?: string;
+  keypair?: string;
+}
+
+export async function renewCommand(addressStr: string, options: RenewOptions): Promise<void> {
+  const spinner = startSpinner("Loading keypair...");
+
+  try {
+    const expiryDays = parseExpiry(options.expiry ?? DEFAULT_EXPIRY);
+    const signer = await loadSigner(options.keypair);
+    const client = new SASClient({ signer });
+
+    spinner.text = "Building renewal...";
+    const plan = await planRenewal(client, address(addressStr), expiryDays);
+
+    if (options.dryRun) {
+      await dryRun(spinner, client, {
+        description: `renew attestation ${plan.from.attestation} for ${plan.holder} as ${plan.to.attestation}, `
+          + `expiring ${formatExpiry(plan.to.expiry) ?? "never"}`,
+        instructions: renewalInstructions(plan),
+        newAccounts: plan.newAccounts,
+        transactions: plan.atomic ? 1 : 2,
+        reclaimedLamports: plan.reclaimedLamports,
+      }, options);
+      return;
+    }
+
+    spinner.text = plan.atomic ? "Renewing attestation..." : "Renewing attestation (2 transactions)...";
+    const { signatures, cuUsed } = await renewAttestation(client, plan);
+
+    spinner.succeed("Attestation renewed!");
+
+    emit({
+      from: { attestation: plan.from.attestation, mint: plan.from.mint, expiresAt: formatExpiry(plan.from.expiry) },
+      to: { attestation: plan.to.attestation, mint: plan.to.mint, expiresAt: formatExpiry(plan.to.expiry) },
+      credential: plan.credential,
+      schema: plan.schema,
+      holder: plan.holder,
+      data: plan.data,
+      atomic: plan.atomic,
+      signatures,
+      reclaimedLamports: plan.reclaimedLamports.toString(),
+      cuUsed,
+    } satisfies RenewResult);
+
+    log(chalk.cyan("\n♻️  Agent Proof Renewed"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Holder:      ${chalk.green(plan.holder)}`);
+    log(`Old:         ${chalk.cyan(plan.from.attestation)} ${chalk.gray(`(expires ${formatExpiry(plan.from.expiry) ?? "never"}, closed)`)}`);
+    log(`New:         ${chalk.cyan(plan.to.attestation)}`);
+    log(`Token Mint:  ${chalk.cyan(plan.to.mint)}`);
+    log(`Expires:     ${chalk.white(formatExpiry(plan.to.expiry) ?? "never")}`);
+    log(`Signature:   ${chalk.cyan(signatures.attest.slice(0, 32))}...`);
+    if (!plan.atomic) {
+      log(`Close Sig:   ${chalk.cyan(signatures.close.slice(0, 32))}...`);
+    }
+    log(chalk.gray("─".repeat(50)));
+
+    log(chalk.green(`\n✓ The holder's proof now lives at ${plan.to.attestation}.`));
+    log(chalk.gray(`Verify with: agent-proof verify ${plan.to.attestation}`));
+
+  } catch (error) {
+    const cliError = toCliError(error);
+    fail(spinner, "Renewal failed", cliError.code === ERROR_CODES.ACCOUNT_NOT_FOUND && !cliError.details
+      ? new CliError(cliError.code, "No attestation found at this address", { address: addressStr },
+        "It may have been revoked.")
+      : cliError);
+  }
+}
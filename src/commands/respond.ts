@@ -0,0 +1,45 @@
+/**
+ * respond command - Sign a challenge with the agent's wallet key
+ *
+ * Refuses to sign challenges outside their freshness window. The signature
+ * covers a domain-separated message, so it cannot be reused as a transaction.
+ */
+
+import chalk from "chalk";
+import { startSpinner, log, emit, fail, isTextOutput } from "../lib/output";
+import { loadSigner } from "../lib/signers";
+import { readJsonFile } from "../lib/files";
+import { parseChallenge, respondToChallenge } from "../lib/challenge";
+
+export interface RespondOptions {
+  keypair?: string;
+  out?: string;
+}
+
+export async function respondCommand(
+  challengePath: string,
+  options: RespondOptions
+): Promise<void> {
+  const spinner = startSpinner("Loading keypair...");
+
+  try {
+    const signer = await loadSigner(options.keypair);
+
+    spinner.text = "Signing challenge...";
+    const challenge = parseChallenge(await readJsonFile(challengePath, `Challenge ${challengePath}`));
+    const response = await respondToChallenge(challenge, signer);
+
+    spinner.succeed(`Challenge signed by ${signer.address}`);
+
+    if (options.out) {
+      await Bun.write(options.out, JSON.stringify(response, null, 2) + "\n");
+      log(chalk.green(`\n✓ Response written to ${options.out}`));
+    } else if (isTextOutput()) {
+      console.log(JSON.stringify(response, null, 2));
+    }
+    emit(response);
+
+  } catch (error) {
+    fail(spinner, "Respond failed", error);
+  }
+}
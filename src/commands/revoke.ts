@@ -0,0 +1,146 @@
+/**
+ * revoke command - Close a tokenized attestation (authority only)
+ *
+ * Closes:
+ * - Attestation account (rent returned to authority)
+ * - Proof NFT (burned through the SAS permanent delegate)
+ * - Attestation mint
+ */
+
+import chalk from "chalk";
+import {
+  startSpinner,
+  log,
+  emit,
+  fail,
+  isTextOutput,
+  toCliError,
+  CliError,
+  ERROR_CODES,
+} from "../lib/output";
+import { createInterface } from "readline/promises";
+import { address } from "@solana/kit";
+import { fetchAttestation } from "sas-lib";
+import { SASClient } from "../lib/sas-client";
+import { loadSigner } from "../lib/signers";
+import { signOnly, signOnlyFeePayer, type SignOnlyOptions } from "../lib/offline";
+import { dryRun, type DryRunOptions } from "../lib/cost";
+
+/**
+ * Result emitted by `revoke` in json/ndjson output modes
+ */
+export interface RevokeResult {
+  attestation: string;
+  mint: string;
+  signature: string;
+  reclaimedLamports: string;
+  cuUsed: number;
+  cuLimit: number;
+}
+
+export interface RevokeOptions extends SignOnlyOptions, DryRunOptions {
+  keypair?: string;
+  yes?: boolean;
+}
+
+export async function revokeCommand(
+  addressStr: string,
+  options: RevokeOptions
+): Promise<void> {
+  const spinner = startSpinner("Loading keypair...");
+
+  try {
+    const signer = await loadSigner(options.keypair);
+
+    const client = new SASClient({ signer, feePayer: signOnlyFeePayer(options) });
+
+    const attestationAddress = address(addressStr);
+
+    spinner.text = "Fetching attestation...";
+    const attestation = await fetchAttestation(client.getRpc(), attestationAddress);
+    spinner.stop();
+
+    log(chalk.cyan("\n🗑  Revoke Agent Proof"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Attestation: ${chalk.cyan(attestationAddress)}`);
+    log(`Credential:  ${chalk.cyan(attestation.data.credential)}`);
+    log(`Schema:      ${chalk.cyan(attestation.data.schema)}`);
+    log(`Token Acct:  ${chalk.cyan(attestation.data.tokenAccount)}`);
+    log(`Authority:   ${chalk.green(client.getAuthority())}`);
+    log(chalk.gray("─".repeat(50)));
+
+    if (options.dryRun) {
+      // Nothing is sent, so no confirmation
+      spinner.start("Building transaction...");
+      const { instruction, reclaimedLamports } = await client.buildCloseTokenizedAttestation(attestationAddress);
+      await dryRun(spinner, client, {
+        description: `revoke attestation ${attestationAddress} and burn its proof NFT`,
+        instructions: [instruction],
+        newAccounts: [],
+        reclaimedLamports,
+      }, options);
+      return;
+    }
+
+    if (options.signOnly) {
+      // Nothing is sent, so no confirmation: whoever broadcasts decides
+      spinner.start("Building transaction...");
+      const { instruction } = await client.buildCloseTokenizedAttestation(attestationAddress);
+      await signOnly(spinner, client, [instruction], `revoke attestation ${attestationAddress} and burn its proof NFT`, options);
+      return;
+    }
+
+    if (!options.yes) {
+      if (!isTextOutput()) {
+        throw new CliError(ERROR_CODES.CONFIRMATION_REQUIRED, "Pass --yes to revoke in json/ndjson output mode");
+      }
+      const confirmed = await confirm("Revoke this attestation and burn its proof NFT? This cannot be undone.");
+      if (!confirmed) {
+        log(chalk.gray("\nAborted. Nothing was revoked."));
+        return;
+      }
+    }
+
+    spinner.start("Closing tokenized attestation...");
+    const { signature, mint, reclaimedLamports, cuUsed, cuLimit } =
+      await client.closeTokenizedAttestation(attestationAddress);
+
+    spinner.succeed("Attestation revoked!");
+
+    emit({
+      attestation: attestationAddress,
+      mint,
+      signature,
+      reclaimedLamports: reclaimedLamports.toString(),
+      cuUsed,
+      cuLimit,
+    } satisfies RevokeResult);
+
+    log(chalk.cyan("\n🔥 Agent Proof Revoked"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Signature:   ${chalk.cyan(signature.slice(0, 32))}...`);
+    log(`Token Mint:  ${chalk.cyan(mint)} ${chalk.gray("(burned)")}`);
+    log(`Reclaimed:   ${chalk.green((Number(reclaimedLamports) / 1e9).toFixed(6))} SOL`);
+    log(`CU Used:     ${chalk.magenta(cuUsed.toLocaleString())} / ${cuLimit.toLocaleString()} (${((cuUsed/cuLimit)*100).toFixed(1)}%)`);
+    log(chalk.gray("─".repeat(50)));
+
+    log(chalk.green("\n✓ This agent's proof is no longer valid on-chain."));
+
+  } catch (error) {
+    const cliError = toCliError(error);
+    fail(spinner, "Revoke failed", cliError.code === ERROR_CODES.ACCOUNT_NOT_FOUND
+      ? new CliError(cliError.code, "No attestation found at this address", { address: addressStr },
+        "It may already have been revoked.")
+      : cliError);
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(chalk.yellow(`\n${question} [y/N] `));
+    return ["y", "yes"].includes(answer.trim().toLowerCase());
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Schema command - manage AgentIdentity schema versions
+ *
+ * upgrade              Create (and tokenize) the newest AgentIdentity version under a credential
+ * migrate <address>    Re-issue an attestation on the newest version, carrying its data forward
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { address, type Address } from "@solana/kit";
+import { deriveSchemaMintPda } from "sas-lib";
+import { SASClient } from "../lib/sas-client.js";
+import { loadSigner } from "../lib/signers.js";
+import { migrateAgentAttestation } from "../lib/migration.js";
+import { formatExpiry } from "../lib/expiry.js";
+import { startSpinner, log, emit, fail, CliError, ERROR_CODES } from "../lib/output.js";
+import {
+  AGENT_SCHEMA_NAME,
+  AGENT_SCHEMA_LATEST_VERSION,
+  AGENT_SCHEMA_VERSIONS,
+  type AgentAttestationDataV2,
+} from "../schemas/agent.js";
+
+/**
+ * Result emitted by `schema upgrade` in json/ndjson output modes
+ */
+export interface SchemaUpgradeResult {
+  credential: string;
+  fromVersion: number;
+  toVersion: number;
+  schema: string;
+  schemaMint: string;
+  steps: { version: number; schema: string; signatures: { schema: string | null; tokenize: string | null } }[];
+}
+
+/**
+ * Result emitted by `schema migrate` in json/ndjson output modes
+ */
+export interface SchemaMigrateResult {
+  from: { attestation: string; schema: string; version: number };
+  to: { attestation: string; schema: string; version: number; mint: string };
+  holder: string;
+  data: AgentAttestationDataV2;
+  /** null if it never expires */
+  expiresAt: string | null;
+  signatures: { attest: string; close: string | null };
+}
+
+export const schemaCommand = new Command("schema")
+  .description("Upgrade and migrate AgentIdentity schema versions");
+
+schemaCommand
+  .command("upgrade")
+  .description(`Create and tokenize ${AGENT_SCHEMA_NAME} v${AGENT_SCHEMA_LATEST_VERSION} under an existing credential`)
+  .option("-n, --name <name>", "Agent name (from init)", "unnamed-agent")
+  .option("-c, --credential <name>", "Credential name (default: agent-proof-<name>)")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(async (options) => {
+    const spinner = startSpinner("Loading keypair...");
+
+    try {
+      const signer = await loadSigner(options.keypair);
+      const client = new SASClient({ signer });
+
+      const credentialName = options.credential || `agent-proof-${options.name}`;
+      const credential = await client.deriveCredentialAddress(credentialName);
+
+      spinner.text = "Finding current schema version...";
+      const latest = await client.findLatestSchema(credential, AGENT_SCHEMA_NAME, AGENT_SCHEMA_LATEST_VERSION);
+      if (!latest) {
+        throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, `No ${AGENT_SCHEMA_NAME} schema found under ${credentialName}`,
+          { credential }, `Run: agent-proof init --name "${options.name}"`);
+      }
+
+      const steps: SchemaUpgradeResult["steps"] = [];
+      let schema: Address = latest.schema;
+      let version = latest.version;
+
+      // The newest version may exist without being tokenized (interrupted upgrade)
+      if (version === AGENT_SCHEMA_LATEST_VERSION) {
+        const tokenizeSig = await tokenizeIfNeeded(client, credential, schema);
+        if (tokenizeSig) {
+          steps.push({ version, schema, signatures: { schema: null, tokenize: tokenizeSig } });
+        }
+      }
+
+      while (version < AGENT_SCHEMA_LATEST_VERSION) {
+        const next = AGENT_SCHEMA_VERSIONS[version + 1];
+
+        spinner.text = `Creating ${AGENT_SCHEMA_NAME} v${version + 1}...`;
+        const created = await client.changeSchemaVersion(credential, schema, next.layout, next.fieldNames);
+        log(chalk.green(`\n✓ Schema v${created.version}: ${created.signature.slice(0, 16)}...`) + chalk.gray(` (${created.cuUsed.toLocaleString()} CU)`));
+
+        spinner.text = `Tokenizing ${AGENT_SCHEMA_NAME} v${created.version}...`;
+        const tokenized = await client.tokenizeSchema(credential, created.schema);
+        log(chalk.green(`✓ Tokenized: ${tokenized.signature.slice(0, 16)}...`) + chalk.gray(` (${tokenized.cuUsed.toLocaleString()} CU)`));
+
+        steps.push({
+          version: created.version,
+          schema: created.schema,
+          signatures: { schema: created.signature, tokenize: tokenized.signature },
+        });
+        schema = created.schema;
+        version = created.version;
+      }
+
+      const [schemaMint] = await deriveSchemaMintPda({ schema });
+      spinner.succeed(steps.length ? "Schema upgraded!" : "Schema already up to date");
+
+      emit({
+        credential,
+        fromVersion: latest.version,
+        toVersion: version,
+        schema,
+        schemaMint,
+        steps,
+      } satisfies SchemaUpgradeResult);
+
+      log(chalk.cyan("\n🧬 Agent Schema"));
+      log(chalk.gray("─".repeat(50)));
+      log(`Credential:  ${chalk.cyan(credential)}`);
+      log(`Version:     ${chalk.white(latest.version === version ? `v${version}` : `v${latest.version} → v${version}`)}`);
+      log(`Schema:      ${chalk.cyan(schema)}`);
+      log(`Schema Mint: ${chalk.cyan(schemaMint)}`);
+      log(`Fields:      ${chalk.gray(AGENT_SCHEMA_VERSIONS[version].fieldNames.join(", "))}`);
+      log(chalk.gray("─".repeat(50)));
+
+      log(chalk.green(`\n✓ New attestations will use ${AGENT_SCHEMA_NAME} v${version}.`));
+      log(chalk.gray("Existing proofs stay valid; re-issue them with: agent-proof schema migrate <attestation>"));
+    } catch (error) {
+      fail(spinner, "Schema upgrade failed", error);
+    }
+  });
+
+schemaCommand
+  .command("migrate")
+  .description(`Re-issue an attestation on the newest ${AGENT_SCHEMA_NAME} version`)
+  .argument("<attestation>", "Attestation address to migrate")
+  .option("--model-version <version>", "Model version for the new attestation")
+  .option("--endpoint <url>", "Public endpoint URL for the new attestation")
+  .option("--framework-version <version>", "Framework version for the new attestation")
+  .option("--close", "Close the old attestation and burn its proof NFT")
+  .option("-k, --keypair <signer>", "Signer: keypair path, env:<VAR> or exec:<command> (default: profile keypair)")
+  .option("--devnet", "Shortcut for --profile devnet")
+  .action(async (attestationStr: string, options) => {
+    const spinner = startSpinner("Loading keypair...");
+
+    try {
+      const signer = await loadSigner(options.keypair);
+      const client = new SASClient({ signer });
+
+      spinner.text = "Migrating attestation...";
+      const result = await migrateAgentAttestation(client, address(attestationStr), {
+        model_version: options.modelVersion,
+        endpoint_url: options.endpoint,
+        framework_version: options.frameworkVersion,
+        close: options.close,
+      });
+
+      spinner.succeed("Attestation migrated!");
+
+      emit({
+        from: result.from,
+        to: result.to,
+        holder: result.holder,
+        data: result.data,
+        expiresAt: formatExpiry(result.expiry),
+        signatures: result.signatures,
+      } satisfies SchemaMigrateResult);
+
+      log(chalk.cyan("\n🔁 Agent Proof Migrated"));
+      log(chalk.gray("─".repeat(50)));
+      log(`Agent:       ${chalk.white(result.data.agent_name)}`);
+      log(`Holder:      ${chalk.green(result.holder)}`);
+      log(`Old:         ${chalk.cyan(result.from.attestation)} ${chalk.gray(`(v${result.from.version})`)}`);
+      log(`New:         ${chalk.cyan(result.to.attestation)} ${chalk.gray(`(v${result.to.version})`)}`);
+      log(`Token Mint:  ${chalk.cyan(result.to.mint)}`);
+      log(`Expires:     ${chalk.white(formatExpiry(result.expiry) ?? "never")}`);
+      log(chalk.gray("─".repeat(50)));
+
+      log(result.signatures.close
+        ? chalk.green("\n✓ Old proof closed; the holder now has only the new proof.")
+        : chalk.gray(`\nOld proof is still valid. Close it with: agent-proof revoke ${result.from.attestation}`));
+    } catch (error) {
+      fail(spinner, "Migration failed", error);
+    }
+  });
+
+/**
+ * Tokenize a schema unless its mint already exists
+ */
+async function tokenizeIfNeeded(client: SASClient, credential: Address, schema: Address): Promise<string | null> {
+  const [schemaMint] = await deriveSchemaMintPda({ schema });
+  const { value } = await client.getRpc().getAccountInfo(schemaMint, { encoding: "base64" }).send();
+  if (value) return null;
+  const { signature } = await client.tokenizeSchema(credential, schema);
+  return signature;
+}
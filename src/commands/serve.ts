@@ -0,0 +1,71 @@
+/**
+ * serve command - HTTP verification service
+ *
+ * Serves the same checks as `verify` as JSON for services that cannot shell
+ * out to the CLI. See src/lib/server.ts for the routes.
+ */
+
+import chalk from "chalk";
+import { log, emit, fail, CliError, ERROR_CODES } from "../lib/output";
+import { getActiveNetwork } from "../lib/profiles";
+import { startVerificationServer, DEFAULT_CACHE_SLOTS } from "../lib/server";
+
+/**
+ * Result emitted once the server is listening in json/ndjson output modes
+ */
+export interface ServeResult {
+  url: string;
+  profile: string;
+  cacheSlots: number;
+}
+
+export interface ServeOptions {
+  port?: string;
+  host?: string;
+  cacheSlots?: string;
+}
+
+export async function serveCommand(options: ServeOptions): Promise<void> {
+  try {
+    const port = Number(options.port ?? 8080);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid port "${options.port}"`);
+    }
+    const cacheSlots = Number(options.cacheSlots ?? DEFAULT_CACHE_SLOTS);
+    if (!Number.isInteger(cacheSlots) || cacheSlots < 0) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid --cache-slots "${options.cacheSlots}"`);
+    }
+
+    const network = getActiveNetwork();
+    const server = startVerificationServer({
+      rpcUrl: network.rpcUrl,
+      port,
+      hostname: options.host ?? "127.0.0.1",
+      cacheSlots,
+      onRequest: (request, status, durationMs) => {
+        const color = status >= 500 ? chalk.red : status >= 400 ? chalk.yellow : chalk.green;
+        log(chalk.gray(new Date().toISOString()), request.method, new URL(request.url).pathname,
+          color(status), chalk.gray(`${durationMs.toFixed(0)}ms`));
+      },
+    });
+
+    const url = server.url.toString().replace(/\/$/, "");
+    emit({ url, profile: network.profile, cacheSlots } satisfies ServeResult);
+
+    log(chalk.green(`✓ Listening on ${url}`) + chalk.gray(` (${network.profile}, cache ${cacheSlots} slots)`));
+    log(chalk.gray(`  GET ${url}/verify/<attestation>`));
+    log(chalk.gray(`  GET ${url}/agents/<wallet>`));
+    log(chalk.gray(`  GET ${url}/schemas/<address>`));
+    log(chalk.gray(`  GET ${url}/health, ${url}/metrics`));
+
+    const shutdown = () => {
+      log(chalk.gray("\nShutting down..."));
+      server.stop();
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+
+  } catch (error) {
+    fail(null, "Server failed to start", error);
+  }
+}
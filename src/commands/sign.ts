@@ -0,0 +1,84 @@
+/**
+ * sign command - Add a signature to a transaction file from --sign-only
+ *
+ * Needs no network, so the key can stay on an air-gapped machine. Shows what
+ * is being signed first; the file is updated in place unless --out is given.
+ */
+
+import chalk from "chalk";
+import { startSpinner, log, emit, fail } from "../lib/output";
+import { loadSigner } from "../lib/signers";
+import {
+  addSignature,
+  readTransactionFile,
+  transactionPrograms,
+  transactionSigners,
+  writeTransactionFile,
+  type TransactionSignerStatus,
+} from "../lib/offline";
+
+/**
+ * Result emitted by `sign` in json/ndjson output modes
+ */
+export interface SignResult {
+  file: string;
+  description: string;
+  signer: string;
+  signers: TransactionSignerStatus[];
+  /** Every required signer has signed; ready for `broadcast` */
+  complete: boolean;
+}
+
+export interface SignOptions {
+  keypair?: string;
+  out?: string;
+}
+
+export async function signCommand(
+  path: string,
+  options: SignOptions
+): Promise<void> {
+  const spinner = startSpinner("Reading transaction...");
+
+  try {
+    const { file, transaction } = await readTransactionFile(path);
+    spinner.stop();
+
+    log(chalk.cyan("\n✍️  Sign Transaction"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Action:      ${chalk.white(file.description)}`);
+    log(`Network:     ${chalk.yellow(file.network)}`);
+    log(`Fee payer:   ${chalk.cyan(transactionSigners(transaction)[0].address)}`);
+    log(`Programs:    ${transactionPrograms(transaction).join("\n             ")}`);
+    log(`Lifetime:    ${"nonce" in file.lifetime ? `durable nonce ${file.lifetime.nonceAccount}` : "recent blockhash"}`);
+    log(chalk.gray("─".repeat(50)));
+
+    spinner.start("Signing...");
+    const signer = await loadSigner(options.keypair);
+    const signed = await addSignature(transaction, signer);
+    const out = options.out ?? path;
+    await writeTransactionFile(out, file, signed);
+
+    const signers = transactionSigners(signed);
+    const complete = signers.every(s => s.signed);
+    spinner.succeed(`Signed by ${signer.address}`);
+
+    emit({
+      file: out,
+      description: file.description,
+      signer: signer.address,
+      signers,
+      complete,
+    } satisfies SignResult);
+
+    for (const status of signers) {
+      log(`  ${status.signed ? chalk.green("✓") : chalk.yellow("…")} ${status.address}${status.signed ? "" : chalk.gray(" (needs to sign)")}`);
+    }
+    log(complete
+      ? chalk.green(`\n✓ Fully signed. Submit with: agent-proof broadcast ${out}`)
+      : chalk.gray(`\nWritten to ${out}; pass it to the remaining signers.`));
+
+  } catch (error) {
+    fail(spinner, "Signing failed", error);
+  }
+}
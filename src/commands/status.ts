@@ -0,0 +1,202 @@
+/**
+ * status command - Report on-chain state for the current agent
+ *
+ * Checks:
+ * - Credential and AgentIdentity schema accounts exist
+ * - Schema is tokenized and not paused
+ * - Wallet balance
+ * - Live and expired attestations held by the wallet
+ *
+ * Exit codes are stable so boot scripts can decide what to run next.
+ */
+
+import chalk from "chalk";
+import { startSpinner, log, emit, fail, CliError, ERROR_CODES } from "../lib/output";
+import { fetchMaybeSchema, deriveSchemaMintPda } from "sas-lib";
+import type { Address } from "@solana/kit";
+import { SASClient } from "../lib/sas-client";
+import { loadSigner } from "../lib/signers";
+import { findAttestationsByOwner } from "../lib/attestations";
+import { AttestationIndex } from "../lib/local-index";
+import { AGENT_SCHEMA_NAME, AGENT_SCHEMA_VERSION, AGENT_SCHEMA_LATEST_VERSION } from "../schemas/agent";
+
+/**
+ * Process exit codes for `agent-proof status`
+ */
+export const STATUS_EXIT_CODES = {
+  READY: 0,            // Initialized and holding at least one live attestation
+  ERROR: 1,            // Status could not be determined
+  NOT_INITIALIZED: 2,  // Credential, schema or schema mint missing (run init)
+  NO_ATTESTATION: 3,   // Initialized but no live attestation held (run attest)
+  SCHEMA_PAUSED: 4,    // Schema has been paused by the issuer
+} as const;
+
+export type StatusReadiness = "ready" | "not_initialized" | "no_attestation" | "schema_paused";
+
+/**
+ * Result emitted by `status` in json/ndjson output modes
+ */
+export interface StatusResult {
+  wallet: string;
+  /** null with --offline */
+  balanceLamports: string | null;
+  credential: { name: string; address: string; exists: boolean };
+  schema: { name: string; version: number; address: string; exists: boolean; tokenized: boolean; paused: boolean };
+  attestations: { live: number; expired: number };
+  readiness: StatusReadiness;
+  exitCode: number;
+}
+
+export interface StatusOptions {
+  name: string;
+  credential?: string;
+  keypair?: string;
+  offline?: boolean;
+}
+
+export async function statusCommand(options: StatusOptions): Promise<void> {
+  const spinner = startSpinner("Checking agent status...");
+
+  try {
+    const signer = await loadSigner(options.keypair);
+
+    const client = new SASClient({ signer });
+    const rpc = client.getRpc();
+
+    // Derive addresses the same way init does
+    const credentialName = options.credential || `agent-proof-${options.name}`;
+    const credential = await client.deriveCredentialAddress(credentialName);
+    const state = options.offline ? readIndexedState(credential, client.getAuthority()) : null;
+
+    // Newest AgentIdentity version under the credential (v1 if none exist yet)
+    const latest = state
+      ? state.latest
+      : await client.findLatestSchema(credential, AGENT_SCHEMA_NAME, AGENT_SCHEMA_LATEST_VERSION);
+    const schemaVersion = latest?.version ?? AGENT_SCHEMA_VERSION;
+    const schema = latest?.schema ?? await client.deriveSchemaAddress(credential, AGENT_SCHEMA_NAME, schemaVersion);
+
+    let hasCredential: boolean, hasSchema: boolean, isTokenized: boolean, isPaused: boolean;
+    let balance: bigint | null = null;
+    let expiries: bigint[];
+    if (state) {
+      ({ hasCredential, hasSchema, isTokenized, isPaused, expiries } = state);
+    } else {
+      const [schemaMint] = await deriveSchemaMintPda({ schema });
+
+      spinner.text = "Fetching accounts...";
+      const { value: [credentialAccount, schemaMintAccount] } = await rpc
+        .getMultipleAccounts([credential, schemaMint], { encoding: "base64" })
+        .send();
+      const schemaAccount = await fetchMaybeSchema(rpc, schema);
+
+      hasCredential = credentialAccount !== null;
+      hasSchema = schemaAccount.exists;
+      isTokenized = schemaMintAccount !== null;
+      isPaused = schemaAccount.exists && schemaAccount.data.isPaused;
+
+      spinner.text = "Checking balance...";
+      balance = await client.getBalance();
+
+      spinner.text = "Counting attestations...";
+      expiries = (await findAttestationsByOwner(rpc, client.getAuthority())).map(({ attestation }) => attestation.expiry);
+    }
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const expired = expiries.filter(expiry => expiry > 0n && now >= expiry).length;
+    const live = expiries.length - expired;
+
+    spinner.succeed("Status check complete");
+
+    const readiness: StatusReadiness =
+      !hasCredential || !hasSchema || !isTokenized ? "not_initialized"
+      : isPaused ? "schema_paused"
+      : live === 0 ? "no_attestation"
+      : "ready";
+    const exitCode = {
+      ready: STATUS_EXIT_CODES.READY,
+      not_initialized: STATUS_EXIT_CODES.NOT_INITIALIZED,
+      no_attestation: STATUS_EXIT_CODES.NO_ATTESTATION,
+      schema_paused: STATUS_EXIT_CODES.SCHEMA_PAUSED,
+    }[readiness];
+
+    emit({
+      wallet: client.getAuthority(),
+      balanceLamports: balance?.toString() ?? null,
+      credential: { name: credentialName, address: credential, exists: hasCredential },
+      schema: {
+        name: AGENT_SCHEMA_NAME,
+        version: schemaVersion,
+        address: schema,
+        exists: hasSchema,
+        tokenized: isTokenized,
+        paused: isPaused,
+      },
+      attestations: { live, expired },
+      readiness,
+      exitCode,
+    } satisfies StatusResult);
+
+    const yesNo = (ok: boolean) => ok ? chalk.green("✓ exists") : chalk.yellow("✗ missing");
+
+    log(chalk.cyan("\n📊 Agent Status"));
+    log(chalk.gray("─".repeat(50)));
+    log(`Wallet:      ${chalk.green(client.getAuthority())}`);
+    log(`Balance:     ${balance === null ? chalk.gray("unknown (offline)") : `${chalk.white((Number(balance) / 1e9).toFixed(4))} SOL`}`);
+    log(chalk.gray("─".repeat(50)));
+    log(`Credential:  ${yesNo(hasCredential)} ${chalk.gray(credentialName)}`);
+    log(`             ${chalk.cyan(credential)}`);
+    log(`Schema:      ${yesNo(hasSchema)} ${chalk.gray(`${AGENT_SCHEMA_NAME} v${schemaVersion}`)}`);
+    log(`             ${chalk.cyan(schema)}`);
+    log(`Tokenized:   ${isTokenized ? chalk.green("✓ yes") : chalk.yellow("✗ no")}`);
+    if (hasSchema) {
+      log(`Paused:      ${isPaused ? chalk.red("⚠ yes") : chalk.green("no")}`);
+    }
+    log(chalk.gray("─".repeat(50)));
+    log(`Attestations: ${chalk.green(`${live} live`)}, ${expired ? chalk.yellow(`${expired} expired`) : chalk.gray("0 expired")}`);
+    log(chalk.gray("─".repeat(50)));
+
+    if (readiness === "not_initialized") {
+      log("\nRun " + chalk.green(`agent-proof init --name "${options.name}"`) + " to get started.");
+    } else if (readiness === "schema_paused") {
+      log(chalk.yellow("\n⚠ Schema is paused; new attestations cannot be issued."));
+    } else if (readiness === "no_attestation") {
+      log("\nRun " + chalk.green(`agent-proof attest --name "${options.name}"`) + " to mint a proof.");
+    } else {
+      log(chalk.green("\n✓ Agent identity is ready."));
+    }
+    process.exit(exitCode);
+
+  } catch (error) {
+    fail(spinner, "Failed to check status", error, STATUS_EXIT_CODES.ERROR);
+  }
+}
+
+/**
+ * Credential, schema and holdings as of the last `index sync` (for --offline)
+ */
+function readIndexedState(credential: Address, wallet: Address): {
+  latest: { schema: Address; version: number } | null;
+  hasCredential: boolean;
+  hasSchema: boolean;
+  isTokenized: boolean;
+  isPaused: boolean;
+  expiries: bigint[];
+} {
+  const index = AttestationIndex.open();
+  try {
+    if (!index.syncState(credential)) {
+      throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, `Credential ${credential} is not in the local index`, undefined,
+        `Run: agent-proof index sync --credential ${credential}`);
+    }
+    const latest = index.latestSchema(credential, AGENT_SCHEMA_NAME);
+    return {
+      latest: latest && { schema: latest.address, version: latest.version },
+      hasCredential: index.hasCredential(credential),
+      hasSchema: latest !== null,
+      isTokenized: latest?.tokenized ?? false,
+      isPaused: latest?.schema.isPaused ?? false,
+      expiries: index.attestations({ holder: wallet }).map(a => a.record.expiry),
+    };
+  } finally {
+    index.close();
+  }
+}
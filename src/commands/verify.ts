@@ -1,137 +1,296 @@
 /**
  * verify command - Verify an agent's attestation proof
  * 
- * Checks:
- * - Attestation exists on-chain
- * - Token is owned by the subject
- * - Data integrity
+ * Checks (named in the report; a required check that fails or can't run exits 1):
+ * - Attestation exists on-chain, decodes, and has not expired
+ * - Its schema is not paused and its credential exists
+ * - The proof NFT mint exists, is NonTransferable, is a member of the schema
+ *   mint's group, and its metadata points back to the attestation and schema
+ * - The NFT sits in a wallet, and that wallet is the attested owner_pubkey
+ * - Whether the attestation's signer is still authorized on its credential
+ * - Optionally, that a local capabilities manifest matches the on-chain hash
+ * - Optionally, that a challenge response to the challenge you issued was
+ *   signed by the attestation's owner_pubkey or by the wallet holding its
+ *   proof NFT (a response without --challenge is unpinned, so invalid)
+ *
+ * With --bundle the same checks run offline against an `export` bundle, and
+ * with --offline against the local index (see `index sync`).
  */
 
 import chalk from "chalk";
-import ora from "ora";
+import { startSpinner, log, emit, fail, toCliError, CliError, ERROR_CODES } from "../lib/output";
 import { address, createSolanaRpc } from "@solana/kit";
+import { getActiveNetwork } from "../lib/profiles";
+import { hashCapabilitiesAs, loadCapabilitiesManifest } from "../lib/capabilities";
+import { checkChallengeResponse, parseChallenge, parseChallengeResponse } from "../lib/challenge";
+import { readJsonFile } from "../lib/files";
 import {
-  fetchAttestation,
-  fetchSchema,
-  deserializeAttestationData,
-  deriveAttestationMintPda,
-} from "sas-lib";
-import { fetchMint } from "@solana-program/token-2022";
+  failedChecks,
+  fetchAttestationSnapshot,
+  verifySnapshot,
+  type CheckStatus,
+  type VerificationReport,
+} from "../lib/verification";
+import { loadProofBundle, readProofBundle, type AttestationSnapshot } from "../lib/bundle";
+import { AttestationIndex } from "../lib/local-index";
+import type { FieldColor } from "../schemas/registry";
 
-const DEVNET_RPC = "https://api.devnet.solana.com";
+/**
+ * Result emitted by `verify` in json/ndjson output modes
+ */
+export interface VerifyResult extends VerificationReport {
+  /** Present when verified offline from a bundle or the local index (no blockhash, exportedAt is the sync time) */
+  snapshot: { slot: string; blockhash: string | null; exportedAt: string; network: string } | null;
+  /** Present when --capabilities is passed */
+  capabilities: { path: string; hash: string; onChainHash: string | null; matches: boolean } | null;
+  /** Present when --response is passed */
+  response: {
+    signer: string;
+    /** Which key the signer controls: the data's owner_pubkey, or the NFT holder's wallet */
+    controls: "owner" | "holder" | null;
+    signatureValid: boolean;
+    fresh: boolean;
+    /** null when no --challenge was given (the response is then unpinned and invalid) */
+    challengeMatches: boolean | null;
+    valid: boolean;
+    errors: string[];
+  } | null;
+}
 
 export interface VerifyOptions {
-  devnet?: boolean;
+  capabilities?: string;
+  response?: string;
+  challenge?: string;
+  bundle?: string;
+  offline?: boolean;
 }
 
+const FIELD_COLORS: Record<FieldColor, (text: string) => string> = {
+  white: chalk.white,
+  green: chalk.green,
+  yellow: chalk.yellow,
+  cyan: chalk.cyan,
+  gray: chalk.gray,
+};
+
+const CHECK_ICONS: Record<CheckStatus, string> = {
+  pass: chalk.green("✓"),
+  fail: chalk.red("✗"),
+  warn: chalk.yellow("⚠"),
+  unchecked: chalk.yellow("?"),
+};
+
 export async function verifyCommand(
-  addressStr: string,
+  addressStr: string | undefined,
   options: VerifyOptions
 ): Promise<void> {
-  const spinner = ora("Verifying agent proof...").start();
+  const spinner = startSpinner("Verifying agent proof...");
   
   try {
-    const rpc = createSolanaRpc(DEVNET_RPC);
-    const attestationAddress = address(addressStr);
-    
-    spinner.text = "Fetching attestation...";
-    
-    // Fetch the attestation account
-    const attestation = await fetchAttestation(rpc, attestationAddress);
-    
-    spinner.text = "Fetching schema...";
+    if (!addressStr && !options.bundle) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Pass an attestation address or --bundle <file>");
+    }
+
+    // Load the local manifest first so a malformed file fails before any RPC calls
+    const manifest = options.capabilities
+      ? await loadCapabilitiesManifest(options.capabilities)
+      : null;
+    const challengeResponse = options.response
+      ? parseChallengeResponse(await readJsonFile(options.response, `Response ${options.response}`))
+      : null;
+    const issuedChallenge = options.challenge
+      ? parseChallenge(await readJsonFile(options.challenge, `Challenge ${options.challenge}`))
+      : undefined;
     
-    // Fetch the schema to deserialize data
-    const schema = await fetchSchema(rpc, attestation.data.schema);
+    // Attestation state: decoded offline from a bundle or the index, or fetched live
+    let snapshot: VerifyResult["snapshot"] = null;
+    let source: AttestationSnapshot;
+    if (options.bundle && options.offline) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "--bundle and --offline can't be combined");
+    }
+    if (options.offline) {
+      spinner.text = "Reading local index...";
+      const index = AttestationIndex.open();
+      try {
+        const indexed = index.snapshot(address(addressStr!));
+        source = indexed.snapshot;
+        snapshot = { slot: indexed.slot.toString(), blockhash: null, exportedAt: indexed.syncedAt, network: getActiveNetwork().profile };
+      } finally {
+        index.close();
+      }
+    } else if (options.bundle) {
+      spinner.text = "Reading bundle...";
+      const bundle = await loadProofBundle(options.bundle);
+      source = await readProofBundle(bundle);
+      if (addressStr && address(addressStr) !== source.address) {
+        throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Bundle is for a different attestation",
+          { address: addressStr, bundle: source.address });
+      }
+      snapshot = { slot: bundle.slot, blockhash: bundle.blockhash, exportedAt: bundle.exportedAt, network: bundle.network.profile };
+    } else {
+      spinner.text = "Fetching attestation...";
+      const rpc = createSolanaRpc(getActiveNetwork().rpcUrl);
+      source = await fetchAttestationSnapshot(rpc, address(addressStr!), { withToken: true });
+    }
+    const { address: attestationAddress, schema, decoder, data, tokenMint, holder } = source;
+    const verification = await verifySnapshot(source);
+    const { valid, checks } = verification;
+    const failed = failedChecks(checks);
+    // Nothing failed outright, but some required checks had no accounts to read
+    const unverified = !valid && failed.every(c => c.status === "unchecked");
     
     // Check if schema is paused
-    if (schema.data.isPaused) {
+    if (schema.isPaused) {
       spinner.warn("Schema is paused");
-      console.log(chalk.yellow("\n⚠ This agent's schema has been paused by the issuer."));
+      log(chalk.yellow("\n⚠ This agent's schema has been paused by the issuer."));
     }
     
-    spinner.text = "Deserializing attestation data...";
-    
-    // Deserialize the attestation data
-    const data = deserializeAttestationData<{
-      agent_name: string;
-      agent_type: string;
-      platform: string;
-      owner_pubkey: string;
-      capabilities_hash: string;
-      created_at: bigint;
-    }>(schema.data, attestation.data.data as Uint8Array);
-    
-    // Check expiry
-    const currentTimestamp = BigInt(Math.floor(Date.now() / 1000));
-    const isExpired = currentTimestamp >= attestation.data.expiry;
-    
-    // Try to fetch the token mint
-    spinner.text = "Checking token...";
-    let hasToken = false;
-    let tokenMint = "";
-    try {
-      const [mint] = await deriveAttestationMintPda({ attestation: attestationAddress });
-      const mintAccount = await fetchMint(rpc, mint);
-      if (mintAccount) {
-        hasToken = true;
-        tokenMint = mint;
+    const onChainCapabilitiesHash = typeof data.capabilities_hash === "string" ? data.capabilities_hash : null;
+    // Hash in whichever format was attested (flat hash or Merkle root)
+    const localCapabilitiesHash = manifest ? hashCapabilitiesAs(manifest, onChainCapabilitiesHash) : null;
+    const capabilities = options.capabilities && localCapabilitiesHash
+      ? {
+          path: options.capabilities,
+          hash: localCapabilitiesHash,
+          onChainHash: onChainCapabilitiesHash,
+          matches: localCapabilitiesHash === onChainCapabilitiesHash,
+        }
+      : null;
+
+    // Challenge response: signature, freshness, and control of the owner or holder key
+    let response: VerifyResult["response"] = null;
+    if (challengeResponse) {
+      spinner.text = "Checking challenge response...";
+      const check = await checkChallengeResponse(challengeResponse, issuedChallenge);
+      const errors = [...check.errors];
+      if (challengeResponse.challenge.attestation && challengeResponse.challenge.attestation !== attestationAddress) {
+        errors.push("challenge was issued for a different attestation");
       }
-    } catch {
-      // Token might not exist or be burned
+      const controls = check.signer === data.owner_pubkey ? "owner"
+        : check.signer === holder ? "holder"
+        : null;
+      if (!controls) errors.push("signer is neither the attested owner nor the proof NFT holder");
+
+      response = {
+        signer: check.signer,
+        controls,
+        signatureValid: check.signatureValid,
+        fresh: check.fresh,
+        challengeMatches: check.challengeMatches,
+        valid: errors.length === 0,
+        errors,
+      };
     }
 
     spinner.succeed("Verification complete!");
 
+    emit({
+      ...verification,
+      snapshot,
+      capabilities,
+      response,
+    } satisfies VerifyResult);
+
     // Display results
-    console.log(chalk.cyan("\n🔍 Agent Proof Verified"));
-    console.log(chalk.gray("─".repeat(50)));
+    log(chalk.cyan("\n🔍 Agent Proof Verified"));
+    log(chalk.gray("─".repeat(50)));
     
     // Status
-    const statusIcon = isExpired ? "⚠" : "✓";
-    const statusColor = isExpired ? chalk.yellow : chalk.green;
-    console.log(`Status:      ${statusColor(isExpired ? `${statusIcon} Expired` : `${statusIcon} Valid`)}`);
+    log(`Status:      ${valid ? chalk.green("✓ Valid")
+      : unverified ? chalk.yellow("? Unverified")
+      : chalk.red(verification.expired ? "✗ Expired" : "✗ Invalid")}`);
     
     // Agent info
-    console.log(chalk.gray("─".repeat(50)));
-    console.log(`Agent Name:  ${chalk.white(data.agent_name)}`);
-    console.log(`Agent Type:  ${chalk.white(data.agent_type)}`);
-    console.log(`Platform:    ${chalk.white(data.platform)}`);
-    console.log(`Owner:       ${chalk.green(data.owner_pubkey.slice(0, 24))}...`);
-    console.log(`Hash:        ${chalk.yellow(data.capabilities_hash.slice(0, 24))}...`);
+    log(chalk.gray("─".repeat(50)));
+    log(`Schema Type: ${chalk.gray(decoder.id)}`);
+    for (const field of decoder.render(data)) {
+      const label = `${field.label}:`.padEnd(12);
+      log(`${label} ${FIELD_COLORS[field.color ?? "white"](field.value)}`);
+    }
     
     // Timestamps
-    console.log(chalk.gray("─".repeat(50)));
-    const createdAt = new Date(Number(data.created_at) * 1000);
-    const expiresAt = new Date(Number(attestation.data.expiry) * 1000);
-    console.log(`Created:     ${chalk.gray(createdAt.toISOString())}`);
-    console.log(`Expires:     ${chalk.gray(expiresAt.toISOString())}`);
+    log(chalk.gray("─".repeat(50)));
+    if (verification.createdAt) {
+      log(`Created:     ${chalk.gray(verification.createdAt)}`);
+    }
+    log(`Expires:     ${chalk.gray(verification.expiresAt ?? "never")}`);
+
+    // Named checks
+    log(chalk.gray("─".repeat(50)));
+    const nameWidth = Math.max(...checks.map(c => c.name.length));
+    for (const check of checks) {
+      const message = check.status === "pass" ? chalk.gray(check.message) : check.message;
+      log(`${CHECK_ICONS[check.status]} ${check.name.padEnd(nameWidth)}  ${message}${check.required ? "" : chalk.gray(" (advisory)")}`);
+    }
+
+    // Capabilities manifest
+    if (capabilities) {
+      log(chalk.gray("─".repeat(50)));
+      log(`Manifest:    ${chalk.gray(capabilities.path)}`);
+      log(`Local Hash:  ${chalk.yellow(capabilities.hash.slice(0, 24))}...`);
+      log(`On-chain:    ${capabilities.onChainHash ? chalk.yellow(`${capabilities.onChainHash.slice(0, 24)}...`) : chalk.gray("(schema has no capabilities hash)")}`);
+      log(`Match:       ${capabilities.matches ? chalk.green("✓ yes") : chalk.red("✗ no")}`);
+    }
+
+    // Challenge response
+    if (response) {
+      log(chalk.gray("─".repeat(50)));
+      log(`Responder:   ${chalk.green(response.signer)}`);
+      log(`Controls:    ${response.controls ? chalk.green(`✓ ${response.controls} key`) : chalk.red("✗ neither owner nor holder")}`);
+      log(`Signature:   ${response.signatureValid ? chalk.green("✓ valid") : chalk.red("✗ invalid")}`);
+      log(`Fresh:       ${response.fresh ? chalk.green("✓ yes") : chalk.red("✗ expired")}`);
+      log(`Challenge:   ${response.challengeMatches === null ? chalk.red("✗ unpinned (pass --challenge)")
+        : response.challengeMatches ? chalk.green("✓ matches") : chalk.red("✗ different challenge")}`);
+    }
     
     // On-chain addresses
-    console.log(chalk.gray("─".repeat(50)));
-    console.log(`Attestation: ${chalk.cyan(attestationAddress)}`);
-    console.log(`Schema:      ${chalk.cyan(attestation.data.schema)}`);
-    console.log(`Credential:  ${chalk.cyan(attestation.data.credential)}`);
-    if (hasToken) {
-      console.log(`Token Mint:  ${chalk.cyan(tokenMint)}`);
+    log(chalk.gray("─".repeat(50)));
+    log(`Attestation: ${chalk.cyan(attestationAddress)}`);
+    if (snapshot) {
+      log(`Snapshot:    ${chalk.gray(`slot ${snapshot.slot} on ${snapshot.network}, ${snapshot.blockhash ? "exported" : "indexed"} ${snapshot.exportedAt} (offline)`)}`);
     }
-    console.log(chalk.gray("─".repeat(50)));
+    log(`Schema:      ${chalk.cyan(verification.schema)}`);
+    log(`Credential:  ${chalk.cyan(verification.credential)}`);
+    log(`Signer:      ${chalk.cyan(verification.signer)} ${verification.signerAuthorized === null ? ""
+      : verification.signerAuthorized ? chalk.green("(authorized)") : chalk.yellow("(no longer authorized)")}`);
+    if (tokenMint) {
+      log(`Token Mint:  ${chalk.cyan(tokenMint)}`);
+    }
+    log(chalk.gray("─".repeat(50)));
 
-    if (!isExpired) {
-      console.log(chalk.green("\n✓ This agent has a valid on-chain identity proof."));
+    if (valid) {
+      log(chalk.green("\n✓ This agent has a valid on-chain identity proof."));
+    } else if (unverified) {
+      log(chalk.yellow(`\n? This agent's proof could not be fully verified, not checked: ${failed.map(c => c.name).join(", ")}`));
+      process.exitCode = 1;
     } else {
-      console.log(chalk.yellow("\n⚠ This agent's proof has expired."));
+      log(chalk.red(`\n✗ This agent's proof failed: ${failed.filter(c => c.status === "fail").map(c => c.name).join(", ")}`));
+      process.exitCode = 1;
     }
 
-  } catch (error: any) {
-    spinner.fail("Verification failed");
-    
-    if (error.message?.includes("could not find account")) {
-      console.log(chalk.red("\n✗ No attestation found at this address"));
-      console.log(chalk.gray("The address may not have an agent proof, or it may have been revoked."));
-    } else {
-      console.error(chalk.red("\nError:"), error.message || error);
+    if (verification.signerAuthorized === false) {
+      log(chalk.yellow("⚠ The issuing signer has since been removed from the credential."));
+    }
+
+    if (capabilities && !capabilities.matches) {
+      log(chalk.red("✗ The local capabilities manifest does not match what this agent attested."));
+      process.exitCode = 1;
     }
-    process.exit(1);
+
+    if (response) {
+      if (response.valid) {
+        log(chalk.green("✓ The presenter controls this agent's key."));
+      } else {
+        log(chalk.red(`✗ Challenge response rejected: ${response.errors.join("; ")}`));
+        process.exitCode = 1;
+      }
+    }
+
+  } catch (error) {
+    const cliError = toCliError(error);
+    fail(spinner, "Verification failed", cliError.code === ERROR_CODES.ACCOUNT_NOT_FOUND
+      ? new CliError(cliError.code, "No attestation found at this address", { address: addressStr },
+        "The address may not have an agent proof, or it may have been revoked.")
+      : cliError);
   }
 }
@@ -0,0 +1,140 @@
+/**
+ * watch command - stream attestation lifecycle events
+ *
+ * Emits one event per line as attestations are created, revoked or about to
+ * expire (see src/lib/watch.ts), optionally POSTing each to a webhook, so
+ * services holding cached agent identities can drop them on revocation
+ * instead of polling `verify`.
+ */
+
+import chalk from "chalk";
+import { address, type Address } from "@solana/kit";
+import { getClient } from "../lib/client";
+import { log, emit, fail, getOutputMode, CliError, ERROR_CODES } from "../lib/output";
+import {
+  DEFAULT_EXPIRING_WITHIN_DAYS,
+  startAttestationWatcher,
+  type WatchEvent,
+  type WatchEventType,
+} from "../lib/watch";
+import { createWebhookSender, DEFAULT_WEBHOOK_RETRIES } from "../lib/webhook";
+
+/**
+ * Event emitted by `watch` in ndjson output mode (one line per event)
+ */
+export type WatchResult = WatchEvent;
+
+export interface WatchOptions {
+  credential?: string;
+  schema?: string;
+  wallet?: string;
+  expiringWithin?: string;
+  webhook?: string;
+  webhookRetries?: string;
+}
+
+const EVENT_LABELS: Record<WatchEventType, string> = {
+  created: chalk.green("+ created "),
+  revoked: chalk.red("✗ revoked "),
+  expiring: chalk.yellow("⏳ expiring"),
+};
+
+export async function watchCommand(options: WatchOptions): Promise<void> {
+  try {
+    if (getOutputMode() === "json") {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "watch streams events: use --output ndjson (or text)");
+    }
+    if (!options.credential && !options.schema && !options.wallet) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Pass --credential <address>, --schema <address> or --wallet <address>");
+    }
+    const expiringWithinDays = Number(options.expiringWithin ?? DEFAULT_EXPIRING_WITHIN_DAYS);
+    if (!Number.isFinite(expiringWithinDays) || expiringWithinDays < 0) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid --expiring-within "${options.expiringWithin}"`);
+    }
+    const retries = Number(options.webhookRetries ?? DEFAULT_WEBHOOK_RETRIES);
+    if (!Number.isInteger(retries) || retries < 0) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid --webhook-retries "${options.webhookRetries}"`);
+    }
+    if (options.webhook && !/^https?:\/\//.test(options.webhook)) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid --webhook "${options.webhook}": expected an http(s) URL`);
+    }
+
+    const filter = {
+      credential: parseAddress(options.credential, "--credential"),
+      schema: parseAddress(options.schema, "--schema"),
+      wallet: parseAddress(options.wallet, "--wallet"),
+    };
+
+    const webhook = options.webhook
+      ? createWebhookSender({
+        url: options.webhook,
+        retries,
+        onDelivery: (delivery, event) => {
+          if (!delivery.delivered) {
+            const { event: type, attestation } = event as WatchEvent;
+            console.error(chalk.yellow(`Webhook delivery failed after ${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"} `
+              + `(${delivery.error}): ${type} ${attestation.attestation}`));
+          }
+        },
+      })
+      : null;
+
+    const watcher = await startAttestationWatcher({
+      client: getClient(),
+      filter,
+      expiringWithinSeconds: Math.round(expiringWithinDays * 24 * 60 * 60),
+      onEvent: event => {
+        emit(event satisfies WatchResult);
+        log(
+          chalk.gray(event.time),
+          EVENT_LABELS[event.event],
+          chalk.cyan(event.attestation.attestation),
+          describe(event),
+        );
+        webhook?.send(event);
+      },
+    });
+
+    const scope = [
+      filter.credential && `credential ${filter.credential}`,
+      filter.schema && `schema ${filter.schema}`,
+      filter.wallet && `wallet ${filter.wallet}`,
+    ].filter(Boolean).join(", ");
+    log(chalk.green(`✓ Watching ${watcher.initial} attestation${watcher.initial === 1 ? "" : "s"}`) + chalk.gray(` (${scope})`));
+    if (webhook) {
+      log(chalk.gray(`  Delivering events to ${options.webhook}`));
+    }
+
+    const shutdown = () => {
+      log(chalk.gray("\nShutting down..."));
+      watcher.stop();
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+
+    await watcher.done;
+    await webhook?.flush();
+
+  } catch (error) {
+    fail(null, "Watch failed", error);
+  }
+}
+
+function describe(event: WatchEvent): string {
+  const { attestation } = event;
+  const agent = typeof attestation.data?.agent_name === "string" ? chalk.white(attestation.data.agent_name) : "";
+  const decoder = attestation.decoder ? chalk.gray(`(${attestation.decoder})`) : "";
+  const expiry = event.event === "expiring" && attestation.expiry
+    ? chalk.yellow(attestation.expired ? `expired ${attestation.expiry}` : `expires ${attestation.expiry}`)
+    : "";
+  return [agent, decoder, expiry].filter(Boolean).join(" ");
+}
+
+function parseAddress(value: string | undefined, flag: string): Address | undefined {
+  if (!value) return undefined;
+  try {
+    return address(value);
+  } catch {
+    throw new CliError(ERROR_CODES.INVALID_ADDRESS, `Invalid ${flag} address "${value}"`);
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Attestation queries - enumerate SAS attestation accounts
+ *
+ * Uses getProgramAccounts with memcmp filters on the Attestation layout:
+ *   [discriminator u8][nonce 32][credential 32][schema 32][data vec]...
+ */
+
+import {
+  getBase58Decoder,
+  getBase64Encoder,
+  isSome,
+  type Address,
+  type Base58EncodedBytes,
+  type GetAccountInfoApi,
+  type GetMultipleAccountsApi,
+  type GetProgramAccountsApi,
+  type GetProgramAccountsMemcmpFilter,
+  type GetTokenAccountsByOwnerApi,
+  type Rpc,
+} from "@solana/kit";
+import {
+  getAttestationDecoder,
+  fetchAllMaybeAttestation,
+  fetchAllMaybeSchema,
+  fetchAttestation,
+  fetchSchema,
+  SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS,
+  type Attestation,
+  type Schema,
+} from "sas-lib";
+import {
+  TOKEN_2022_PROGRAM_ADDRESS,
+  getTokenDecoder,
+  fetchAllMaybeMint,
+} from "@solana-program/token-2022";
+import { resolveSchemaDecoder, type SchemaDecoder } from "../schemas/registry";
+
+// Account discriminators used by the SAS program
+export const CREDENTIAL_DISCRIMINATOR = 0;
+export const SCHEMA_DISCRIMINATOR = 1;
+export const ATTESTATION_DISCRIMINATOR = 2;
+
+// Byte offsets into the Attestation account
+export const ATTESTATION_NONCE_OFFSET = 1n;
+export const ATTESTATION_CREDENTIAL_OFFSET = 33n;
+export const ATTESTATION_SCHEMA_OFFSET = 65n;
+
+// Byte offset into the Schema account: [discriminator u8][credential 32]...
+export const SCHEMA_CREDENTIAL_OFFSET = 1n;
+
+export type AttestationRpc = Rpc<GetProgramAccountsApi & GetTokenAccountsByOwnerApi & GetMultipleAccountsApi>;
+
+export interface AttestationFilter {
+  credential?: Address;
+  schema?: Address;
+}
+
+export interface AttestationRecord {
+  address: Address;
+  attestation: Attestation;
+  schema: Schema | null;
+  decoder: SchemaDecoder | null;
+  data: Record<string, unknown> | null;
+  expiry: bigint;
+  isExpired: boolean;
+}
+
+/**
+ * JSON form of an AttestationRecord (u64 fields as strings)
+ */
+export interface AttestationRecordJson {
+  attestation: string;
+  credential: string;
+  schema: string;
+  signer: string;
+  tokenAccount: string;
+  expiry: string | null;
+  expired: boolean;
+  decoder: string | null;
+  data: Record<string, unknown> | null;
+}
+
+export interface DecodedAttestation {
+  attestation: Attestation;
+  schema: Schema;
+  decoder: SchemaDecoder;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Fetch one attestation with its schema and decode its data
+ */
+export async function fetchDecodedAttestation(
+  rpc: Rpc<GetAccountInfoApi>,
+  attestationAddress: Address,
+): Promise<DecodedAttestation> {
+  const attestation = await fetchAttestation(rpc, attestationAddress);
+  const schema = await fetchSchema(rpc, attestation.data.schema);
+  const decoder = resolveSchemaDecoder(schema.data, attestation.data.schema);
+  const data = decoder.decode(schema.data, attestation.data.data as Uint8Array) as Record<string, unknown>;
+  return { attestation: attestation.data, schema: schema.data, decoder, data };
+}
+
+/**
+ * Build memcmp filters for attestation accounts
+ */
+export function attestationFilters(filter: AttestationFilter): GetProgramAccountsMemcmpFilter[] {
+  const filters: GetProgramAccountsMemcmpFilter[] = [
+    memcmp(0n, getBase58Decoder().decode(new Uint8Array([ATTESTATION_DISCRIMINATOR]))),
+  ];
+  if (filter.credential) {
+    filters.push(memcmp(ATTESTATION_CREDENTIAL_OFFSET, filter.credential));
+  }
+  if (filter.schema) {
+    filters.push(memcmp(ATTESTATION_SCHEMA_OFFSET, filter.schema));
+  }
+  return filters;
+}
+
+/**
+ * Build memcmp filters for the schema accounts of a credential
+ */
+export function schemaFilters(credential: Address): GetProgramAccountsMemcmpFilter[] {
+  return [
+    memcmp(0n, getBase58Decoder().decode(new Uint8Array([SCHEMA_DISCRIMINATOR]))),
+    memcmp(SCHEMA_CREDENTIAL_OFFSET, credential),
+  ];
+}
+
+/**
+ * Find attestations issued under a credential and/or schema
+ *
+ * With an empty filter this returns every attestation in the SAS program.
+ */
+export async function findAttestations(
+  rpc: AttestationRpc,
+  filter: AttestationFilter = {},
+): Promise<{ address: Address; attestation: Attestation }[]> {
+  const accounts = await rpc
+    .getProgramAccounts(SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS, {
+      encoding: "base64",
+      filters: attestationFilters(filter),
+    })
+    .send();
+
+  const decoder = getAttestationDecoder();
+  const base64 = getBase64Encoder();
+  return accounts.map(({ pubkey, account }) => ({
+    address: pubkey,
+    attestation: decoder.decode(base64.encode(account.data[0])),
+  }));
+}
+
+/**
+ * Find tokenized attestations whose proof NFT is held by a wallet
+ *
+ * Reads the wallet's Token-2022 accounts, follows each mint's
+ * `attestation` metadata field, and keeps only attestations whose
+ * recorded token account matches the one the wallet holds.
+ */
+export async function findAttestationsByOwner(
+  rpc: AttestationRpc,
+  owner: Address,
+): Promise<{ address: Address; attestation: Attestation }[]> {
+  const { value: tokenAccounts } = await rpc
+    .getTokenAccountsByOwner(owner, { programId: TOKEN_2022_PROGRAM_ADDRESS }, { encoding: "base64" })
+    .send();
+
+  const tokenDecoder = getTokenDecoder();
+  const base64 = getBase64Encoder();
+  const holdings = tokenAccounts
+    .map(({ pubkey, account }) => ({
+      tokenAccount: pubkey,
+      token: tokenDecoder.decode(base64.encode(account.data[0])),
+    }))
+    .filter(({ token }) => token.amount === 1n);
+
+  if (holdings.length === 0) return [];
+
+  const mints = await fetchAllMaybeMint(rpc, holdings.map(({ token }) => token.mint));
+  const candidates: { address: Address; tokenAccount: Address }[] = [];
+  mints.forEach((mint, i) => {
+    if (!mint.exists || !isSome(mint.data.extensions)) return;
+    for (const ext of mint.data.extensions.value) {
+      if (ext.__kind !== "TokenMetadata") continue;
+      const attestation = ext.additionalMetadata.get("attestation");
+      if (attestation) {
+        candidates.push({ address: attestation as Address, tokenAccount: holdings[i].tokenAccount });
+      }
+    }
+  });
+
+  if (candidates.length === 0) return [];
+
+  const attestations = await fetchAllMaybeAttestation(rpc, candidates.map(c => c.address));
+  return attestations.flatMap((account, i) =>
+    account.exists && account.data.tokenAccount === candidates[i].tokenAccount
+      ? [{ address: account.address, attestation: account.data }]
+      : []
+  );
+}
+
+/**
+ * Decode attestation data with each schema's registered decoder and flag expiry
+ */
+export async function decodeAttestations(
+  rpc: AttestationRpc,
+  attestations: { address: Address; attestation: Attestation }[],
+): Promise<AttestationRecord[]> {
+  const schemaAddresses = [...new Set(attestations.map(a => a.attestation.schema))];
+  const schemas = new Map<Address, Schema>();
+  if (schemaAddresses.length > 0) {
+    const accounts = await fetchAllMaybeSchema(rpc, schemaAddresses);
+    for (const account of accounts) {
+      if (account.exists) schemas.set(account.address, account.data);
+    }
+  }
+
+  return decodeWithSchemas(attestations, schemas);
+}
+
+/**
+ * Decode attestation data against already loaded schemas (offline half of decodeAttestations)
+ */
+export function decodeWithSchemas(
+  attestations: { address: Address; attestation: Attestation }[],
+  schemas: Map<Address, Schema>,
+): AttestationRecord[] {
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  return attestations.map(({ address, attestation }) => {
+    const schema = schemas.get(attestation.schema) ?? null;
+    const decoder = schema ? resolveSchemaDecoder(schema, attestation.schema) : null;
+    let data: Record<string, unknown> | null = null;
+    if (schema && decoder) {
+      try {
+        data = decoder.decode(schema, attestation.data as Uint8Array) as Record<string, unknown>;
+      } catch {
+        // Data does not match the schema layout
+      }
+    }
+    return {
+      address,
+      attestation,
+      schema,
+      decoder,
+      data,
+      expiry: attestation.expiry,
+      isExpired: attestation.expiry > 0n && now >= attestation.expiry,
+    };
+  });
+}
+
+/**
+ * Convert a record to its JSON form
+ */
+export function attestationRecordJson(record: AttestationRecord): AttestationRecordJson {
+  return {
+    attestation: record.address,
+    credential: record.attestation.credential,
+    schema: record.attestation.schema,
+    signer: record.attestation.signer,
+    tokenAccount: record.attestation.tokenAccount,
+    expiry: record.expiry > 0n ? new Date(Number(record.expiry) * 1000).toISOString() : null,
+    expired: record.isExpired,
+    decoder: record.decoder?.id ?? null,
+    data: record.data
+      ? Object.fromEntries(Object.entries(record.data).map(([k, v]) => [k, typeof v === "bigint" ? v.toString() : v]))
+      : null,
+  };
+}
+
+function memcmp(offset: bigint, bytes: string): GetProgramAccountsMemcmpFilter {
+  return {
+    memcmp: {
+      offset,
+      bytes: bytes as Base58EncodedBytes,
+      encoding: "base58",
+    },
+  };
+}
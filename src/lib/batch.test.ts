@@ -0,0 +1,209 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { address, type Address, type IInstruction } from "@solana/kit";
+import { MAX_COMPUTE_UNIT_LIMIT } from "@solana-program/compute-budget";
+import { loadBatchRecords, packBatch, sendBatch, type BatchItem, type BatchOutcome } from "./batch";
+import type { SASClient, SimulationResult } from "./sas-client";
+
+const WALLETS = [
+  "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU",
+  "So11111111111111111111111111111111111111112",
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+] as Address[];
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "agent-proof-batch-"));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function load(name: string, text: string) {
+  const path = join(dir, name);
+  await Bun.write(path, text);
+  return loadBatchRecords(path);
+}
+
+async function problems(name: string, text: string): Promise<string[]> {
+  try {
+    await load(name, text);
+  } catch (error) {
+    return (error as { details?: { problems?: string[] } }).details?.problems ?? [(error as Error).message];
+  }
+  throw new Error("expected the batch file to be rejected");
+}
+
+describe("loadBatchRecords", () => {
+  test("reads CSV with quoted fields, embedded commas, escaped quotes and CRLF", async () => {
+    const records = await load("quoted.csv", [
+      "Name,Type,Platform,Recipient,Capabilities",
+      `"support, tier 1",claude,openclaw,${WALLETS[0]},manifests/support.json`,
+      `"the ""trade"" bot",,,${WALLETS[1]},`,
+      "",
+    ].join("\r\n"));
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      row: 1,
+      name: "support, tier 1",
+      type: "claude",
+      platform: "openclaw",
+      recipient: WALLETS[0],
+      capabilities: join(dir, "manifests/support.json"),
+    });
+    expect(records[1]).toMatchObject({ row: 2, name: `the "trade" bot`, type: "custom", platform: "custom" });
+    expect(records[1].capabilities).toBeUndefined();
+  });
+
+  test("keeps newlines inside quoted fields", async () => {
+    const [record] = await load("multiline.csv", `name,recipient\n"line one\nline two",${WALLETS[0]}\n`);
+    expect(record.name).toBe("line one\nline two");
+  });
+
+  test("reads a JSON array", async () => {
+    const records = await load("agents.json", JSON.stringify([
+      { name: "a", recipient: WALLETS[0], model_version: "v2" },
+      { name: "b", recipient: WALLETS[1] },
+    ]));
+    expect(records.map(r => [r.row, r.name, r.model_version])).toEqual([[1, "a", "v2"], [2, "b", undefined]]);
+  });
+
+  test("reports every bad row", async () => {
+    expect(await problems("bad.csv", [
+      "name,recipient",
+      `,${WALLETS[0]}`,
+      "no-wallet,",
+      "typo,not-a-wallet",
+      `first,${WALLETS[1]}`,
+      `again,${WALLETS[1]}`,
+    ].join("\n"))).toEqual([
+      "row 1: name is required",
+      "row 2: recipient is required",
+      `row 3: invalid recipient "not-a-wallet"`,
+      "row 5: recipient already used in row 4",
+    ]);
+  });
+
+  test("rejects unknown columns", async () => {
+    expect(await problems("unknown.csv", `name,recipient,wallet\nbot,${WALLETS[0]},x\n`))
+      .toEqual(["row 1: unknown field(s) wallet"]);
+  });
+
+  test.each([
+    ["empty.csv", ""],
+    ["header-only.csv", "name,recipient\n"],
+    ["object.json", `{"name":"bot"}`],
+    ["broken.json", `[{"name":`],
+  ])("rejects %s", async (name, text) => {
+    await expect(load(name, text)).rejects.toThrow();
+  });
+});
+
+/** One fake instruction per record, tagged with its row in the data byte */
+function items(count: number): BatchItem[] {
+  return Array.from({ length: count }, (_, i) => {
+    const attestation = address(WALLETS[i % WALLETS.length]);
+    return {
+      record: { row: i + 1, name: `agent-${i + 1}`, type: "custom", platform: "custom", recipient: attestation },
+      attestation,
+      instruction: { programAddress: attestation, data: new Uint8Array([i + 1]) } as IInstruction,
+    };
+  });
+}
+
+const row = (instruction: IInstruction) => instruction.data![0];
+
+function fakeClient(options: {
+  fits?: number;
+  failing?: number[];
+  unitsPerRecord?: number;
+} = {}) {
+  const sent: number[][] = [];
+  const simulated: number[][] = [];
+  const client = {
+    fitsInTransaction: (instructions: IInstruction[]) => instructions.length <= (options.fits ?? Infinity),
+    simulateInstructions: async (instructions: IInstruction[]): Promise<SimulationResult> => {
+      const rows = instructions.map(row);
+      simulated.push(rows);
+      const bad = rows.find(r => options.failing?.includes(r));
+      return {
+        unitsConsumed: rows.length * (options.unitsPerRecord ?? 10_000),
+        err: bad ? { InstructionError: [0, "Custom"] } : null,
+        logs: bad ? [`Program log: Error: row ${bad} is bad`] : [],
+      };
+    },
+    sendInstructions: async (instructions: IInstruction[]) => {
+      sent.push(instructions.map(row));
+      return { signature: `sig-${sent.length}`, cuUsed: 0, cuLimit: 0 };
+    },
+  } as unknown as SASClient;
+  return { client, sent, simulated };
+}
+
+describe("packBatch", () => {
+  test("fills each transaction up to the size limit", () => {
+    const { client } = fakeClient({ fits: 3 });
+    expect(packBatch(client, items(7)).map(g => g.map(i => i.record.row))).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+  });
+
+  test("honours --max-per-tx below the size limit", () => {
+    const { client } = fakeClient({ fits: 3 });
+    expect(packBatch(client, items(5), 2).map(g => g.length)).toEqual([2, 2, 1]);
+  });
+
+  test("puts an oversized record in a transaction of its own", () => {
+    const { client } = fakeClient({ fits: 0 });
+    expect(packBatch(client, items(2)).map(g => g.length)).toEqual([1, 1]);
+  });
+
+  test("returns no groups for no items", () => {
+    expect(packBatch(fakeClient().client, [])).toEqual([]);
+  });
+});
+
+describe("sendBatch", () => {
+  async function run(client: SASClient, groups: BatchItem[][]) {
+    const outcomes: BatchOutcome[] = [];
+    const { transactions } = await sendBatch(client, groups, { concurrency: 1, onOutcome: o => void outcomes.push(o) });
+    const byRow = Object.fromEntries(outcomes.map(o => [o.item.record.row, o.status]));
+    return { transactions, outcomes, byRow };
+  }
+
+  test("sends each group as one transaction", async () => {
+    const { client, sent } = fakeClient();
+    const { transactions, byRow } = await run(client, [items(4)]);
+    expect(transactions).toBe(1);
+    expect(sent).toEqual([[1, 2, 3, 4]]);
+    expect(byRow).toEqual({ 1: "minted", 2: "minted", 3: "minted", 4: "minted" });
+  });
+
+  test("halves a group that fails simulation until the bad record is alone", async () => {
+    const { client, sent, simulated } = fakeClient({ failing: [3] });
+    const { transactions, outcomes, byRow } = await run(client, [items(4)]);
+    expect(simulated).toEqual([[1, 2, 3, 4], [1, 2], [3, 4], [3], [4]]);
+    expect(sent).toEqual([[1, 2], [4]]);
+    expect(transactions).toBe(2);
+    expect(byRow).toEqual({ 1: "minted", 2: "minted", 3: "failed", 4: "minted" });
+    expect(outcomes.find(o => o.item.record.row === 3)?.error).toBe("simulation failed: Program log: Error: row 3 is bad");
+  });
+
+  test("halves a group over the compute limit", async () => {
+    const perRecord = Math.floor(MAX_COMPUTE_UNIT_LIMIT / 2);
+    const { client, sent } = fakeClient({ unitsPerRecord: perRecord });
+    const { byRow } = await run(client, [items(2)]);
+    expect(sent).toEqual([[1], [2]]);
+    expect(byRow).toEqual({ 1: "minted", 2: "minted" });
+  });
+
+  test("fails a single record over the compute limit", async () => {
+    const { client, sent } = fakeClient({ unitsPerRecord: MAX_COMPUTE_UNIT_LIMIT });
+    const { outcomes } = await run(client, [items(1)]);
+    expect(sent).toEqual([]);
+    expect(outcomes[0]).toMatchObject({ status: "failed", error: "exceeds the compute limit" });
+  });
+});
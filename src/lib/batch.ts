@@ -0,0 +1,315 @@
+/**
+ * Batch issuance - many tokenized attestations with few transactions
+ *
+ * Records come from a CSV (header row) or a JSON array with the columns
+ * name, type, platform, recipient, capabilities, model_version, endpoint_url
+ * and framework_version. Every record needs a recipient: its wallet is the
+ * attestation nonce (as with `attest --recipient`), so each attestation
+ * address is known before anything is sent.
+ *
+ * That makes runs resumable. The journal (NDJSON, one line per outcome) lets a
+ * re-run skip what already succeeded without asking the chain, and attestations
+ * that exist on-chain are skipped even if the journal missed them (e.g. a crash
+ * while confirming). --force ignores the journal, so a record whose attestation
+ * was closed since is minted again. A record is never minted twice: the
+ * program rejects an existing PDA anyway.
+ */
+
+import { appendFile } from "fs/promises";
+import { dirname, extname, resolve } from "path";
+import { address, type Address, type IInstruction } from "@solana/kit";
+import { MAX_COMPUTE_UNIT_LIMIT } from "@solana-program/compute-budget";
+import { describeSimulationFailure, type SASClient } from "./sas-client";
+import { CliError, ERROR_CODES, stringify, toCliError } from "./output";
+
+export interface BatchRecord {
+  /** 1-based position in the input (data rows only) */
+  row: number;
+  name: string;
+  type: string;
+  platform: string;
+  recipient: Address;
+  /** Manifest path, resolved against the batch file's directory */
+  capabilities?: string;
+  model_version?: string;
+  endpoint_url?: string;
+  framework_version?: string;
+}
+
+export type JournalStatus = "minted" | "exists" | "failed";
+
+export interface JournalEntry {
+  time: string;
+  row: number;
+  recipient: string;
+  attestation: string;
+  status: JournalStatus;
+  signature: string | null;
+  error: string | null;
+}
+
+export interface BatchItem {
+  record: BatchRecord;
+  attestation: Address;
+  instruction: IInstruction;
+}
+
+export interface BatchOutcome {
+  item: BatchItem;
+  status: JournalStatus;
+  signature: string | null;
+  error: string | null;
+}
+
+const RECORD_FIELDS = [
+  "name", "type", "platform", "recipient", "capabilities",
+  "model_version", "endpoint_url", "framework_version",
+] as const;
+
+/** Headroom over simulated CU, matching SASClient.sendTransaction */
+const CU_BUFFER = 1.1;
+
+/**
+ * Read batch records from a .csv or .json file
+ */
+export async function loadBatchRecords(path: string): Promise<BatchRecord[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new CliError(ERROR_CODES.FILE_NOT_FOUND, `Batch file not found: ${path}`);
+  }
+  const text = await file.text();
+
+  let rows: Record<string, unknown>[];
+  if (extname(path).toLowerCase() === ".json" || text.trimStart().startsWith("[")) {
+    try {
+      rows = JSON.parse(text);
+    } catch (error) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Batch file ${path} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(rows)) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Batch file ${path} must contain a JSON array of records`);
+    }
+  } else {
+    const [header, ...lines] = parseCsv(text);
+    if (!header) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Batch file ${path} is empty`);
+    }
+    const columns = header.map(h => h.trim().toLowerCase());
+    rows = lines.map(cells => Object.fromEntries(columns.map((c, i) => [c, cells[i] ?? ""])));
+  }
+
+  const baseDir = dirname(resolve(path));
+  const problems: string[] = [];
+  const records = rows.flatMap((raw, i): BatchRecord[] => {
+    const row = i + 1;
+    const unknown = Object.keys(raw ?? {}).filter(k => !(RECORD_FIELDS as readonly string[]).includes(k));
+    if (typeof raw !== "object" || raw === null || unknown.length) {
+      problems.push(`row ${row}: ${unknown.length ? `unknown field(s) ${unknown.join(", ")}` : "not an object"}`);
+      return [];
+    }
+    const field = (key: typeof RECORD_FIELDS[number]) =>
+      typeof raw[key] === "string" && (raw[key] as string).trim() ? (raw[key] as string).trim() : undefined;
+
+    const name = field("name");
+    const recipient = field("recipient");
+    if (!name) problems.push(`row ${row}: name is required`);
+    if (!recipient) problems.push(`row ${row}: recipient is required`);
+    if (!name || !recipient) return [];
+
+    let recipientAddress: Address;
+    try {
+      recipientAddress = address(recipient);
+    } catch {
+      problems.push(`row ${row}: invalid recipient "${recipient}"`);
+      return [];
+    }
+
+    const capabilities = field("capabilities");
+    return [{
+      row,
+      name,
+      type: field("type") ?? "custom",
+      platform: field("platform") ?? "custom",
+      recipient: recipientAddress,
+      capabilities: capabilities ? resolve(baseDir, capabilities) : undefined,
+      model_version: field("model_version"),
+      endpoint_url: field("endpoint_url"),
+      framework_version: field("framework_version"),
+    }];
+  });
+
+  // One attestation per recipient: a repeat would collide on the same PDA
+  const seen = new Map<Address, number>();
+  for (const record of records) {
+    const first = seen.get(record.recipient);
+    if (first) problems.push(`row ${record.row}: recipient already used in row ${first}`);
+    else seen.set(record.recipient, record.row);
+  }
+
+  if (problems.length) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Batch file ${path} has ${problems.length} problem(s): ${problems[0]}`,
+      { problems });
+  }
+  if (records.length === 0) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Batch file ${path} has no records`);
+  }
+  return records;
+}
+
+/**
+ * Read a journal, keeping the latest entry per attestation
+ */
+export async function readJournal(path: string): Promise<Map<string, JournalEntry>> {
+  const entries = new Map<string, JournalEntry>();
+  const file = Bun.file(path);
+  if (!(await file.exists())) return entries;
+
+  for (const line of (await file.text()).split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as JournalEntry;
+      if (entry.attestation) entries.set(entry.attestation, entry);
+    } catch {
+      // A torn last line from a crash; the on-chain check covers it
+    }
+  }
+  return entries;
+}
+
+/**
+ * Append one outcome to the journal
+ */
+export async function appendJournal(path: string, entry: JournalEntry): Promise<void> {
+  await appendFile(path, stringify(entry) + "\n");
+}
+
+/**
+ * Which of these attestations already exist on-chain
+ */
+export async function findExistingAttestations(client: SASClient, addresses: Address[]): Promise<Set<Address>> {
+  const existing = new Set<Address>();
+  const rpc = client.getRpc();
+  for (let i = 0; i < addresses.length; i += 100) {
+    const chunk = addresses.slice(i, i + 100);
+    const { value } = await rpc.getMultipleAccounts(chunk, { encoding: "base64" }).send();
+    value.forEach((account, j) => {
+      if (account) existing.add(chunk[j]);
+    });
+  }
+  return existing;
+}
+
+/**
+ * Greedily pack instructions into transactions that fit the size limit
+ */
+export function packBatch(client: SASClient, items: BatchItem[], maxPerTransaction = Infinity): BatchItem[][] {
+  const groups: BatchItem[][] = [];
+  let current: BatchItem[] = [];
+  for (const item of items) {
+    const candidate = [...current, item];
+    if (current.length > 0
+      && (candidate.length > maxPerTransaction || !client.fitsInTransaction(candidate.map(c => c.instruction)))) {
+      groups.push(current);
+      current = [item];
+    } else {
+      current = candidate;
+    }
+  }
+  if (current.length) groups.push(current);
+  return groups;
+}
+
+/**
+ * Send packed groups with bounded concurrency
+ *
+ * Each group is simulated once; a group that fails simulation or would exceed
+ * the compute limit is split in half and retried, so one bad record only fails
+ * itself. onOutcome runs as each record settles (write the journal there).
+ */
+export async function sendBatch(
+  client: SASClient,
+  groups: BatchItem[][],
+  options: { concurrency: number; onOutcome: (outcome: BatchOutcome) => Promise<void> | void },
+): Promise<{ transactions: number }> {
+  let transactions = 0;
+  let next = 0;
+
+  const settle = async (group: BatchItem[], status: JournalStatus, signature: string | null, error: string | null) => {
+    for (const item of group) {
+      await options.onOutcome({ item, status, signature, error });
+    }
+  };
+
+  const sendGroup = async (group: BatchItem[]): Promise<void> => {
+    const instructions = group.map(item => item.instruction);
+    try {
+      const sim = await client.simulateInstructions(instructions);
+      const overBudget = sim.unitsConsumed !== null && sim.unitsConsumed * CU_BUFFER > MAX_COMPUTE_UNIT_LIMIT;
+      if ((sim.err || overBudget) && group.length > 1) {
+        const half = Math.ceil(group.length / 2);
+        await sendGroup(group.slice(0, half));
+        await sendGroup(group.slice(half));
+        return;
+      }
+      if (sim.err || overBudget) {
+        await settle(group, "failed", null,
+          overBudget ? "exceeds the compute limit" : `simulation failed: ${describeSimulationFailure(sim)}`);
+        return;
+      }
+
+      const { signature } = await client.sendInstructions(instructions, sim.unitsConsumed);
+      transactions++;
+      await settle(group, "minted", signature, null);
+    } catch (error) {
+      await settle(group, "failed", null, toCliError(error).message);
+    }
+  };
+
+  const worker = async () => {
+    while (next < groups.length) {
+      await sendGroup(groups[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, groups.length)) }, worker));
+  return { transactions };
+}
+
+/**
+ * Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      field = "";
+      if (row.some(cell => cell.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim())) rows.push(row);
+  return rows;
+}
@@ -0,0 +1,273 @@
+/**
+ * Proof bundles - self-contained snapshots of an attestation for offline verification
+ *
+ * A bundle carries the raw account data (attestation, schema, credential,
+ * proof NFT mint and token account) read at one slot, plus the decoded fields.
+ * `verify --bundle` decodes the raw accounts again and re-derives every PDA, so
+ * a bundle whose accounts do not belong together is rejected. A bundle is a
+ * snapshot, not a signature: it shows what the chain held at `slot`.
+ */
+
+import {
+  getBase64Encoder,
+  type Address,
+  type Base64EncodedBytes,
+  type GetAccountInfoApi,
+  type GetLatestBlockhashApi,
+  type GetMultipleAccountsApi,
+  type Rpc,
+} from "@solana/kit";
+import {
+  deriveAttestationMintPda,
+  deriveAttestationPda,
+  deriveSchemaPda,
+  getAttestationDecoder,
+  getCredentialDecoder,
+  getSchemaDecoder,
+  SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS,
+  type Attestation,
+  type Credential,
+  type Schema,
+} from "sas-lib";
+import {
+  TOKEN_2022_PROGRAM_ADDRESS,
+  getMintDecoder,
+  getTokenDecoder,
+  type Mint,
+  type Token,
+} from "@solana-program/token-2022";
+import { resolveSchemaDecoder, getSchemaName, type SchemaDecoder } from "../schemas/registry";
+import { CliError, ERROR_CODES, stringify } from "./output";
+import { readJsonFile } from "./files";
+
+export const PROOF_BUNDLE_VERSION = 1;
+
+export interface BundledAccount {
+  address: string;
+  owner: string;
+  lamports: string;
+  /** Raw account data, base64 */
+  data: string;
+}
+
+export interface ProofBundle {
+  version: typeof PROOF_BUNDLE_VERSION;
+  exportedAt: string;
+  network: { profile: string; rpcUrl: string };
+  /** Slot the accounts were read at */
+  slot: string;
+  /** Latest blockhash at (or after) that slot */
+  blockhash: string;
+  attestation: string;
+  accounts: {
+    attestation: BundledAccount;
+    schema: BundledAccount;
+    credential: BundledAccount;
+    mint: BundledAccount | null;
+    tokenAccount: BundledAccount | null;
+  };
+  decoded: { decoder: string; data: Record<string, unknown> };
+}
+
+/**
+ * Attestation state decoded from a bundle (or fetched live), ready for verification
+ */
+export interface AttestationSnapshot {
+  address: Address;
+  attestation: Attestation;
+  schema: Schema;
+  credential: Credential | null;
+  decoder: SchemaDecoder;
+  data: Record<string, unknown>;
+  /** Proof NFT mint, if it exists */
+  tokenMint: Address | null;
+  /** Wallet holding the proof NFT, if known */
+  holder: Address | null;
+  /** Decoded proof NFT mint (null if missing, undefined if not read) */
+  mint?: Mint | null;
+  /** Decoded proof NFT token account (null if missing, undefined if not read) */
+  token?: Token | null;
+}
+
+type BundleRpc = Rpc<GetAccountInfoApi & GetMultipleAccountsApi & GetLatestBlockhashApi>;
+
+/**
+ * Read an attestation and every account it depends on into a bundle
+ */
+export async function createProofBundle(
+  rpc: BundleRpc,
+  attestationAddress: Address,
+  network: { profile: string; rpcUrl: string },
+): Promise<ProofBundle> {
+  const { value: attestationAccount } = await rpc
+    .getAccountInfo(attestationAddress, { encoding: "base64" })
+    .send();
+  if (!attestationAccount) {
+    throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, "No attestation found at this address", { address: attestationAddress });
+  }
+  const attestation = getAttestationDecoder().decode(decodeBase64(attestationAccount.data[0]));
+  const [mint] = await deriveAttestationMintPda({ attestation: attestationAddress });
+
+  // Re-read everything in one call so all accounts come from the same slot
+  const { context, value: accounts } = await rpc
+    .getMultipleAccounts(
+      [attestationAddress, attestation.schema, attestation.credential, mint, attestation.tokenAccount],
+      { encoding: "base64" },
+    )
+    .send();
+  const { value: latestBlockhash } = await rpc
+    .getLatestBlockhash({ minContextSlot: context.slot })
+    .send();
+
+  const addresses = [attestationAddress, attestation.schema, attestation.credential, mint, attestation.tokenAccount];
+  const [attestationRaw, schemaRaw, credentialRaw, mintRaw, tokenRaw] = accounts.map((account, i) =>
+    account
+      ? {
+          address: addresses[i],
+          owner: account.owner,
+          lamports: account.lamports.toString(),
+          data: account.data[0],
+        }
+      : null
+  );
+  if (!attestationRaw || !schemaRaw || !credentialRaw) {
+    throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, "Attestation, schema or credential account is missing",
+      { attestation: attestationAddress, schema: attestation.schema, credential: attestation.credential });
+  }
+
+  const bundle: ProofBundle = {
+    version: PROOF_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    network,
+    slot: context.slot.toString(),
+    blockhash: latestBlockhash.blockhash,
+    attestation: attestationAddress,
+    accounts: {
+      attestation: attestationRaw,
+      schema: schemaRaw,
+      credential: credentialRaw,
+      mint: mintRaw,
+      tokenAccount: tokenRaw,
+    },
+    decoded: { decoder: "", data: {} },
+  };
+
+  const snapshot = await readProofBundle(bundle, { checkDecoded: false });
+  bundle.decoded = { decoder: snapshot.decoder.id, data: jsonFields(snapshot.data) };
+  return bundle;
+}
+
+/**
+ * Decode and cross-check a bundle without network access
+ */
+export async function readProofBundle(
+  bundle: ProofBundle,
+  options: { checkDecoded?: boolean } = {},
+): Promise<AttestationSnapshot> {
+  const { accounts } = bundle;
+  const problems: string[] = [];
+
+  for (const name of ["attestation", "schema", "credential"] as const) {
+    if (accounts[name].owner !== SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS) {
+      problems.push(`${name} account is not owned by the SAS program`);
+    }
+  }
+  for (const name of ["mint", "tokenAccount"] as const) {
+    if (accounts[name] && accounts[name]!.owner !== TOKEN_2022_PROGRAM_ADDRESS) {
+      problems.push(`${name} account is not owned by Token-2022`);
+    }
+  }
+
+  const attestation = getAttestationDecoder().decode(decodeBase64(accounts.attestation.data));
+  const schema = getSchemaDecoder().decode(decodeBase64(accounts.schema.data));
+  const credential = getCredentialDecoder().decode(decodeBase64(accounts.credential.data));
+
+  // Every address must follow from the accounts it claims to belong to
+  const [attestationPda] = await deriveAttestationPda({
+    credential: attestation.credential,
+    schema: attestation.schema,
+    nonce: attestation.nonce,
+  });
+  const [schemaPda] = await deriveSchemaPda({
+    credential: schema.credential,
+    name: getSchemaName(schema),
+    version: schema.version,
+  });
+  const [mintPda] = await deriveAttestationMintPda({ attestation: attestationPda });
+
+  if (bundle.attestation !== accounts.attestation.address || attestationPda !== accounts.attestation.address) {
+    problems.push("attestation address does not match its credential, schema and nonce");
+  }
+  if (attestation.schema !== accounts.schema.address || schemaPda !== accounts.schema.address) {
+    problems.push("schema account does not belong to the attestation");
+  }
+  if (attestation.credential !== accounts.credential.address || schema.credential !== accounts.credential.address) {
+    problems.push("credential account does not belong to the attestation");
+  }
+  if (accounts.mint && accounts.mint.address !== mintPda) {
+    problems.push("mint account is not the attestation's proof NFT mint");
+  }
+  if (accounts.tokenAccount && accounts.tokenAccount.address !== attestation.tokenAccount) {
+    problems.push("token account is not the attestation's token account");
+  }
+
+  const decoder = resolveSchemaDecoder(schema, attestation.schema);
+  const data = decoder.decode(schema, attestation.data as Uint8Array) as Record<string, unknown>;
+  if (options.checkDecoded !== false
+    && stringify(bundle.decoded) !== stringify({ decoder: decoder.id, data: jsonFields(data) })) {
+    problems.push("decoded fields do not match the raw attestation data");
+  }
+
+  if (problems.length) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Bundle is inconsistent: ${problems[0]}`, { problems });
+  }
+
+  const mint = accounts.mint ? getMintDecoder().decode(decodeBase64(accounts.mint.data)) : null;
+  const token = accounts.tokenAccount ? getTokenDecoder().decode(decodeBase64(accounts.tokenAccount.data)) : null;
+
+  return {
+    address: attestationPda,
+    attestation,
+    schema,
+    credential,
+    decoder,
+    data,
+    tokenMint: accounts.mint ? mintPda : null,
+    holder: token?.owner ?? null,
+    mint,
+    token,
+  };
+}
+
+/**
+ * Load a bundle file (structure only; use readProofBundle to check it)
+ */
+export async function loadProofBundle(path: string): Promise<ProofBundle> {
+  const value = await readJsonFile(path, `Bundle ${path}`) as Partial<ProofBundle> | null;
+  const isAccount = (a: unknown) => typeof a === "object" && a !== null
+    && ["address", "owner", "lamports", "data"].every(k => typeof (a as Record<string, unknown>)[k] === "string");
+  const valid = typeof value === "object" && value !== null
+    && value.version === PROOF_BUNDLE_VERSION
+    && typeof value.attestation === "string"
+    && typeof value.slot === "string"
+    && typeof value.blockhash === "string"
+    && typeof value.accounts === "object" && value.accounts !== null
+    && isAccount(value.accounts.attestation)
+    && isAccount(value.accounts.schema)
+    && isAccount(value.accounts.credential)
+    && (value.accounts.mint === null || isAccount(value.accounts.mint))
+    && (value.accounts.tokenAccount === null || isAccount(value.accounts.tokenAccount))
+    && typeof value.decoded === "object" && value.decoded !== null;
+  if (!valid) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid proof bundle ${path}`);
+  }
+  return value as ProofBundle;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  return Uint8Array.from(getBase64Encoder().encode(data as Base64EncodedBytes));
+}
+
+function jsonFields(data: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(stringify(data));
+}
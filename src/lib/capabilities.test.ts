@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import {
+  canonicalJson,
+  capabilitiesMerkleRoot,
+  capabilityEntries,
+  capabilityProofRoot,
+  hashCapabilities,
+  parseCapabilitiesManifest,
+  proveCapability,
+  type CapabilitiesManifest,
+  type CapabilityProof,
+} from "./capabilities";
+
+function manifest(tools: string[], extra: Partial<CapabilitiesManifest> = {}): CapabilitiesManifest {
+  return parseCapabilitiesManifest({ version: 1, tools, permissions: [], ...extra });
+}
+
+describe("canonicalJson", () => {
+  test("sorts keys at every level and drops undefined values", () => {
+    expect(canonicalJson({ b: 1, a: { d: [3, { z: true, y: null }], c: "x" }, e: undefined }))
+      .toBe(`{"a":{"c":"x","d":[3,{"y":null,"z":true}]},"b":1}`);
+  });
+
+  test("orders keys by UTF-16 code units", () => {
+    expect(canonicalJson({ "é": 1, z: 2, Z: 3, "10": 4, "9": 5 })).toBe(`{"10":4,"9":5,"Z":3,"z":2,"é":1}`);
+  });
+
+  test("formats numbers like ECMAScript", () => {
+    expect(canonicalJson([1.0, -0, 0.1, 1e21, 1e-7, 100])).toBe("[1,0,0.1,1e+21,1e-7,100]");
+  });
+
+  test("rejects non-finite numbers and non-JSON values", () => {
+    expect(() => canonicalJson(Number.NaN)).toThrow("non-finite");
+    expect(() => canonicalJson(Number.POSITIVE_INFINITY)).toThrow("non-finite");
+    expect(() => canonicalJson(1n)).toThrow("bigint");
+  });
+
+  test("gives reordered manifests the same hash", () => {
+    const a = parseCapabilitiesManifest({ version: 1, tools: ["b", "a", "a"], permissions: [], limits: { y: 1, x: 2 } });
+    const b = parseCapabilitiesManifest({ limits: { x: 2, y: 1 }, permissions: [], tools: ["a", "b"], version: 1 });
+    expect(hashCapabilities(a)).toBe(hashCapabilities(b));
+  });
+});
+
+describe("capability proofs", () => {
+  test.each([1, 2, 3, 5, 7])("every entry of a %i-entry manifest proves against the root", count => {
+    const m = manifest(Array.from({ length: count }, (_, i) => `tool_${i}`));
+    const root = capabilitiesMerkleRoot(m);
+    for (const entry of capabilityEntries(m)) {
+      const proof = proveCapability(m, entry);
+      expect(proof.root).toBe(root);
+      expect(capabilityProofRoot(proof)).toBe(root);
+    }
+  });
+
+  test("a single-entry manifest has an empty proof", () => {
+    const m = manifest(["only"]);
+    expect(proveCapability(m, { type: "tool", name: "only" }).proof).toEqual([]);
+  });
+
+  test("mixed entry types prove against the root", () => {
+    const m = manifest(["web_search"], {
+      permissions: ["read:repo"],
+      limits: { max_tokens: 8192 },
+      model: { provider: "anthropic", name: "claude-sonnet-4" },
+    });
+    const root = capabilitiesMerkleRoot(m);
+    expect(capabilityEntries(m)).toHaveLength(4);
+    for (const entry of capabilityEntries(m)) {
+      expect(capabilityProofRoot(proveCapability(m, entry))).toBe(root);
+    }
+  });
+
+  describe("rejects a tampered proof", () => {
+    const m = manifest(["a", "b", "c", "d", "e"], { limits: { max_tokens: 8192 } });
+    const root = capabilitiesMerkleRoot(m);
+    const proof = proveCapability(m, { type: "limit", name: "max_tokens", value: 8192 });
+    const flip = (hex: string) => (hex[0] === "0" ? "1" : "0") + hex.slice(1);
+
+    const tampered: Record<string, CapabilityProof> = {
+      "changed entry value": { ...proof, entry: { type: "limit", name: "max_tokens", value: 100000 } },
+      "changed entry type": { ...proof, entry: { type: "tool", name: "max_tokens" } },
+      "changed salt": { ...proof, salt: flip(proof.salt) },
+      "changed sibling": { ...proof, proof: [flip(proof.proof[0]), ...proof.proof.slice(1)] },
+      "dropped sibling": { ...proof, proof: proof.proof.slice(1) },
+    };
+    for (const [name, bad] of Object.entries(tampered)) {
+      test(name, () => {
+        expect(capabilityProofRoot(bad)).not.toBe(root);
+      });
+    }
+  });
+
+  test("refuses to prove an entry that is not in the manifest", () => {
+    expect(() => proveCapability(manifest(["a"]), { type: "tool", name: "b" })).toThrow("not in the manifest");
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Capabilities manifest - what an agent claims it can do
+ *
+ * The on-chain `capabilities_hash` is the SHA-256 (hex) of the manifest's
+ * canonical JSON (RFC 8785 / JCS): object keys sorted by UTF-16 code units,
+ * no insignificant whitespace, ECMAScript number formatting. `tools` and
+ * `permissions` are sets, so they are sorted and de-duplicated first.
+ * Reformatting or reordering a manifest never changes its hash.
+ *
+ * Format (version 1):
+ *   {
+ *     "version": 1,
+ *     "tools": ["web_search", "code_execution"],
+ *     "permissions": ["read:repo", "write:issues"],
+ *     "model": { "provider": "anthropic", "name": "claude-sonnet-4", "version": "20250514" },
+ *     "limits": { "requests_per_minute": 60, "max_tokens": 8192 }
+ *   }
+ *
+ * `model` and `limits` are optional; unknown keys are rejected.
+ *
+ * Merkle commitment (selective disclosure):
+ *   Instead of the flat hash, `capabilities_hash` may hold "merkle:<root hex>"
+ *   over one leaf per capability entry (each tool, permission, limit and the
+ *   model). A holder can then prove a single entry without revealing the rest.
+ *
+ *   salt  = HMAC-SHA256(key = canonical manifest, canonical entry)
+ *   leaf  = SHA-256(0x00 || salt || canonical entry)
+ *   node  = SHA-256(0x01 || min(a, b) || max(a, b))
+ *
+ *   Leaves are sorted before the tree is built and an unpaired node is
+ *   promoted unchanged, so proofs are a plain list of sibling hashes.
+ *   Salts are derived from the full manifest, so undisclosed entries cannot
+ *   be guessed from sibling hashes.
+ */
+
+import { createHash, createHmac } from "crypto";
+import { CliError, ERROR_CODES } from "./output";
+import { readJsonFile } from "./files";
+
+export const CAPABILITIES_MANIFEST_VERSION = 1;
+
+export interface CapabilitiesModel {
+  provider: string;
+  name: string;
+  version?: string;
+}
+
+export interface CapabilitiesManifest {
+  version: typeof CAPABILITIES_MANIFEST_VERSION;
+  tools: string[];
+  permissions: string[];
+  model?: CapabilitiesModel;
+  limits?: Record<string, number>;
+}
+
+/**
+ * Manifest hashed when an agent declares no capabilities
+ */
+export const EMPTY_CAPABILITIES_MANIFEST: CapabilitiesManifest = {
+  version: CAPABILITIES_MANIFEST_VERSION,
+  tools: [],
+  permissions: [],
+};
+
+const MANIFEST_KEYS = ["version", "tools", "permissions", "model", "limits"];
+const MODEL_KEYS = ["provider", "name", "version"];
+
+/**
+ * Validate a parsed manifest and normalize its sets (sorted, de-duplicated)
+ */
+export function parseCapabilitiesManifest(value: unknown): CapabilitiesManifest {
+  const errors: string[] = [];
+
+  if (!isPlainObject(value)) {
+    throw invalidManifest(["manifest must be a JSON object"]);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!MANIFEST_KEYS.includes(key)) errors.push(`unknown key "${key}"`);
+  }
+  if (value.version !== CAPABILITIES_MANIFEST_VERSION) {
+    errors.push(`"version" must be ${CAPABILITIES_MANIFEST_VERSION}`);
+  }
+  if (!isStringArray(value.tools)) errors.push(`"tools" must be an array of strings`);
+  if (!isStringArray(value.permissions)) errors.push(`"permissions" must be an array of strings`);
+
+  if (value.model !== undefined) {
+    const model = value.model;
+    if (!isPlainObject(model)) {
+      errors.push(`"model" must be an object`);
+    } else {
+      for (const key of Object.keys(model)) {
+        if (!MODEL_KEYS.includes(key)) errors.push(`unknown key "model.${key}"`);
+      }
+      if (typeof model.provider !== "string" || !model.provider) errors.push(`"model.provider" must be a non-empty string`);
+      if (typeof model.name !== "string" || !model.name) errors.push(`"model.name" must be a non-empty string`);
+      if (model.version !== undefined && typeof model.version !== "string") errors.push(`"model.version" must be a string`);
+    }
+  }
+
+  if (value.limits !== undefined) {
+    const limits = value.limits;
+    if (!isPlainObject(limits)) {
+      errors.push(`"limits" must be an object`);
+    } else {
+      for (const [key, limit] of Object.entries(limits)) {
+        if (typeof limit !== "number" || !Number.isFinite(limit) || limit < 0) {
+          errors.push(`"limits.${key}" must be a non-negative number`);
+        }
+      }
+    }
+  }
+
+  if (errors.length) {
+    throw invalidManifest(errors);
+  }
+
+  const manifest = value as unknown as CapabilitiesManifest;
+  return {
+    ...manifest,
+    tools: normalizeSet(manifest.tools),
+    permissions: normalizeSet(manifest.permissions),
+  };
+}
+
+/**
+ * Read, parse and validate a manifest file
+ */
+export async function loadCapabilitiesManifest(path: string): Promise<CapabilitiesManifest> {
+  return parseCapabilitiesManifest(await readJsonFile(path, `Capabilities manifest ${path}`));
+}
+
+/**
+ * SHA-256 (hex) of a manifest's canonical JSON
+ */
+export function hashCapabilities(manifest: CapabilitiesManifest): string {
+  return createHash("sha256").update(canonicalJson(manifest)).digest("hex");
+}
+
+/**
+ * Serialize a JSON value canonically (RFC 8785 / JCS)
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value === "boolean" || typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Cannot canonicalize non-finite number ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Cannot canonicalize value of type ${typeof value}`);
+}
+
+export const MERKLE_ROOT_PREFIX = "merkle:";
+export const CAPABILITY_PROOF_VERSION = 1;
+
+export type CapabilityEntry =
+  | { type: "tool"; name: string }
+  | { type: "permission"; name: string }
+  | { type: "limit"; name: string; value: number }
+  | ({ type: "model" } & CapabilitiesModel);
+
+/**
+ * Inclusion proof for one capability entry
+ */
+export interface CapabilityProof {
+  version: typeof CAPABILITY_PROOF_VERSION;
+  /** Attestation the proof was made against, if known */
+  attestation?: string;
+  /** "merkle:<hex>" root, as stored in `capabilities_hash` */
+  root: string;
+  entry: CapabilityEntry;
+  salt: string;
+  proof: string[];
+}
+
+const ENTRY_TYPES = ["tool", "permission", "limit", "model"];
+
+/**
+ * Whether an on-chain `capabilities_hash` is a Merkle root
+ */
+export function isMerkleCapabilitiesHash(hash: string): boolean {
+  return hash.startsWith(MERKLE_ROOT_PREFIX);
+}
+
+/**
+ * Split a manifest into individually provable entries
+ */
+export function capabilityEntries(manifest: CapabilitiesManifest): CapabilityEntry[] {
+  const entries: CapabilityEntry[] = [
+    ...manifest.tools.map(name => ({ type: "tool" as const, name })),
+    ...manifest.permissions.map(name => ({ type: "permission" as const, name })),
+    ...Object.entries(manifest.limits ?? {}).map(([name, value]) => ({ type: "limit" as const, name, value })),
+  ];
+  if (manifest.model) {
+    entries.push({ type: "model", ...manifest.model });
+  }
+  return entries;
+}
+
+/**
+ * Human-readable label for an entry, e.g. "tool:web_search" or "limit:max_tokens=8192"
+ */
+export function stringifyCapabilityEntry(entry: CapabilityEntry): string {
+  switch (entry.type) {
+    case "model":
+      return `model:${entry.provider}/${entry.name}${entry.version ? `@${entry.version}` : ""}`;
+    case "limit":
+      return `limit:${entry.name}=${entry.value}`;
+    default:
+      return `${entry.type}:${entry.name}`;
+  }
+}
+
+/**
+ * Merkle root ("merkle:<hex>") over a manifest's capability entries
+ */
+export function capabilitiesMerkleRoot(manifest: CapabilitiesManifest): string {
+  const leaves = merkleLeaves(manifest);
+  return MERKLE_ROOT_PREFIX + buildLayers(leaves.map(l => l.hash)).at(-1)![0].toString("hex");
+}
+
+/**
+ * Hash a manifest in the format of an on-chain `capabilities_hash` (flat or Merkle)
+ */
+export function hashCapabilitiesAs(manifest: CapabilitiesManifest, onChainHash: string | null): string {
+  return onChainHash && isMerkleCapabilitiesHash(onChainHash)
+    ? capabilitiesMerkleRoot(manifest)
+    : hashCapabilities(manifest);
+}
+
+/**
+ * Find an entry by selector: "tool:<name>", "permission:<name>", "limit:<name>",
+ * "model", or a bare name (must be unambiguous)
+ */
+export function findCapabilityEntry(manifest: CapabilitiesManifest, selector: string): CapabilityEntry {
+  const entries = capabilityEntries(manifest);
+  const [prefix, ...rest] = selector.split(":");
+  const matches = selector === "model"
+    ? entries.filter(e => e.type === "model")
+    : ENTRY_TYPES.includes(prefix) && rest.length
+      ? entries.filter(e => e.type === prefix && e.name === rest.join(":"))
+      : entries.filter(e => e.type !== "model" && e.name === selector);
+
+  if (matches.length === 0) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Capability "${selector}" is not in the manifest`);
+  }
+  if (matches.length > 1) {
+    const labels = matches.map(m => `${m.type}:${m.name}`);
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Capability "${selector}" is ambiguous`,
+      { matches: labels }, `Qualify it, e.g. ${labels.join(" or ")}`);
+  }
+  return matches[0];
+}
+
+/**
+ * Build an inclusion proof for one entry of a manifest
+ */
+export function proveCapability(manifest: CapabilitiesManifest, entry: CapabilityEntry): CapabilityProof {
+  const leaves = merkleLeaves(manifest);
+  const key = canonicalJson(entry);
+  const leaf = leaves.find(l => l.key === key);
+  if (!leaf) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Capability ${stringifyCapabilityEntry(entry)} is not in the manifest`);
+  }
+
+  const layers = buildLayers(leaves.map(l => l.hash));
+  const proof: string[] = [];
+  let index = layers[0].findIndex(h => h.equals(leaf.hash));
+  for (const layer of layers.slice(0, -1)) {
+    const sibling = layer[index ^ 1];
+    if (sibling) proof.push(sibling.toString("hex"));
+    index = Math.floor(index / 2);
+  }
+
+  return {
+    version: CAPABILITY_PROOF_VERSION,
+    root: MERKLE_ROOT_PREFIX + layers.at(-1)![0].toString("hex"),
+    entry,
+    salt: leaf.salt.toString("hex"),
+    proof,
+  };
+}
+
+/**
+ * Recompute the root from a proof (compare against the on-chain `capabilities_hash`)
+ */
+export function capabilityProofRoot(proof: CapabilityProof): string {
+  let hash = leafHash(proof.entry, Buffer.from(proof.salt, "hex"));
+  for (const sibling of proof.proof) {
+    hash = nodeHash(hash, Buffer.from(sibling, "hex"));
+  }
+  return MERKLE_ROOT_PREFIX + hash.toString("hex");
+}
+
+/**
+ * Validate a parsed proof file
+ */
+export function parseCapabilityProof(value: unknown): CapabilityProof {
+  const isHex = (v: unknown) => typeof v === "string" && /^([0-9a-f]{2})*$/i.test(v);
+  const entry = isPlainObject(value) ? value.entry : undefined;
+  const valid = isPlainObject(value)
+    && value.version === CAPABILITY_PROOF_VERSION
+    && typeof value.root === "string" && isMerkleCapabilitiesHash(value.root)
+    && (value.attestation === undefined || typeof value.attestation === "string")
+    && isHex(value.salt)
+    && Array.isArray(value.proof) && value.proof.every(isHex)
+    && isPlainObject(entry) && ENTRY_TYPES.includes(entry.type as string) && typeof entry.name === "string";
+
+  if (!valid) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Invalid capability proof file");
+  }
+  return value as unknown as CapabilityProof;
+}
+
+function merkleLeaves(manifest: CapabilitiesManifest): { key: string; salt: Buffer; hash: Buffer }[] {
+  const entries = capabilityEntries(manifest);
+  if (entries.length === 0) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Capabilities manifest has no entries to commit to");
+  }
+  const secret = canonicalJson(manifest);
+  return entries
+    .map(entry => {
+      const key = canonicalJson(entry);
+      const salt = createHmac("sha256", secret).update(key).digest();
+      return { key, salt, hash: leafHash(entry, salt) };
+    })
+    .sort((a, b) => Buffer.compare(a.hash, b.hash));
+}
+
+function buildLayers(leaves: Buffer[]): Buffer[][] {
+  const layers = [leaves];
+  while (layers.at(-1)!.length > 1) {
+    const layer = layers.at(-1)!;
+    const next: Buffer[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? nodeHash(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+function leafHash(entry: CapabilityEntry, salt: Buffer): Buffer {
+  return createHash("sha256").update(Buffer.from([0])).update(salt).update(canonicalJson(entry)).digest();
+}
+
+function nodeHash(a: Buffer, b: Buffer): Buffer {
+  const [left, right] = Buffer.compare(a, b) <= 0 ? [a, b] : [b, a];
+  return createHash("sha256").update(Buffer.from([1])).update(left).update(right).digest();
+}
+
+function normalizeSet(values: string[]): string[] {
+  return [...new Set(values)].sort();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+function invalidManifest(errors: string[]): CliError {
+  return new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid capabilities manifest: ${errors[0]}`, { errors });
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, test, setSystemTime } from "bun:test";
+import { generateKeyPairSigner, getBase58Decoder, type KeyPairSigner } from "@solana/kit";
+import {
+  CHALLENGE_CLOCK_SKEW_SECONDS,
+  CHALLENGE_DOMAIN,
+  MAX_CHALLENGE_TTL_SECONDS,
+  challengeMessage,
+  checkChallengeResponse,
+  createChallenge,
+  respondToChallenge,
+  type Challenge,
+} from "./challenge";
+import { canonicalJson } from "./capabilities";
+import { signMessageBytes } from "./signers";
+
+const START = new Date("2026-10-19T12:00:00Z");
+
+afterEach(() => {
+  setSystemTime();
+});
+
+/** Move the clock to `seconds` after START */
+function at(seconds: number) {
+  setSystemTime(new Date(START.getTime() + seconds * 1000));
+}
+
+async function signed(signer: KeyPairSigner, challenge: Challenge) {
+  at(0);
+  return respondToChallenge(challenge, signer);
+}
+
+describe("challengeMessage", () => {
+  test("prefixes the canonical challenge with the domain", () => {
+    at(0);
+    const challenge = createChallenge({ attestation: "attestation", audience: "partner.example" });
+    const message = new TextDecoder().decode(challengeMessage(challenge));
+    expect(message).toBe(`${CHALLENGE_DOMAIN}\n${canonicalJson(challenge)}`);
+  });
+
+  test("rejects a signature over the bare challenge", async () => {
+    at(0);
+    const signer = await generateKeyPairSigner();
+    const challenge = createChallenge();
+    const bare = await signMessageBytes(signer, new TextEncoder().encode(canonicalJson(challenge)));
+    const check = await checkChallengeResponse(
+      { challenge, signer: signer.address, signature: getBase58Decoder().decode(bare) },
+      challenge,
+    );
+    expect(check.signatureValid).toBe(false);
+    expect(check.errors).toContain("signature does not verify for the signer");
+  });
+});
+
+describe("checkChallengeResponse", () => {
+  test("accepts a fresh, pinned response", async () => {
+    const signer = await generateKeyPairSigner();
+    at(0);
+    const challenge = createChallenge({ ttlSeconds: 60 });
+    const response = await signed(signer, challenge);
+    at(30);
+    const check = await checkChallengeResponse(response, challenge);
+    expect(check).toEqual({ signer: signer.address, signatureValid: true, fresh: true, challengeMatches: true, errors: [] });
+  });
+
+  test("allows clock skew past expiry, then rejects", async () => {
+    const signer = await generateKeyPairSigner();
+    at(0);
+    const challenge = createChallenge({ ttlSeconds: 60 });
+    const response = await signed(signer, challenge);
+
+    at(60 + CHALLENGE_CLOCK_SKEW_SECONDS);
+    expect((await checkChallengeResponse(response, challenge)).fresh).toBe(true);
+
+    at(60 + CHALLENGE_CLOCK_SKEW_SECONDS + 1);
+    const check = await checkChallengeResponse(response, challenge);
+    expect(check.fresh).toBe(false);
+    expect(check.errors).toContain("challenge has expired");
+  });
+
+  test("allows clock skew before issue, then rejects", async () => {
+    const signer = await generateKeyPairSigner();
+    at(0);
+    const challenge = createChallenge({ ttlSeconds: 60 });
+    const response = await signed(signer, challenge);
+
+    at(-CHALLENGE_CLOCK_SKEW_SECONDS);
+    expect((await checkChallengeResponse(response, challenge)).fresh).toBe(true);
+
+    at(-CHALLENGE_CLOCK_SKEW_SECONDS - 1);
+    expect((await checkChallengeResponse(response, challenge)).errors).toContain("challenge is issued in the future");
+  });
+
+  test("rejects a response to a challenge with a different nonce", async () => {
+    const signer = await generateKeyPairSigner();
+    at(0);
+    const issued = createChallenge();
+    const response = await signed(signer, { ...issued, nonce: "0".repeat(64) });
+    const check = await checkChallengeResponse(response, issued);
+    expect(check.signatureValid).toBe(true);
+    expect(check.challengeMatches).toBe(false);
+    expect(check.errors).toContain("response is for a different challenge");
+  });
+
+  test("reports a response without the issued challenge as unpinned", async () => {
+    const signer = await generateKeyPairSigner();
+    at(0);
+    const response = await signed(signer, createChallenge());
+    const check = await checkChallengeResponse(response);
+    expect(check.challengeMatches).toBeNull();
+    expect(check.errors).toHaveLength(1);
+    expect(check.errors[0]).toStartWith("response is unpinned");
+  });
+
+  test("rejects a challenge that lives longer than the maximum TTL", async () => {
+    const signer = await generateKeyPairSigner();
+    at(0);
+    const challenge = {
+      ...createChallenge(),
+      expiresAt: new Date(START.getTime() + (MAX_CHALLENGE_TTL_SECONDS + 1) * 1000).toISOString(),
+    };
+    const check = await checkChallengeResponse(
+      { challenge, signer: signer.address, signature: getBase58Decoder().decode(await signMessageBytes(signer, challengeMessage(challenge))) },
+      challenge,
+    );
+    expect(check.fresh).toBe(false);
+    expect(check.errors).toContain(`challenge lifetime exceeds ${MAX_CHALLENGE_TTL_SECONDS} seconds`);
+  });
+});
+
+describe("TTL cap", () => {
+  test("createChallenge rejects a TTL above the maximum", () => {
+    at(0);
+    expect(() => createChallenge({ ttlSeconds: MAX_CHALLENGE_TTL_SECONDS + 1 })).toThrow("Invalid challenge TTL");
+    expect(createChallenge({ ttlSeconds: MAX_CHALLENGE_TTL_SECONDS }).expiresAt)
+      .toBe(new Date(START.getTime() + MAX_CHALLENGE_TTL_SECONDS * 1000).toISOString());
+  });
+
+  test("respond refuses to sign a long-lived challenge", async () => {
+    const signer = await generateKeyPairSigner();
+    at(0);
+    const challenge = { ...createChallenge(), expiresAt: new Date(START.getTime() + 24 * 60 * 60 * 1000).toISOString() };
+    await expect(respondToChallenge(challenge, signer)).rejects.toThrow("Refusing to sign");
+  });
+});
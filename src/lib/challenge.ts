@@ -0,0 +1,196 @@
+/**
+ * Challenge–response - prove control of the key behind an attestation
+ *
+ * 1. The verifier issues a challenge: a random nonce with an issue time,
+ *    an expiry and (optionally) the attestation and audience it is for.
+ * 2. The agent signs it with its wallet key (Ed25519).
+ * 3. The verifier checks the signature, the freshness window, that the
+ *    response answers the challenge it issued, and that the signer is the
+ *    attestation's `owner_pubkey` or the wallet holding its NFT.
+ *
+ * Challenges live at most MAX_CHALLENGE_TTL_SECONDS, and a response that is
+ * not checked against the issued challenge is rejected as unpinned: otherwise
+ * a response captured once could be replayed to any verifier until its
+ * (signer-chosen) expiry.
+ *
+ * The signed message is domain-separated so a response can never be replayed
+ * as a transaction or as a signature for another protocol:
+ *
+ *   "agent-proof:challenge:v1\n" + canonical JSON of the challenge
+ */
+
+import { randomBytes } from "crypto";
+import {
+  address,
+  getBase58Decoder,
+  getBase58Encoder,
+  getPublicKeyFromAddress,
+  verifySignature,
+  type Address,
+  type MessagePartialSigner,
+  type SignatureBytes,
+} from "@solana/kit";
+import { canonicalJson } from "./capabilities";
+import { signMessageBytes } from "./signers";
+import { CliError, ERROR_CODES } from "./output";
+
+export const CHALLENGE_DOMAIN = "agent-proof:challenge:v1";
+export const CHALLENGE_VERSION = 1;
+export const DEFAULT_CHALLENGE_TTL_SECONDS = 300;
+/** Longest lifetime (expiresAt - issuedAt) a challenge may have */
+export const MAX_CHALLENGE_TTL_SECONDS = 600;
+/** Clock skew tolerated between the verifier and the agent */
+export const CHALLENGE_CLOCK_SKEW_SECONDS = 30;
+
+export interface Challenge {
+  version: typeof CHALLENGE_VERSION;
+  domain: typeof CHALLENGE_DOMAIN;
+  /** 32 random bytes, hex */
+  nonce: string;
+  /** Attestation the agent is asked to prove control of */
+  attestation?: string;
+  /** Who issued the challenge (e.g. a hostname), bound into the signature */
+  audience?: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface ChallengeResponse {
+  challenge: Challenge;
+  signer: string;
+  /** Ed25519 signature over the domain-separated challenge, base58 */
+  signature: string;
+}
+
+export interface ResponseCheck {
+  signer: Address;
+  signatureValid: boolean;
+  fresh: boolean;
+  /** Whether the response answers the challenge the verifier issued (null if none given) */
+  challengeMatches: boolean | null;
+  errors: string[];
+}
+
+/**
+ * Create a fresh challenge
+ */
+export function createChallenge(options: { attestation?: string; audience?: string; ttlSeconds?: number } = {}): Challenge {
+  const ttl = options.ttlSeconds ?? DEFAULT_CHALLENGE_TTL_SECONDS;
+  if (!Number.isFinite(ttl) || ttl <= 0 || ttl > MAX_CHALLENGE_TTL_SECONDS) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid challenge TTL "${options.ttlSeconds}"`, undefined,
+      `Use at most ${MAX_CHALLENGE_TTL_SECONDS} seconds.`);
+  }
+  const now = Date.now();
+  return {
+    version: CHALLENGE_VERSION,
+    domain: CHALLENGE_DOMAIN,
+    nonce: randomBytes(32).toString("hex"),
+    ...(options.attestation ? { attestation: options.attestation } : {}),
+    ...(options.audience ? { audience: options.audience } : {}),
+    issuedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttl * 1000).toISOString(),
+  };
+}
+
+/**
+ * Bytes the agent signs for a challenge
+ */
+export function challengeMessage(challenge: Challenge): Uint8Array {
+  return new TextEncoder().encode(`${CHALLENGE_DOMAIN}\n${canonicalJson(challenge)}`);
+}
+
+/**
+ * Sign a challenge with a wallet key
+ */
+export async function respondToChallenge(challenge: Challenge, signer: MessagePartialSigner): Promise<ChallengeResponse> {
+  const freshness = checkFreshness(challenge);
+  if (freshness) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Refusing to sign: ${freshness}`);
+  }
+  const signature = await signMessageBytes(signer, challengeMessage(challenge));
+  return {
+    challenge,
+    signer: signer.address,
+    signature: getBase58Decoder().decode(signature),
+  };
+}
+
+/**
+ * Check a response's signature, freshness and pinning (ownership is checked by the caller)
+ *
+ * Without `issued` the response is reported as unpinned and invalid.
+ */
+export async function checkChallengeResponse(
+  response: ChallengeResponse,
+  issued?: Challenge,
+): Promise<ResponseCheck> {
+  const errors: string[] = [];
+  const signer = address(response.signer);
+
+  let signatureValid = false;
+  try {
+    const publicKey = await getPublicKeyFromAddress(signer);
+    const signature = getBase58Encoder().encode(response.signature) as SignatureBytes;
+    signatureValid = signature.length === 64
+      && await verifySignature(publicKey, signature, challengeMessage(response.challenge));
+  } catch {
+    // Malformed signature or key
+  }
+  if (!signatureValid) errors.push("signature does not verify for the signer");
+
+  const freshness = checkFreshness(response.challenge);
+  if (freshness) errors.push(freshness);
+
+  let challengeMatches: boolean | null = null;
+  if (issued) {
+    challengeMatches = canonicalJson(issued) === canonicalJson(response.challenge);
+    if (!challengeMatches) errors.push("response is for a different challenge");
+  } else {
+    errors.push("response is unpinned: not checked against the challenge you issued");
+  }
+
+  return { signer, signatureValid, fresh: !freshness, challengeMatches, errors };
+}
+
+/**
+ * Validate a parsed challenge
+ */
+export function parseChallenge(value: unknown): Challenge {
+  const v = value as Partial<Challenge> | null;
+  const valid = typeof v === "object" && v !== null
+    && v.version === CHALLENGE_VERSION
+    && v.domain === CHALLENGE_DOMAIN
+    && typeof v.nonce === "string" && /^[0-9a-f]{64}$/.test(v.nonce)
+    && (v.attestation === undefined || typeof v.attestation === "string")
+    && (v.audience === undefined || typeof v.audience === "string")
+    && typeof v.issuedAt === "string" && !Number.isNaN(Date.parse(v.issuedAt))
+    && typeof v.expiresAt === "string" && !Number.isNaN(Date.parse(v.expiresAt));
+  if (!valid) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Invalid challenge");
+  }
+  return value as Challenge;
+}
+
+/**
+ * Validate a parsed challenge response
+ */
+export function parseChallengeResponse(value: unknown): ChallengeResponse {
+  const v = value as Partial<ChallengeResponse> | null;
+  if (typeof v !== "object" || v === null || typeof v.signer !== "string" || typeof v.signature !== "string") {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Invalid challenge response");
+  }
+  return { challenge: parseChallenge(v.challenge), signer: v.signer, signature: v.signature };
+}
+
+function checkFreshness(challenge: Challenge): string | null {
+  const now = Date.now();
+  const skew = CHALLENGE_CLOCK_SKEW_SECONDS * 1000;
+  const issuedAt = Date.parse(challenge.issuedAt);
+  const expiresAt = Date.parse(challenge.expiresAt);
+  if (expiresAt - issuedAt > MAX_CHALLENGE_TTL_SECONDS * 1000) {
+    return `challenge lifetime exceeds ${MAX_CHALLENGE_TTL_SECONDS} seconds`;
+  }
+  if (issuedAt - skew > now) return "challenge is issued in the future";
+  if (expiresAt + skew < now) return "challenge has expired";
+  return null;
+}
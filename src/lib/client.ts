@@ -10,7 +10,7 @@ import {
   SolanaRpcApi,
   SolanaRpcSubscriptionsApi,
 } from "@solana/kit";
-import { CONFIG } from "./config.js";
+import { getActiveNetwork, deriveWssUrl } from "./profiles.js";
 
 export interface Client {
   rpc: Rpc<SolanaRpcApi>;
@@ -21,9 +21,10 @@ let _client: Client | null = null;
 
 export function getClient(): Client {
   if (!_client) {
+    const network = getActiveNetwork();
     _client = {
-      rpc: createSolanaRpc(CONFIG.RPC_URL),
-      rpcSubscriptions: createSolanaRpcSubscriptions(CONFIG.WSS_URL),
+      rpc: createSolanaRpc(network.rpcUrl),
+      rpcSubscriptions: createSolanaRpcSubscriptions(network.wssUrl),
     };
   }
   return _client;
@@ -33,7 +34,7 @@ export function setRpcUrl(url: string, wssUrl?: string): void {
   _client = {
     rpc: createSolanaRpc(url),
     rpcSubscriptions: createSolanaRpcSubscriptions(
-      wssUrl || url.replace("https://", "wss://").replace("http://", "ws://")
+      wssUrl || deriveWssUrl(url)
     ),
   };
 }
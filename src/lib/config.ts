@@ -5,10 +5,8 @@
 import type { Address } from "@solana/kit";
 
 export const CONFIG = {
-  // Network
-  RPC_URL: process.env.RPC_URL || "https://api.devnet.solana.com",
-  WSS_URL: process.env.WSS_URL || "wss://api.devnet.solana.com",
-  
+  // Network endpoints live in profiles.ts (~/.config/agent-proof/config.json)
+
   // Credential & Schema (set after deployment)
   CREDENTIAL_NAME: "AGENT-PROOF",
   SCHEMA_NAME: "AGENT-ID",
@@ -0,0 +1,140 @@
+/**
+ * Dry runs - what a command would cost, without sending anything
+ *
+ * `--dry-run` (init, attest, revoke, renew, create) builds the exact instructions the
+ * command would send, simulates them and reports compute units, base and
+ * priority fees, and the rent-exempt deposit of every account they create,
+ * against the fee payer's balance.
+ */
+
+import chalk from "chalk";
+import type { Ora } from "ora";
+import type { IInstruction } from "@solana/kit";
+import type { CostEstimate, NewAccount, SASClient } from "./sas-client";
+import { log, emit, CliError, ERROR_CODES } from "./output";
+
+/** Flag shared by commands that support --dry-run */
+export interface DryRunOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * What a dry run estimates
+ */
+export interface DryRunPlan {
+  /** What the command would do */
+  description: string;
+  instructions: IInstruction[];
+  newAccounts: NewAccount[];
+  /** Transactions the instructions go out in (init sends one per step) */
+  transactions?: number;
+  /** Rent returned by accounts the instructions close */
+  reclaimedLamports?: bigint;
+}
+
+/**
+ * Result emitted by `--dry-run` (init, attest, revoke, renew, create) in json/ndjson output modes
+ */
+export interface DryRunResult {
+  description: string;
+  transactions: number;
+  signatures: number;
+  /** null when simulation failed */
+  computeUnits: number | null;
+  /** Per transaction */
+  cuLimit: number;
+  priorityFeeMicroLamports: string;
+  baseFeeLamports: string;
+  /** cuLimit × priorityFeeMicroLamports for every transaction */
+  priorityFeeLamports: string;
+  accounts: { label: string; address: string; space: number; rentLamports: string }[];
+  rentLamports: string;
+  reclaimedLamports: string;
+  /** Fees plus rent, before anything reclaimed */
+  totalLamports: string;
+  balanceLamports: string;
+  /** How much the fee payer is short of totalLamports (0 when funded) */
+  shortfallLamports: string;
+  simulationError: string | null;
+}
+
+/**
+ * Estimate the cost of instructions and report it instead of sending them
+ */
+export async function dryRun(
+  spinner: Ora,
+  client: SASClient,
+  plan: DryRunPlan,
+  options: DryRunOptions & { signOnly?: boolean },
+): Promise<CostEstimate> {
+  if (options.signOnly) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "--dry-run and --sign-only can't be combined");
+  }
+
+  spinner.text = "Simulating...";
+  const estimate = await client.estimateCost(plan.instructions, plan.newAccounts, plan.transactions);
+  const reclaimed = plan.reclaimedLamports ?? 0n;
+  const shortfall = estimate.totalLamports > estimate.balanceLamports
+    ? estimate.totalLamports - estimate.balanceLamports
+    : 0n;
+
+  if (estimate.simulationError) {
+    spinner.warn("Dry run: simulation failed (nothing sent)");
+  } else {
+    spinner.succeed("Dry run complete (nothing sent)");
+  }
+
+  emit({
+    description: plan.description,
+    transactions: estimate.transactions,
+    signatures: estimate.signatures,
+    computeUnits: estimate.computeUnits,
+    cuLimit: estimate.cuLimit,
+    priorityFeeMicroLamports: estimate.priorityFeeMicroLamports.toString(),
+    baseFeeLamports: estimate.baseFeeLamports.toString(),
+    priorityFeeLamports: estimate.priorityFeeLamports.toString(),
+    accounts: estimate.accounts.map(a => ({
+      label: a.label,
+      address: a.address,
+      space: a.space,
+      rentLamports: a.rentLamports.toString(),
+    })),
+    rentLamports: estimate.rentLamports.toString(),
+    reclaimedLamports: reclaimed.toString(),
+    totalLamports: estimate.totalLamports.toString(),
+    balanceLamports: estimate.balanceLamports.toString(),
+    shortfallLamports: shortfall.toString(),
+    simulationError: estimate.simulationError,
+  } satisfies DryRunResult);
+
+  log(chalk.cyan("\n🧮 Dry Run"));
+  log(chalk.gray("─".repeat(50)));
+  log(`Action:       ${chalk.white(plan.description)}`);
+  log(`Compute:      ${estimate.computeUnits === null
+    ? chalk.yellow(`unknown (priced at the ${estimate.cuLimit.toLocaleString()} CU limit)`)
+    : `${chalk.magenta(estimate.computeUnits.toLocaleString())} CU (limit ${estimate.cuLimit.toLocaleString()})`}`);
+  log(`Base fee:     ${sol(estimate.baseFeeLamports)} ${chalk.gray(`(${estimate.signatures} signature${estimate.signatures === 1 ? "" : "s"} × ${estimate.transactions} txn${estimate.transactions === 1 ? "" : "s"})`)}`);
+  log(`Priority fee: ${sol(estimate.priorityFeeLamports)} ${chalk.gray(`(${estimate.priorityFeeMicroLamports} micro-lamports/CU`
+    + `${estimate.transactions > 1 ? ` × ${estimate.cuLimit.toLocaleString()} CU × ${estimate.transactions} txns` : ""})`)}`);
+  for (const account of estimate.accounts) {
+    log(`Rent:         ${sol(account.rentLamports)} ${chalk.gray(`${account.label} (${account.space} bytes)`)}`);
+  }
+  if (reclaimed > 0n) {
+    log(`Reclaimed:    ${chalk.green(`-${(Number(reclaimed) / 1e9).toFixed(6)} SOL`)} ${chalk.gray("(closed accounts' rent)")}`);
+  }
+  log(chalk.gray("─".repeat(50)));
+  log(`Total:        ${chalk.white(`${(Number(estimate.totalLamports) / 1e9).toFixed(6)} SOL`)}`);
+  log(`Balance:      ${shortfall > 0n
+    ? chalk.red(`${(Number(estimate.balanceLamports) / 1e9).toFixed(6)} SOL (short ${(Number(shortfall) / 1e9).toFixed(6)} SOL)`)
+    : chalk.green(`${(Number(estimate.balanceLamports) / 1e9).toFixed(6)} SOL`)}`);
+  log(chalk.gray("─".repeat(50)));
+  if (estimate.simulationError) {
+    log(chalk.yellow(`Simulation failed: ${estimate.simulationError}`));
+  }
+
+  return estimate;
+}
+
+function sol(lamports: bigint): string {
+  return chalk.white(`${(Number(lamports) / 1e9).toFixed(6)} SOL`);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { formatExpiry, parseDuration, parseExpiry } from "./expiry";
+
+const DAY = 24 * 60 * 60;
+
+describe("parseDuration", () => {
+  test.each([
+    ["90m", 90 * 60],
+    ["12h", 12 * 60 * 60],
+    ["30d", 30 * DAY],
+    ["2w", 14 * DAY],
+    ["1y", 365 * DAY],
+    ["7", 7 * DAY],
+    ["1.5h", 90 * 60],
+    ["0.5d", DAY / 2],
+    [" 12 H ", 12 * 60 * 60],
+    ["0", 0],
+  ])("%p is %i seconds", (value, seconds) => {
+    expect(parseDuration(value, "--within")).toBe(seconds);
+  });
+
+  test("rounds to whole seconds", () => {
+    expect(parseDuration("0.0001m", "--within")).toBe(0);
+    expect(parseDuration("0.01m", "--within")).toBe(1);
+  });
+
+  test.each(["", "d", "30 days", "-1d", "1e3d", "3s", ".5d", "1,5d", "never"])("rejects %p", value => {
+    expect(() => parseDuration(value, "--within")).toThrow(`Invalid --within "${value}"`);
+  });
+});
+
+describe("parseExpiry", () => {
+  test.each(["never", "none", "0", " NEVER "])("%p never expires", value => {
+    expect(parseExpiry(value)).toBeNull();
+  });
+
+  test("returns fractional days", () => {
+    expect(parseExpiry("365d")).toBe(365);
+    expect(parseExpiry("12h")).toBe(0.5);
+    expect(parseExpiry("90m")).toBe(90 / (24 * 60));
+    expect(parseExpiry("2.5")).toBe(2.5);
+  });
+
+  test.each(["0d", "0.0", "0h"])("rejects the zero duration %p", value => {
+    expect(() => parseExpiry(value)).toThrow("must be positive");
+  });
+
+  test("names the flag in errors, --expiry by default", () => {
+    expect(() => parseExpiry("soon")).toThrow(`Invalid --expiry "soon"`);
+    expect(() => parseExpiry("soon", "--within")).toThrow(`Invalid --within "soon"`);
+  });
+});
+
+describe("formatExpiry", () => {
+  test("formats seconds as ISO, and 0 as never", () => {
+    expect(formatExpiry(1_790_000_000n)).toBe("2026-09-21T14:13:20.000Z");
+    expect(formatExpiry(0n)).toBeNull();
+    expect(formatExpiry(0)).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Expiry - durations for `--expiry` / `--within`, and finding attestations about to lapse
+ *
+ * Durations are a number with a unit: `90m`, `12h`, `30d`, `2w`, `1y` (365
+ * days). A bare number is days. `never` (or `none`, `0`) is a non-expiring
+ * attestation, stored on-chain as expiry 0.
+ */
+
+import { fetchAllMaybeToken } from "@solana-program/token-2022";
+import type { Address } from "@solana/kit";
+import { CliError, ERROR_CODES } from "./output";
+import {
+  decodeAttestations,
+  findAttestations,
+  type AttestationFilter,
+  type AttestationRecord,
+  type AttestationRpc,
+} from "./attestations";
+
+export const DEFAULT_EXPIRY = "365d";
+export const DEFAULT_EXPIRING_WITHIN = "30d";
+
+const UNIT_SECONDS: Record<string, number> = {
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+  y: 365 * 24 * 60 * 60,
+};
+
+/**
+ * Parse a duration to seconds
+ */
+export function parseDuration(value: string, flag: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([mhdwy]?)$/.exec(value.trim().toLowerCase());
+  if (!match) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid ${flag} "${value}"`,
+      undefined, "Use a number with a unit: 90m, 12h, 30d, 2w or 1y (a bare number is days).");
+  }
+  return Math.round(Number(match[1]) * UNIT_SECONDS[match[2] || "d"]);
+}
+
+/**
+ * Parse an attestation lifetime to days (fractional), or null for non-expiring
+ */
+export function parseExpiry(value: string, flag = "--expiry"): number | null {
+  if (["never", "none", "0"].includes(value.trim().toLowerCase())) {
+    return null;
+  }
+  const seconds = parseDuration(value, flag);
+  if (seconds <= 0) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid ${flag} "${value}": must be positive, or "never"`);
+  }
+  return seconds / (24 * 60 * 60);
+}
+
+/**
+ * ISO expiry of an on-chain timestamp (null when it never expires)
+ */
+export function formatExpiry(expiry: bigint | number): string | null {
+  return Number(expiry) > 0 ? new Date(Number(expiry) * 1000).toISOString() : null;
+}
+
+export interface ExpiringAttestation {
+  record: AttestationRecord;
+  /** Current holder of the proof NFT, null if it was burned */
+  holder: Address | null;
+  /** Seconds until expiry (negative once expired) */
+  expiresIn: number;
+}
+
+/**
+ * Find attestations that expire within a window, soonest first
+ *
+ * Already expired attestations are included unless `includeExpired` is false;
+ * non-expiring ones never are.
+ */
+export async function findExpiringAttestations(
+  rpc: AttestationRpc,
+  filter: AttestationFilter,
+  withinSeconds: number,
+  options: { includeExpired?: boolean } = {},
+): Promise<ExpiringAttestation[]> {
+  const now = Math.floor(Date.now() / 1000);
+  const deadline = BigInt(now + withinSeconds);
+  const candidates = (await findAttestations(rpc, filter)).filter(({ attestation }) =>
+    attestation.expiry > 0n
+    && attestation.expiry <= deadline
+    && (options.includeExpired !== false || attestation.expiry > BigInt(now)));
+  if (candidates.length === 0) return [];
+
+  const records = await decodeAttestations(rpc, candidates);
+  const tokens = await fetchAllMaybeToken(rpc, records.map(r => r.attestation.tokenAccount));
+  return records
+    .map((record, i) => ({
+      record,
+      holder: tokens[i].exists ? tokens[i].data.owner : null,
+      expiresIn: Number(record.expiry) - now,
+    }))
+    .sort((a, b) => a.expiresIn - b.expiresIn);
+}
@@ -0,0 +1,66 @@
+/**
+ * Priority fees - compute unit price for transactions we send
+ *
+ * Set with `--priority-fee` or the profile's `priorityFee` field:
+ *
+ *   auto            75th percentile of the non-zero fees recent blocks required
+ *   max             Highest fee a recent block required (for heavy congestion)
+ *   <microlamports> Fixed price per compute unit
+ *
+ * Estimates come from getRecentPrioritizationFees (the last ~150 blocks) and
+ * are capped at MAX_ESTIMATED_PRIORITY_FEE; a fixed price is used as given.
+ * Quiet clusters (devnet, localnet) estimate 0 and pay no priority fee.
+ */
+
+import type { GetRecentPrioritizationFeesApi, MicroLamports, Rpc } from "@solana/kit";
+import { CliError, ERROR_CODES } from "./output";
+
+export type PriorityFee =
+  | { mode: "auto" | "max" }
+  | { mode: "fixed"; microLamports: MicroLamports };
+
+export const DEFAULT_PRIORITY_FEE = "auto";
+
+/** Ceiling for estimates: 0.0004 SOL on a 200k CU transaction */
+export const MAX_ESTIMATED_PRIORITY_FEE = 2_000_000n as MicroLamports;
+
+const AUTO_PERCENTILE = 0.75;
+
+/**
+ * Parse a priority fee setting
+ */
+export function parsePriorityFee(value: string): PriorityFee {
+  if (value === "auto" || value === "max") {
+    return { mode: value };
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid priority fee "${value}". Expected auto, max or micro-lamports per CU`);
+  }
+  return { mode: "fixed", microLamports: BigInt(value) as MicroLamports };
+}
+
+/**
+ * Resolve a priority fee setting to a price per compute unit
+ */
+export async function estimatePriorityFee(
+  rpc: Rpc<GetRecentPrioritizationFeesApi>,
+  fee: PriorityFee,
+): Promise<MicroLamports> {
+  if (fee.mode === "fixed") {
+    return fee.microLamports;
+  }
+
+  const recent = await rpc.getRecentPrioritizationFees().send();
+  const paid = recent
+    .map(r => r.prioritizationFee)
+    .filter(f => f > 0n)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  if (paid.length === 0) {
+    return 0n as MicroLamports;
+  }
+
+  const estimate = fee.mode === "max"
+    ? paid[paid.length - 1]
+    : paid[Math.min(paid.length - 1, Math.floor(paid.length * AUTO_PERCENTILE))];
+  return (estimate < MAX_ESTIMATED_PRIORITY_FEE ? estimate : MAX_ESTIMATED_PRIORITY_FEE) as MicroLamports;
+}
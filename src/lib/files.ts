@@ -0,0 +1,17 @@
+/**
+ * File helpers shared by commands that read JSON documents
+ */
+
+import { CliError, ERROR_CODES } from "./output";
+
+/**
+ * Read and parse a JSON file, reporting malformed JSON as INVALID_ARGUMENT
+ */
+export async function readJsonFile(path: string, label = path): Promise<unknown> {
+  const text = await Bun.file(path).text();
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${label} is not valid JSON: ${error.message}`);
+  }
+}
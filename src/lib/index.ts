@@ -1,3 +1,15 @@
 export * from "./client.js";
 export * from "./config.js";
 export * from "./transaction.js";
+export * from "./attestations.js";
+export * from "./profiles.js";
+export * from "./output.js";
+export * from "./middleware.js";
+export * from "./signers.js";
+export * from "./offline.js";
+export * from "./fees.js";
+export * from "./plan.js";
+export * from "./cost.js";
+export * from "./expiry.js";
+export * from "./watch.js";
+export * from "./webhook.js";
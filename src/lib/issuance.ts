@@ -0,0 +1,80 @@
+/**
+ * Issuance helpers shared by `attest` and `attest-batch`
+ */
+
+import type { Address } from "@solana/kit";
+import type { SASClient } from "./sas-client";
+import { CliError, ERROR_CODES } from "./output";
+import {
+  AGENT_SCHEMA_NAME,
+  AGENT_SCHEMA_LATEST_VERSION,
+  AGENT_SCHEMA_VERSIONS,
+  migrateAgentAttestationData,
+  type AgentAttestationData,
+  type AgentAttestationDataV2,
+  type AgentDeploymentDetails,
+} from "../schemas/agent";
+
+export interface AgentIdentityFields extends Partial<AgentDeploymentDetails> {
+  agent_name: string;
+  agent_type: string;
+  platform: string;
+  owner_pubkey: string;
+  capabilities_hash: string;
+}
+
+/**
+ * Pick the schema to attest under: an explicit version, or the newest that exists on-chain
+ */
+export async function resolveAgentSchema(
+  client: SASClient,
+  credential: Address,
+  requested?: string,
+): Promise<{ schema: Address; version: number }> {
+  if (requested) {
+    const version = Number(requested);
+    if (!AGENT_SCHEMA_VERSIONS[version]) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Unknown schema version "${requested}". Known: ${Object.keys(AGENT_SCHEMA_VERSIONS).join(", ")}`);
+    }
+    return { schema: await client.deriveSchemaAddress(credential, AGENT_SCHEMA_NAME, version), version };
+  }
+
+  const latest = await client.findLatestSchema(credential, AGENT_SCHEMA_NAME, AGENT_SCHEMA_LATEST_VERSION);
+  if (!latest) {
+    throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, `No ${AGENT_SCHEMA_NAME} schema found under credential ${credential}`,
+      undefined, "Run `agent-proof init` first.");
+  }
+  return latest;
+}
+
+/**
+ * Fail unless the client's key may issue under the credential
+ */
+export async function assertAuthorizedSigner(
+  client: SASClient,
+  credential: Address,
+  credentialName: string,
+): Promise<void> {
+  const { authority, signers } = await client.getCredentialSigners(credential);
+  if (!signers.includes(client.getAuthority())) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${client.getAuthority()} is not an authorized signer of ${credentialName}`,
+      { credential, authority }, `The credential authority can run: agent-proof credential signers add ${client.getAuthority()}`);
+  }
+}
+
+/**
+ * Build AgentIdentity data for a schema version (v2+ gets deployment details)
+ */
+export function buildAgentIdentityData(
+  fields: AgentIdentityFields,
+  schemaVersion: number,
+): AgentAttestationData | AgentAttestationDataV2 {
+  const { model_version, endpoint_url, framework_version, ...v1 } = fields;
+  const baseData: AgentAttestationData = {
+    ...v1,
+    created_at: BigInt(Math.floor(Date.now() / 1000)),
+  };
+  return schemaVersion >= 2
+    ? migrateAgentAttestationData(baseData, { model_version, endpoint_url, framework_version })
+    : baseData;
+}
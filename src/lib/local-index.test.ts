@@ -0,0 +1,169 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test, setSystemTime } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  addEncoderSizePrefix,
+  getAddressDecoder,
+  getArrayEncoder,
+  getBase58Decoder,
+  getU32Encoder,
+  getUtf8Encoder,
+  type Address,
+  type Rpc,
+  type SolanaRpcApi,
+} from "@solana/kit";
+import {
+  getAttestationEncoder,
+  getCredentialEncoder,
+  getSchemaEncoder,
+  serializeAttestationData,
+  SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS,
+  type Schema,
+} from "sas-lib";
+import { AttestationIndex, type QueryCondition } from "./local-index";
+import { SCHEMA_DISCRIMINATOR } from "./attestations";
+import { AGENT_SCHEMA_FIELD_NAMES, AGENT_SCHEMA_LAYOUT, AGENT_SCHEMA_NAME } from "../schemas/agent";
+
+const SLOT = 1_000n;
+const JAN_2026 = 1_767_225_600;
+const FEB_2026 = 1_769_904_000;
+
+/** A distinct, deterministic address per seed */
+const addr = (seed: number) => getAddressDecoder().decode(new Uint8Array(32).fill(seed));
+const utf8 = (text: string) => getUtf8Encoder().encode(text);
+
+const CREDENTIAL = addr(1);
+const SCHEMA = addr(2);
+
+const schema: Schema = {
+  discriminator: SCHEMA_DISCRIMINATOR,
+  credential: CREDENTIAL,
+  name: utf8(AGENT_SCHEMA_NAME),
+  description: utf8(""),
+  layout: AGENT_SCHEMA_LAYOUT,
+  fieldNames: getArrayEncoder(addEncoderSizePrefix(getUtf8Encoder(), getU32Encoder()), { size: "remainder" })
+    .encode(AGENT_SCHEMA_FIELD_NAMES),
+  isPaused: false,
+  version: 1,
+};
+
+/** [agent name, address seed, created_at, expiry] */
+const AGENTS: [string, number, number, number][] = [
+  ["100%_bot", 10, JAN_2026, 0],
+  ["1000 bot", 11, JAN_2026, FEB_2026],
+  ["back\\slash", 12, FEB_2026, JAN_2026],
+  ["plain", 13, FEB_2026, FEB_2026 + 1],
+];
+
+function attestationAccount([name, seed, createdAt, expiry]: typeof AGENTS[number]): Uint8Array {
+  return Uint8Array.from(getAttestationEncoder().encode({
+    discriminator: 2,
+    nonce: addr(seed + 100),
+    credential: CREDENTIAL,
+    schema: SCHEMA,
+    data: serializeAttestationData(schema, {
+      agent_name: name,
+      agent_type: "custom",
+      platform: "custom",
+      owner_pubkey: addr(seed + 100),
+      capabilities_hash: "",
+      created_at: BigInt(createdAt),
+    }),
+    signer: CREDENTIAL,
+    expiry: BigInt(expiry),
+    tokenAccount: addr(seed + 50),
+  }));
+}
+
+/** Serves a credential, its schema and AGENTS to a full sync; every other account is missing */
+function fakeRpc(): Rpc<SolanaRpcApi> {
+  const encoded = (data: Uint8Array) => ({
+    owner: SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS,
+    data: [Buffer.from(data).toString("base64"), "base64"],
+  });
+  const credential = getCredentialEncoder().encode({
+    discriminator: 0, authority: CREDENTIAL, name: utf8("issuer"), authorizedSigners: [CREDENTIAL],
+  });
+  const schemaAccounts = [{ pubkey: SCHEMA, account: encoded(Uint8Array.from(getSchemaEncoder().encode(schema))) }];
+  const attestationAccounts = AGENTS.map(agent => ({ pubkey: addr(agent[1]), account: encoded(attestationAccount(agent)) }));
+  const schemaDiscriminator = getBase58Decoder().decode(new Uint8Array([SCHEMA_DISCRIMINATOR]));
+
+  const methods = {
+    getSignaturesForAddress: () => [],
+    getAccountInfo: () => ({ context: { slot: SLOT }, value: encoded(Uint8Array.from(credential)) }),
+    getProgramAccounts: (_program: Address, config: { filters: { memcmp: { bytes: string } }[] }) => ({
+      context: { slot: SLOT },
+      value: config.filters[0].memcmp.bytes === schemaDiscriminator ? schemaAccounts : attestationAccounts,
+    }),
+    getMultipleAccounts: (addresses: Address[]) => ({ context: { slot: SLOT }, value: addresses.map(() => null) }),
+  };
+  return new Proxy(methods, {
+    get: (target, method: keyof typeof methods) => (...args: never[]) => ({
+      send: async () => (target[method] as (...args: never[]) => unknown)(...args),
+    }),
+  }) as unknown as Rpc<SolanaRpcApi>;
+}
+
+let dir: string;
+let index: AttestationIndex;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "agent-proof-index-"));
+  index = AttestationIndex.open({ create: true, path: join(dir, "index.sqlite") });
+  await index.sync(fakeRpc(), CREDENTIAL);
+});
+
+afterAll(async () => {
+  index.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+/** Agent names matching the conditions, alphabetically */
+function names(...conditions: QueryCondition[]): string[] {
+  return index.query(conditions).map(a => a.record.data!.agent_name as string).sort();
+}
+
+describe("AttestationIndex.query", () => {
+  test("stores decoded fields as columns", () => {
+    expect(index.queryFields()).toEqual(expect.arrayContaining(["agent_name", "created_at", "expiry", "holder"]));
+    expect(names()).toEqual(["100%_bot", "1000 bot", "back\\slash", "plain"]);
+  });
+
+  test("matches % and _ literally in a substring match", () => {
+    expect(names({ field: "agent_name", operator: "~", value: "100%" })).toEqual(["100%_bot"]);
+    expect(names({ field: "agent_name", operator: "~", value: "_" })).toEqual(["100%_bot"]);
+    expect(names({ field: "agent_name", operator: "~", value: "0 " })).toEqual(["1000 bot"]);
+  });
+
+  test("matches a backslash literally", () => {
+    expect(names({ field: "agent_name", operator: "~", value: "\\" })).toEqual(["back\\slash"]);
+    expect(names({ field: "agent_name", operator: "~", value: "k\\s" })).toEqual(["back\\slash"]);
+  });
+
+  test("compares integer columns to unix seconds and ISO dates", () => {
+    expect(names({ field: "created_at", operator: ">", value: String(JAN_2026) })).toEqual(["back\\slash", "plain"]);
+    expect(names({ field: "created_at", operator: ">=", value: "2026-02-01" })).toEqual(["back\\slash", "plain"]);
+    expect(names({ field: "created_at", operator: "<", value: "2026-02-01T00:00:00Z" })).toEqual(["100%_bot", "1000 bot"]);
+  });
+
+  test("compares integer columns to now", () => {
+    setSystemTime(new Date(FEB_2026 * 1000));
+    expect(names(
+      { field: "expiry", operator: "!=", value: "0" },
+      { field: "expiry", operator: "<=", value: "now" },
+    )).toEqual(["1000 bot", "back\\slash"]);
+  });
+
+  test("rejects an integer condition that is not a number, date or now", () => {
+    expect(() => names({ field: "expiry", operator: "<", value: "soon" })).toThrow(`Invalid value "soon" for expiry`);
+  });
+
+  test.each(["nope", "account", "data"])("rejects the field %p", field => {
+    expect(() => names({ field, operator: "=", value: "x" })).toThrow(`Unknown field "${field}"`);
+  });
+});
@@ -0,0 +1,647 @@
+/**
+ * Local attestation index - a SQLite copy of SAS accounts for queries and offline reads
+ *
+ * `index sync` copies the credentials, schemas and attestations of the
+ * configured credentials into ~/.config/agent-proof/index/<profile>.sqlite.
+ * Raw account data is kept, so offline reads decode exactly like live ones,
+ * and each attestation's decoded fields are also stored as columns (one per
+ * schema field name) so `query` can filter on them.
+ *
+ * Sync is incremental: each credential records the slot and newest signature
+ * it was synced at. Every transaction that creates, closes or tokenizes under
+ * a credential includes the credential account, so the next sync lists the
+ * credential's transactions since that signature, re-reads only the accounts
+ * they touched and marks attestations that are gone as closed at the sync
+ * slot. Burning or moving a proof NFT does not touch the credential, so every
+ * incremental sync also re-reads the token accounts of open attestations to
+ * keep `holder` current. A first sync, `--full`, or a backlog too long to
+ * replay reads every account with getProgramAccounts instead.
+ */
+
+import { Database } from "bun:sqlite";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  getBase64Encoder,
+  type Address,
+  type Rpc,
+  type Signature,
+  type SolanaRpcApi,
+} from "@solana/kit";
+import {
+  deriveAttestationMintPda,
+  deriveSchemaMintPda,
+  getAttestationDecoder,
+  getCredentialDecoder,
+  getSchemaDecoder,
+  SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS,
+  type Attestation,
+  type Schema,
+} from "sas-lib";
+import { getTokenDecoder, TOKEN_2022_PROGRAM_ADDRESS } from "@solana-program/token-2022";
+import {
+  ATTESTATION_DISCRIMINATOR,
+  CREDENTIAL_DISCRIMINATOR,
+  SCHEMA_DISCRIMINATOR,
+  attestationFilters,
+  decodeWithSchemas,
+  schemaFilters,
+  type AttestationRecord,
+} from "./attestations";
+import type { AttestationSnapshot } from "./bundle";
+import { CONFIG_PATH, getActiveNetwork } from "./profiles";
+import { CliError, ERROR_CODES, stringify } from "./output";
+import { getSchemaName, resolveSchemaDecoder } from "../schemas/registry";
+
+/** Bumped when the table layout changes (older files must be re-synced) */
+const INDEX_VERSION = 1;
+/** Beyond this many new transactions, a full re-read is cheaper than a replay */
+const MAX_REPLAY_TRANSACTIONS = 500;
+const SIGNATURE_PAGE_SIZE = 1000;
+const MULTIPLE_ACCOUNTS_LIMIT = 100;
+
+const TABLES = `
+CREATE TABLE IF NOT EXISTS credentials (
+  address TEXT PRIMARY KEY,
+  authority TEXT NOT NULL,
+  name TEXT NOT NULL,
+  account BLOB NOT NULL,
+  slot INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS schemas (
+  address TEXT PRIMARY KEY,
+  credential TEXT NOT NULL,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  paused INTEGER NOT NULL,
+  tokenized INTEGER NOT NULL,
+  account BLOB NOT NULL,
+  slot INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS attestations (
+  address TEXT PRIMARY KEY,
+  credential TEXT NOT NULL,
+  schema TEXT NOT NULL,
+  signer TEXT NOT NULL,
+  token_account TEXT NOT NULL,
+  mint TEXT NOT NULL,
+  holder TEXT,
+  expiry INTEGER NOT NULL,
+  decoder TEXT,
+  data TEXT,
+  account BLOB NOT NULL,
+  slot INTEGER NOT NULL,
+  closed_slot INTEGER
+);
+CREATE INDEX IF NOT EXISTS attestations_credential ON attestations (credential);
+CREATE INDEX IF NOT EXISTS attestations_holder ON attestations (holder);
+CREATE TABLE IF NOT EXISTS sync_state (
+  credential TEXT PRIMARY KEY,
+  slot INTEGER NOT NULL,
+  signature TEXT,
+  synced_at TEXT NOT NULL
+);
+`;
+
+/** Attestation columns that aren't schema fields (a field with one of these names gets no column) */
+const FIXED_COLUMNS = [
+  "address", "credential", "schema", "signer", "token_account", "mint", "holder",
+  "expiry", "decoder", "data", "account", "slot", "closed_slot",
+];
+
+export const QUERY_OPERATORS = ["!=", ">=", "<=", "=", ">", "<", "~"] as const;
+export type QueryOperator = typeof QUERY_OPERATORS[number];
+
+export interface QueryCondition {
+  field: string;
+  operator: QueryOperator;
+  value: string;
+}
+
+export interface SyncReport {
+  credential: Address;
+  mode: "full" | "incremental";
+  /** Slot the index reflects for this credential */
+  slot: bigint;
+  /** Transactions replayed (incremental syncs) */
+  transactions: number;
+  schemas: number;
+  attestations: number;
+  closed: number;
+}
+
+export interface IndexedAttestation {
+  record: AttestationRecord;
+  /** Wallet holding the proof NFT when last synced, null if it was burned */
+  holder: Address | null;
+  /** Slot the attestation was last read at */
+  slot: bigint;
+  /** Slot a sync found it closed at, null while it exists */
+  closedSlot: bigint | null;
+}
+
+export interface IndexedSchema {
+  address: Address;
+  schema: Schema;
+  version: number;
+  tokenized: boolean;
+}
+
+interface RawAccount {
+  address: Address;
+  data: Uint8Array;
+}
+
+interface AttestationRow {
+  address: string;
+  holder: string | null;
+  account: Uint8Array;
+  slot: number;
+  closed_slot: number | null;
+}
+
+/**
+ * Path of the active profile's index (AGENT_PROOF_INDEX overrides it)
+ */
+export function getIndexPath(): string {
+  return process.env.AGENT_PROOF_INDEX
+    || path.join(path.dirname(CONFIG_PATH), "index", `${getActiveNetwork().profile}.sqlite`);
+}
+
+export class AttestationIndex {
+  private columns: Map<string, string> | null = null;
+
+  private constructor(private readonly db: Database, readonly path: string) {}
+
+  /**
+   * Open the index; without `create`, a missing file is an error (nothing synced yet)
+   */
+  static open(options: { create?: boolean; path?: string } = {}): AttestationIndex {
+    const file = options.path ?? getIndexPath();
+    if (!fs.existsSync(file)) {
+      if (!options.create) {
+        throw new CliError(ERROR_CODES.FILE_NOT_FOUND, `No local index at ${file}`, undefined,
+          "Run `agent-proof index sync` first.");
+      }
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+
+    const db = new Database(file, { create: true });
+    const { user_version: version } = db.query("PRAGMA user_version").get() as { user_version: number };
+    if (version !== 0 && version !== INDEX_VERSION) {
+      db.close();
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Local index ${file} has an unsupported layout (v${version})`,
+        undefined, "Delete it and run `agent-proof index sync` again.");
+    }
+    db.exec(TABLES);
+    db.exec(`PRAGMA user_version = ${INDEX_VERSION}`);
+    return new AttestationIndex(db, file);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Credentials that have been synced at least once
+   */
+  syncedCredentials(): Address[] {
+    return this.db.query("SELECT credential FROM sync_state ORDER BY credential").all()
+      .map(row => (row as { credential: Address }).credential);
+  }
+
+  /**
+   * Slot and time a credential was last synced at (null if never)
+   */
+  syncState(credential: Address): { slot: bigint; signature: Signature | null; syncedAt: string } | null {
+    const row = this.db.query("SELECT slot, signature, synced_at FROM sync_state WHERE credential = ?")
+      .get(credential) as { slot: number; signature: Signature | null; synced_at: string } | null;
+    return row ? { slot: BigInt(row.slot), signature: row.signature, syncedAt: row.synced_at } : null;
+  }
+
+  /**
+   * Bring a credential up to date: replay its new transactions, or re-read everything
+   */
+  async sync(rpc: Rpc<SolanaRpcApi>, credential: Address, options: { full?: boolean } = {}): Promise<SyncReport> {
+    const state = this.syncState(credential);
+    if (options.full || !state?.signature) {
+      return this.fullSync(rpc, credential);
+    }
+
+    const signatures: { signature: Signature; err: unknown }[] = [];
+    let before: Signature | undefined;
+    while (signatures.length <= MAX_REPLAY_TRANSACTIONS) {
+      const page = await rpc
+        .getSignaturesForAddress(credential, { until: state.signature, before, limit: SIGNATURE_PAGE_SIZE })
+        .send();
+      signatures.push(...page);
+      if (page.length < SIGNATURE_PAGE_SIZE) break;
+      before = page[page.length - 1].signature;
+    }
+    if (signatures.length > MAX_REPLAY_TRANSACTIONS) {
+      return this.fullSync(rpc, credential);
+    }
+    if (signatures.length === 0) {
+      const slot = await this.refreshHolders(rpc, credential);
+      this.saveSyncState(credential, slot, state.signature);
+      return { credential, mode: "incremental", slot, transactions: 0, schemas: 0, attestations: 0, closed: 0 };
+    }
+
+    // Every account the new transactions touched; only SAS accounts are kept
+    const touched = new Set<Address>();
+    for (const { signature, err } of signatures) {
+      if (err) continue;
+      const transaction = await rpc
+        .getTransaction(signature, { encoding: "json", maxSupportedTransactionVersion: 0 })
+        .send();
+      if (!transaction) continue;
+      for (const key of transaction.transaction.message.accountKeys) touched.add(key);
+      for (const key of transaction.meta?.loadedAddresses?.writable ?? []) touched.add(key);
+    }
+
+    const { slot, accounts } = await fetchRawAccounts(rpc, [...touched], SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS);
+    const open = new Set(this.openAttestations(credential));
+    const closed = [...touched].filter((address, i) => open.has(address) && !accounts[i]);
+    const stored = await this.store(rpc, credential, accounts.filter((a): a is RawAccount => a !== null), closed, slot);
+    await this.refreshHolders(rpc, credential);
+    this.saveSyncState(credential, slot, signatures[0].signature);
+    return { credential, mode: "incremental", slot, transactions: signatures.length, ...stored };
+  }
+
+  /**
+   * Attestations matching a filter, newest first
+   */
+  attestations(
+    filter: { credential?: Address; schema?: Address; holder?: Address },
+    options: { includeClosed?: boolean } = {},
+  ): IndexedAttestation[] {
+    return this.query([
+      ...(filter.credential ? [{ field: "credential", operator: "=" as const, value: filter.credential }] : []),
+      ...(filter.schema ? [{ field: "schema", operator: "=" as const, value: filter.schema }] : []),
+      ...(filter.holder ? [{ field: "holder", operator: "=" as const, value: filter.holder }] : []),
+    ], options);
+  }
+
+  /**
+   * Attestations whose columns match every condition, newest first
+   *
+   * Integer columns (expiry, created_at, ...) take unix seconds, an ISO date
+   * or `now`; `~` is a substring match.
+   */
+  query(
+    conditions: QueryCondition[],
+    options: { includeClosed?: boolean; limit?: number } = {},
+  ): IndexedAttestation[] {
+    const columns = this.getColumns();
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    for (const { field, operator, value } of conditions) {
+      const type = columns.get(field);
+      if (!type || field === "account" || field === "data") {
+        throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Unknown field "${field}"`, undefined,
+          `Fields: ${this.queryFields().join(", ")}`);
+      }
+      if (operator === "~") {
+        // Match % and _ literally
+        where.push(`"${field}" LIKE ? ESCAPE '\\'`);
+        params.push(`%${value.replace(/[\\%_]/g, "\\$&")}%`);
+      } else {
+        where.push(`"${field}" ${operator} ?`);
+        params.push(type === "INTEGER" ? integerValue(field, value) : value);
+      }
+    }
+    if (!options.includeClosed) {
+      where.push("closed_slot IS NULL");
+    }
+
+    const rows = this.db.query(
+      `SELECT address, holder, account, slot, closed_slot FROM attestations`
+      + (where.length ? ` WHERE ${where.join(" AND ")}` : "")
+      + ` ORDER BY slot DESC, address`
+      + (options.limit ? ` LIMIT ${Math.floor(options.limit)}` : ""),
+    ).all(...params) as AttestationRow[];
+    return this.toIndexed(rows);
+  }
+
+  /**
+   * Columns `query` can filter on (fixed columns, then schema fields)
+   */
+  queryFields(): string[] {
+    return [...this.getColumns().keys()].filter(c => c !== "account" && c !== "data");
+  }
+
+  /**
+   * Attestation state as last synced, for `verify --offline`
+   */
+  snapshot(attestation: Address): { snapshot: AttestationSnapshot; slot: bigint; syncedAt: string } {
+    const row = this.db.query(
+      "SELECT a.address, a.holder, a.account, a.slot, a.closed_slot, a.mint, a.credential, s.synced_at "
+      + "FROM attestations a JOIN sync_state s ON s.credential = a.credential WHERE a.address = ?",
+    ).get(attestation) as (AttestationRow & { mint: Address; credential: Address; synced_at: string }) | null;
+    if (!row) {
+      throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, "Attestation is not in the local index", { attestation },
+        "Add its credential to indexCredentials and run `agent-proof index sync`.");
+    }
+    if (row.closed_slot !== null) {
+      throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, `Attestation was closed (found at slot ${row.closed_slot})`,
+        { attestation, closedSlot: String(row.closed_slot) });
+    }
+
+    const decoded = getAttestationDecoder().decode(row.account);
+    const schemaRow = this.db.query("SELECT account FROM schemas WHERE address = ?")
+      .get(decoded.schema) as { account: Uint8Array } | null;
+    if (!schemaRow) {
+      throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, "Attestation's schema is not in the local index",
+        { schema: decoded.schema }, "Run `agent-proof index sync --full`.");
+    }
+    const credentialRow = this.db.query("SELECT account FROM credentials WHERE address = ?")
+      .get(decoded.credential) as { account: Uint8Array } | null;
+
+    const schema = getSchemaDecoder().decode(schemaRow.account);
+    const decoder = resolveSchemaDecoder(schema, decoded.schema);
+    return {
+      snapshot: {
+        address: attestation,
+        attestation: decoded,
+        schema,
+        credential: credentialRow ? getCredentialDecoder().decode(credentialRow.account) : null,
+        decoder,
+        data: decoder.decode(schema, decoded.data as Uint8Array) as Record<string, unknown>,
+        tokenMint: row.holder ? row.mint : null,
+        holder: row.holder as Address | null,
+      },
+      slot: BigInt(row.slot),
+      syncedAt: row.synced_at,
+    };
+  }
+
+  /**
+   * Whether a credential account has been indexed
+   */
+  hasCredential(credential: Address): boolean {
+    return this.db.query("SELECT 1 FROM credentials WHERE address = ?").get(credential) !== null;
+  }
+
+  /**
+   * Newest indexed version of a named schema under a credential
+   */
+  latestSchema(credential: Address, name: string): IndexedSchema | null {
+    const row = this.db.query(
+      "SELECT address, account, version, tokenized FROM schemas WHERE credential = ? AND name = ? ORDER BY version DESC LIMIT 1",
+    ).get(credential, name) as { address: Address; account: Uint8Array; version: number; tokenized: number } | null;
+    return row
+      ? { address: row.address, schema: getSchemaDecoder().decode(row.account), version: row.version, tokenized: row.tokenized === 1 }
+      : null;
+  }
+
+  private async fullSync(rpc: Rpc<SolanaRpcApi>, credential: Address): Promise<SyncReport> {
+    // Newest signature first: anything that lands during the reads is replayed next time
+    const [newest] = await rpc.getSignaturesForAddress(credential, { limit: 1 }).send();
+    const { context, value: credentialAccount } = await rpc
+      .getAccountInfo(credential, { encoding: "base64" })
+      .send();
+    if (!credentialAccount || credentialAccount.owner !== SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS) {
+      throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, `No credential found at ${credential}`);
+    }
+    const schemas = await rpc
+      .getProgramAccounts(SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS, {
+        encoding: "base64",
+        filters: schemaFilters(credential),
+        withContext: true,
+      })
+      .send();
+    const attestations = await rpc
+      .getProgramAccounts(SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS, {
+        encoding: "base64",
+        filters: attestationFilters({ credential }),
+        withContext: true,
+      })
+      .send();
+
+    const base64 = getBase64Encoder();
+    const accounts: RawAccount[] = [
+      { address: credential, data: Uint8Array.from(base64.encode(credentialAccount.data[0])) },
+      ...[...schemas.value, ...attestations.value].map(({ pubkey, account }) => ({
+        address: pubkey,
+        data: Uint8Array.from(base64.encode(account.data[0])),
+      })),
+    ];
+    const live = new Set(attestations.value.map(a => a.pubkey));
+    const closed = this.openAttestations(credential).filter(address => !live.has(address));
+    const slot = [context.slot, schemas.context.slot, attestations.context.slot].reduce((a, b) => a > b ? a : b);
+
+    const stored = await this.store(rpc, credential, accounts, closed, slot);
+    this.saveSyncState(credential, slot, newest?.signature ?? null);
+    return { credential, mode: "full", slot, transactions: 0, ...stored };
+  }
+
+  /**
+   * Decode SAS accounts of a credential and write them (plus closures) in one transaction
+   */
+  private async store(
+    rpc: Rpc<SolanaRpcApi>,
+    credential: Address,
+    accounts: RawAccount[],
+    closed: Address[],
+    slot: bigint,
+  ): Promise<{ schemas: number; attestations: number; closed: number }> {
+    const credentials: RawAccount[] = [];
+    const schemas: (RawAccount & { schema: Schema })[] = [];
+    const attestations: (RawAccount & { attestation: Attestation })[] = [];
+    for (const account of accounts) {
+      if (account.data[0] === CREDENTIAL_DISCRIMINATOR && account.address === credential) {
+        credentials.push(account);
+      } else if (account.data[0] === SCHEMA_DISCRIMINATOR) {
+        const schema = getSchemaDecoder().decode(account.data);
+        if (schema.credential === credential) schemas.push({ ...account, schema });
+      } else if (account.data[0] === ATTESTATION_DISCRIMINATOR) {
+        const attestation = getAttestationDecoder().decode(account.data);
+        if (attestation.credential === credential) attestations.push({ ...account, attestation });
+      }
+    }
+
+    // Schema mints (tokenized or not) and proof NFT holders
+    const schemaMints = await Promise.all(schemas.map(async s => (await deriveSchemaMintPda({ schema: s.address }))[0]));
+    const { accounts: schemaMintAccounts } = await fetchRawAccounts(rpc, schemaMints);
+    const { accounts: tokenAccounts } = await fetchRawAccounts(rpc, attestations.map(a => a.attestation.tokenAccount),
+      TOKEN_2022_PROGRAM_ADDRESS);
+    const holders = tokenAccounts.map(tokenHolder);
+    const mints = await Promise.all(attestations.map(async a => (await deriveAttestationMintPda({ attestation: a.address }))[0]));
+
+    const schemaMap = this.loadSchemas();
+    for (const { address, schema } of schemas) schemaMap.set(address, schema);
+    const records = decodeWithSchemas(attestations, schemaMap);
+    for (const record of records) {
+      if (record.data) this.ensureColumns(record.data);
+    }
+
+    const write = this.db.transaction(() => {
+      for (const { address, data } of credentials) {
+        const decoded = getCredentialDecoder().decode(data);
+        this.db.query("INSERT OR REPLACE INTO credentials VALUES (?, ?, ?, ?, ?)")
+          .run(address, decoded.authority, new TextDecoder().decode(Uint8Array.from(decoded.name)), data, slot);
+      }
+      schemas.forEach(({ address, data, schema }, i) => {
+        this.db.query("INSERT OR REPLACE INTO schemas VALUES (?, ?, ?, ?, ?, ?, ?, ?)")
+          .run(address, schema.credential, getSchemaName(schema), schema.version, schema.isPaused ? 1 : 0,
+            schemaMintAccounts[i] ? 1 : 0, data, slot);
+      });
+      records.forEach((record, i) => {
+        const fields = Object.entries(record.data ?? {}).filter(([name]) => this.getColumns().has(name) && !FIXED_COLUMNS.includes(name));
+        const columns = ["address", "credential", "schema", "signer", "token_account", "mint", "holder",
+          "expiry", "decoder", "data", "account", "slot", "closed_slot", ...fields.map(([name]) => name)];
+        this.db.query(
+          `INSERT OR REPLACE INTO attestations (${columns.map(c => `"${c}"`).join(", ")}) `
+          + `VALUES (${columns.map(() => "?").join(", ")})`,
+        ).run(
+          record.address,
+          record.attestation.credential,
+          record.attestation.schema,
+          record.attestation.signer,
+          record.attestation.tokenAccount,
+          mints[i],
+          holders[i],
+          record.expiry,
+          record.decoder?.id ?? null,
+          record.data ? stringify(record.data) : null,
+          attestations[i].data,
+          slot,
+          null,
+          ...fields.map(([, value]) => columnValue(value)),
+        );
+      });
+      for (const address of closed) {
+        this.db.query("UPDATE attestations SET closed_slot = ? WHERE address = ? AND closed_slot IS NULL").run(slot, address);
+      }
+    });
+    write();
+
+    return { schemas: schemas.length, attestations: records.length, closed: closed.length };
+  }
+
+  /**
+   * Re-read the proof NFT token accounts of a credential's open attestations and update their holders
+   */
+  private async refreshHolders(rpc: Rpc<SolanaRpcApi>, credential: Address): Promise<bigint> {
+    const rows = this.db.query("SELECT address, token_account FROM attestations WHERE credential = ? AND closed_slot IS NULL")
+      .all(credential) as { address: Address; token_account: Address }[];
+    const { slot, accounts } = await fetchRawAccounts(rpc, rows.map(row => row.token_account), TOKEN_2022_PROGRAM_ADDRESS);
+    const write = this.db.transaction(() => {
+      rows.forEach((row, i) => {
+        this.db.query("UPDATE attestations SET holder = ? WHERE address = ?").run(tokenHolder(accounts[i]), row.address);
+      });
+    });
+    write();
+    return slot;
+  }
+
+  private openAttestations(credential: Address): Address[] {
+    return this.db.query("SELECT address FROM attestations WHERE credential = ? AND closed_slot IS NULL")
+      .all(credential)
+      .map(row => (row as { address: Address }).address);
+  }
+
+  private loadSchemas(): Map<Address, Schema> {
+    const rows = this.db.query("SELECT address, account FROM schemas").all() as { address: Address; account: Uint8Array }[];
+    return new Map(rows.map(row => [row.address, getSchemaDecoder().decode(row.account)]));
+  }
+
+  private saveSyncState(credential: Address, slot: bigint, signature: Signature | null): void {
+    this.db.query("INSERT OR REPLACE INTO sync_state VALUES (?, ?, ?, ?)")
+      .run(credential, slot, signature, new Date().toISOString());
+  }
+
+  private toIndexed(rows: AttestationRow[]): IndexedAttestation[] {
+    const decoder = getAttestationDecoder();
+    const records = decodeWithSchemas(
+      rows.map(row => ({ address: row.address as Address, attestation: decoder.decode(row.account) })),
+      this.loadSchemas(),
+    );
+    return records.map((record, i) => ({
+      record,
+      holder: rows[i].holder as Address | null,
+      slot: BigInt(rows[i].slot),
+      closedSlot: rows[i].closed_slot === null ? null : BigInt(rows[i].closed_slot),
+    }));
+  }
+
+  private getColumns(): Map<string, string> {
+    if (!this.columns) {
+      const rows = this.db.query("PRAGMA table_info(attestations)").all() as { name: string; type: string }[];
+      this.columns = new Map(rows.map(row => [row.name, row.type.toUpperCase()]));
+    }
+    return this.columns;
+  }
+
+  /**
+   * Add a column for every decoded field not seen before, typed from its value
+   */
+  private ensureColumns(data: Record<string, unknown>): void {
+    const columns = this.getColumns();
+    for (const [name, value] of Object.entries(data)) {
+      if (columns.has(name) || FIXED_COLUMNS.includes(name) || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) continue;
+      const type = typeof value === "bigint" || typeof value === "boolean" || Number.isInteger(value) ? "INTEGER"
+        : typeof value === "number" ? "REAL"
+        : "TEXT";
+      this.db.exec(`ALTER TABLE attestations ADD COLUMN "${name}" ${type}`);
+      columns.set(name, type);
+    }
+  }
+}
+
+/**
+ * Read raw accounts in batches, with the lowest context slot (null for missing
+ * accounts, or accounts of another program when `owner` is given)
+ */
+async function fetchRawAccounts(
+  rpc: Rpc<SolanaRpcApi>,
+  addresses: Address[],
+  owner?: Address,
+): Promise<{ slot: bigint; accounts: (RawAccount | null)[] }> {
+  const base64 = getBase64Encoder();
+  const accounts: (RawAccount | null)[] = [];
+  let slot: bigint | null = null;
+  for (let i = 0; i < addresses.length; i += MULTIPLE_ACCOUNTS_LIMIT) {
+    const batch = addresses.slice(i, i + MULTIPLE_ACCOUNTS_LIMIT);
+    const { context, value } = await rpc.getMultipleAccounts(batch, { encoding: "base64" }).send();
+    slot = slot === null || context.slot < slot ? context.slot : slot;
+    value.forEach((account, j) => {
+      accounts.push(account && (!owner || account.owner === owner) ? { address: batch[j], data: Uint8Array.from(base64.encode(account.data[0])) } : null);
+    });
+  }
+  return { slot: slot ?? await rpc.getSlot().send(), accounts };
+}
+
+/**
+ * Wallet holding a proof NFT token account (null if missing or emptied)
+ */
+function tokenHolder(account: RawAccount | null): Address | null {
+  if (!account) return null;
+  const token = getTokenDecoder().decode(account.data);
+  return token.amount > 0n ? token.owner : null;
+}
+
+/**
+ * SQLite value for a decoded field
+ */
+function columnValue(value: unknown): string | number | bigint | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number" || typeof value === "string") return value;
+  return stringify(value);
+}
+
+/**
+ * Unix seconds (or other integer) for a condition on an integer column
+ */
+function integerValue(field: string, value: string): number {
+  if (value === "now") return Math.floor(Date.now() / 1000);
+  if (/^-?\d+$/.test(value)) return Number(value);
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid value "${value}" for ${field}`, undefined,
+      "Use a number, an ISO date (2026-01-31 or 2026-01-31T12:00:00Z) or `now`.");
+  }
+  return Math.floor(time / 1000);
+}
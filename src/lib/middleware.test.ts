@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import {
+  generateKeyPairSigner,
+  getBase58Encoder,
+  verifySignature,
+  type GetAccountInfoApi,
+  type KeyPairSigner,
+  type Rpc,
+  type SignatureBytes,
+} from "@solana/kit";
+import {
+  AGENT_REQUEST_DOMAIN,
+  AGENT_SIGNATURE_HEADER,
+  agentRequestMessage,
+  createAgentGate,
+  formatAgentSignatureHeader,
+  parseAgentSignatureHeader,
+  signAgentRequest,
+} from "./middleware";
+
+const ATTESTATION = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+
+function post(path: string, body: string): Request {
+  return new Request(`https://api.example${path}`, { method: "POST", body });
+}
+
+/** Verify a header the way the gate does, against the request as received */
+async function verifies(signer: KeyPairSigner, header: string, received: Request): Promise<boolean> {
+  const parsed = parseAgentSignatureHeader(header)!;
+  const message = await agentRequestMessage(received, parsed);
+  const signature = getBase58Encoder().encode(parsed.signature) as SignatureBytes;
+  return verifySignature(signer.keyPair.publicKey, signature, message);
+}
+
+describe("Agent-Signature header", () => {
+  test("round-trips through format and parse", () => {
+    const header = { attestation: ATTESTATION, timestamp: 1_790_000_000, signature: "5sig=" };
+    expect(parseAgentSignatureHeader(formatAgentSignatureHeader(header))).toEqual(header);
+  });
+
+  test.each([
+    [null],
+    [""],
+    [`attestation=${ATTESTATION}, timestamp=1790000000`],
+    [`attestation=${ATTESTATION}, timestamp=soon, signature=abc`],
+    [`timestamp=1790000000, signature=abc`],
+  ])("rejects %p", value => {
+    expect(parseAgentSignatureHeader(value)).toBeNull();
+  });
+});
+
+describe("agentRequestMessage", () => {
+  test("covers domain, method, path and query, timestamp, attestation and body hash", async () => {
+    const message = new TextDecoder().decode(
+      await agentRequestMessage(post("/trade?dry=1", "{}"), { attestation: ATTESTATION, timestamp: 1_790_000_000 }),
+    );
+    expect(message.split("\n")).toEqual([
+      AGENT_REQUEST_DOMAIN,
+      "POST",
+      "/trade?dry=1",
+      "1790000000",
+      ATTESTATION,
+      // sha256("{}")
+      "44136fa355b3678a1146ad16f7e8649e94fb4fc21fe77e8310c060f61caaff8a",
+    ]);
+  });
+});
+
+describe("signAgentRequest", () => {
+  test("verifies for the same request", async () => {
+    const signer = await generateKeyPairSigner();
+    const header = await signAgentRequest(post("/trade", `{"qty":1}`), ATTESTATION, signer);
+    expect(await verifies(signer, header, post("/trade", `{"qty":1}`))).toBe(true);
+  });
+
+  test("does not verify for a tampered body", async () => {
+    const signer = await generateKeyPairSigner();
+    const header = await signAgentRequest(post("/trade", `{"qty":1}`), ATTESTATION, signer);
+    expect(await verifies(signer, header, post("/trade", `{"qty":100}`))).toBe(false);
+  });
+
+  test("does not verify for a tampered path or query", async () => {
+    const signer = await generateKeyPairSigner();
+    const header = await signAgentRequest(post("/trade?dry=1", "{}"), ATTESTATION, signer);
+    expect(await verifies(signer, header, post("/withdraw?dry=1", "{}"))).toBe(false);
+    expect(await verifies(signer, header, post("/trade?dry=0", "{}"))).toBe(false);
+  });
+
+  test("does not verify for a different timestamp", async () => {
+    const signer = await generateKeyPairSigner();
+    const header = parseAgentSignatureHeader(await signAgentRequest(post("/trade", "{}"), ATTESTATION, signer))!;
+    const replayed = formatAgentSignatureHeader({ ...header, timestamp: header.timestamp + 60 });
+    expect(await verifies(signer, replayed, post("/trade", "{}"))).toBe(false);
+  });
+});
+
+describe("createAgentGate", () => {
+  // Requests rejected before any lookup never reach the RPC
+  const rpc = new Proxy({}, {
+    get() {
+      throw new Error("unexpected RPC call");
+    },
+  }) as Rpc<GetAccountInfoApi>;
+  const gate = createAgentGate({ trustedCredentials: [ATTESTATION], rpc, maxSkewSeconds: 60 });
+
+  test("rejects a request without a signature", async () => {
+    const response = await gate(post("/trade", "{}"));
+    expect(response?.status).toBe(401);
+    expect((await response!.json()).error.code).toBe("AGENT_AUTH_REQUIRED");
+  });
+
+  test("rejects a stale timestamp", async () => {
+    const signer = await generateKeyPairSigner();
+    const request = post("/trade", "{}");
+    const timestamp = Math.floor(Date.now() / 1000) - 61;
+    request.headers.set(AGENT_SIGNATURE_HEADER, await signAgentRequest(request, ATTESTATION, signer, timestamp));
+    const response = await gate(request);
+    expect(response?.status).toBe(401);
+    expect((await response!.json()).error.code).toBe("STALE_REQUEST");
+  });
+
+  test("rejects a timestamp from the future", async () => {
+    const signer = await generateKeyPairSigner();
+    const request = post("/trade", "{}");
+    const timestamp = Math.floor(Date.now() / 1000) + 120;
+    request.headers.set(AGENT_SIGNATURE_HEADER, await signAgentRequest(request, ATTESTATION, signer, timestamp));
+    expect((await gate(request))?.status).toBe(401);
+  });
+});
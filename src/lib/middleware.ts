@@ -0,0 +1,308 @@
+/**
+ * Agent request gating - authenticate HTTP requests by agent attestation
+ *
+ * The agent signs each request with the wallet in its attestation's
+ * `owner_pubkey` and sends the result in one header:
+ *
+ *   Agent-Signature: attestation=<address>, timestamp=<unix seconds>, signature=<base58>
+ *
+ * The signed message is domain-separated like challenge responses:
+ *
+ *   "agent-proof:request:v1\n" + method + "\n" + path?query + "\n"
+ *     + timestamp + "\n" + attestation + "\n" + sha256(body) hex
+ *
+ * The server checks the signature, the timestamp window, and that the
+ * attestation is an AgentIdentity attestation from a trusted credential that
+ * passes every required `verify` check: not expired or paused, and its proof
+ * NFT intact and held by the owner_pubkey wallet. A signature can
+ * be replayed for the same method, path and body within the timestamp window;
+ * gate only idempotent operations, or deduplicate signatures, if that matters.
+ *
+ * Core:     createAgentGate(options) -> (Request) => Promise<Response | void>
+ * Fetch:    withAgentAuth(options, (request, agent) => Response)   (Bun.serve, Deno, workers)
+ * Hono:     app.use(honoAgentAuth(options)); c.get("agent")
+ * Express:  app.use(express.raw({ type: "*\/*" }), expressAgentAuth(options)); req.agent
+ */
+
+import { createHash } from "crypto";
+import {
+  address,
+  createSolanaRpc,
+  getBase58Decoder,
+  getBase58Encoder,
+  getPublicKeyFromAddress,
+  verifySignature,
+  type Address,
+  type GetAccountInfoApi,
+  type MessagePartialSigner,
+  type Rpc,
+  type SignatureBytes,
+} from "@solana/kit";
+import { AGENT_SCHEMA_NAME, type AgentAttestationData } from "../schemas/agent";
+import type { AttestationSnapshot } from "./bundle";
+import { failedChecks, fetchAttestationSnapshot, verifySnapshot, type VerificationReport } from "./verification";
+import { errorResponse } from "./server";
+import { signMessageBytes } from "./signers";
+import { toCliError, ERROR_CODES } from "./output";
+
+export const AGENT_SIGNATURE_HEADER = "Agent-Signature";
+export const AGENT_REQUEST_DOMAIN = "agent-proof:request:v1";
+export const DEFAULT_MAX_SKEW_SECONDS = 60;
+export const DEFAULT_ATTESTATION_CACHE_SECONDS = 30;
+
+export interface AgentAuthOptions {
+  /** Credentials whose attestations are accepted (anyone can create a credential) */
+  trustedCredentials: string[];
+  /** RPC URL (ignored when `rpc` is given) */
+  rpcUrl?: string;
+  rpc?: Rpc<GetAccountInfoApi>;
+  /** Accepted distance between the signed timestamp and the server clock */
+  maxSkewSeconds?: number;
+  /** How long a fetched attestation is reused before it is read again */
+  cacheSeconds?: number;
+}
+
+/**
+ * What a gated handler learns about the calling agent
+ */
+export interface AgentContext {
+  attestation: Address;
+  credential: Address;
+  /** owner_pubkey that signed the request */
+  signer: Address;
+  data: AgentAttestationData;
+  verification: VerificationReport;
+}
+
+export interface AgentSignatureHeader {
+  attestation: string;
+  timestamp: number;
+  signature: string;
+}
+
+const contexts = new WeakMap<Request, AgentContext>();
+
+/**
+ * Create the framework-agnostic gate: resolves to an error Response to send
+ * back, or to undefined when the request may proceed (see getAgentContext)
+ */
+export function createAgentGate(options: AgentAuthOptions): (request: Request) => Promise<Response | void> {
+  if (options.trustedCredentials.length === 0) {
+    throw new Error("createAgentGate requires at least one trusted credential");
+  }
+  const trusted = new Set(options.trustedCredentials.map(c => address(c)));
+  const rpc = options.rpc ?? createSolanaRpc(options.rpcUrl ?? "https://api.devnet.solana.com");
+  const maxSkew = options.maxSkewSeconds ?? DEFAULT_MAX_SKEW_SECONDS;
+  const cacheMs = (options.cacheSeconds ?? DEFAULT_ATTESTATION_CACHE_SECONDS) * 1000;
+  const snapshots = new Map<Address, { snapshot: AttestationSnapshot; fetchedAt: number }>();
+
+  const fetchSnapshot = async (attestation: Address): Promise<AttestationSnapshot> => {
+    const cached = snapshots.get(attestation);
+    if (cached && Date.now() - cached.fetchedAt < cacheMs) return cached.snapshot;
+    const snapshot = await fetchAttestationSnapshot(rpc, attestation, { withToken: true });
+    snapshots.set(attestation, { snapshot, fetchedAt: Date.now() });
+    return snapshot;
+  };
+
+  return async request => {
+    const header = parseAgentSignatureHeader(request.headers.get(AGENT_SIGNATURE_HEADER));
+    if (!header) {
+      return errorResponse(401, "AGENT_AUTH_REQUIRED", `Missing or malformed ${AGENT_SIGNATURE_HEADER} header`);
+    }
+    if (Math.abs(Date.now() / 1000 - header.timestamp) > maxSkew) {
+      return errorResponse(401, "STALE_REQUEST", "Request timestamp is outside the accepted window");
+    }
+
+    let attestation: Address;
+    try {
+      attestation = address(header.attestation);
+    } catch {
+      return errorResponse(401, ERROR_CODES.INVALID_ADDRESS, `Invalid attestation address "${header.attestation}"`);
+    }
+
+    let snapshot: AttestationSnapshot;
+    try {
+      snapshot = await fetchSnapshot(attestation);
+    } catch (error) {
+      const cliError = toCliError(error);
+      return cliError.code === ERROR_CODES.ACCOUNT_NOT_FOUND
+        ? errorResponse(403, cliError.code, "No attestation found at this address")
+        : errorResponse(502, cliError.code, cliError.message);
+    }
+
+    if (!trusted.has(snapshot.attestation.credential)) {
+      return errorResponse(403, "UNTRUSTED_CREDENTIAL", "Attestation was not issued by a trusted credential",
+        { credential: snapshot.attestation.credential });
+    }
+    if (snapshot.decoder.name !== AGENT_SCHEMA_NAME) {
+      return errorResponse(403, "UNSUPPORTED_SCHEMA", `Expected an ${AGENT_SCHEMA_NAME} attestation, got ${snapshot.decoder.id}`);
+    }
+    const verification = await verifySnapshot(snapshot);
+    if (!verification.valid) {
+      const failed = failedChecks(verification.checks);
+      return errorResponse(403, "ATTESTATION_INVALID", failed.map(c => c.message).join("; "),
+        { checks: failed.map(c => c.name) });
+    }
+
+    const data = snapshot.data as unknown as AgentAttestationData;
+    let signer: Address;
+    try {
+      signer = address(data.owner_pubkey);
+    } catch {
+      return errorResponse(403, "INVALID_SIGNATURE", "Attestation owner_pubkey is not an address");
+    }
+    const message = await agentRequestMessage(request, header);
+    if (!await verifyOwnerSignature(signer, header.signature, message)) {
+      return errorResponse(401, "INVALID_SIGNATURE", "Signature does not verify for the attestation's owner_pubkey");
+    }
+
+    contexts.set(request, { attestation, credential: snapshot.attestation.credential, signer, data, verification });
+  };
+}
+
+/**
+ * The agent that passed the gate for this request
+ */
+export function getAgentContext(request: Request): AgentContext | undefined {
+  return contexts.get(request);
+}
+
+/**
+ * Wrap a fetch-style handler so it only runs for authenticated agents
+ */
+export function withAgentAuth(
+  options: AgentAuthOptions,
+  handler: (request: Request, agent: AgentContext) => Response | Promise<Response>,
+): (request: Request) => Promise<Response> {
+  const gate = createAgentGate(options);
+  return async request => (await gate(request)) ?? handler(request, contexts.get(request)!);
+}
+
+/**
+ * Hono middleware; the context is available as `c.get("agent")`
+ */
+export function honoAgentAuth(options: AgentAuthOptions) {
+  const gate = createAgentGate(options);
+  return async (
+    c: { req: { raw: Request }; set: (key: "agent", value: AgentContext) => void },
+    next: () => Promise<void>,
+  ): Promise<Response | void> => {
+    const denied = await gate(c.req.raw);
+    if (denied) return denied;
+    c.set("agent", contexts.get(c.req.raw)!);
+    await next();
+  };
+}
+
+interface ExpressRequest {
+  method: string;
+  protocol: string;
+  originalUrl: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  agent?: AgentContext;
+}
+
+interface ExpressResponse {
+  status(code: number): ExpressResponse;
+  set(field: Record<string, string>): ExpressResponse;
+  send(body: string): unknown;
+}
+
+/**
+ * Express/Connect middleware; the context is available as `req.agent`
+ *
+ * The body must still be raw: mount `express.raw({ type: "*\/*" })` first
+ * (the signature covers the exact bytes sent).
+ */
+export function expressAgentAuth(options: AgentAuthOptions) {
+  const gate = createAgentGate(options);
+  return async (req: ExpressRequest, res: ExpressResponse, next: (error?: unknown) => void): Promise<void> => {
+    try {
+      const headers = new Headers();
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(", ") : value);
+      }
+      const body = req.body instanceof Uint8Array && !["GET", "HEAD"].includes(req.method) ? Uint8Array.from(req.body) : undefined;
+      const request = new Request(`${req.protocol}://${headers.get("host") ?? "localhost"}${req.originalUrl}`, {
+        method: req.method,
+        headers,
+        body,
+      });
+
+      const denied = await gate(request);
+      if (denied) {
+        res.status(denied.status).set({ "content-type": "application/json" }).send(await denied.text());
+        return;
+      }
+      req.agent = contexts.get(request);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Sign a request as an agent; returns the Agent-Signature header value
+ */
+export async function signAgentRequest(
+  request: Request,
+  attestation: string,
+  signer: MessagePartialSigner,
+  timestamp = Math.floor(Date.now() / 1000),
+): Promise<string> {
+  const message = await agentRequestMessage(request, { attestation, timestamp });
+  const signature = getBase58Decoder().decode(await signMessageBytes(signer, message));
+  return formatAgentSignatureHeader({ attestation, timestamp, signature });
+}
+
+/**
+ * Bytes the agent signs for a request
+ */
+export async function agentRequestMessage(
+  request: Request,
+  header: Pick<AgentSignatureHeader, "attestation" | "timestamp">,
+): Promise<Uint8Array> {
+  const url = new URL(request.url);
+  const body = new Uint8Array(await request.clone().arrayBuffer());
+  const bodyHash = createHash("sha256").update(body).digest("hex");
+  return new TextEncoder().encode([
+    AGENT_REQUEST_DOMAIN,
+    request.method.toUpperCase(),
+    url.pathname + url.search,
+    String(header.timestamp),
+    header.attestation,
+    bodyHash,
+  ].join("\n"));
+}
+
+export function formatAgentSignatureHeader(header: AgentSignatureHeader): string {
+  return `attestation=${header.attestation}, timestamp=${header.timestamp}, signature=${header.signature}`;
+}
+
+export function parseAgentSignatureHeader(value: string | null): AgentSignatureHeader | null {
+  if (!value) return null;
+  const fields = new Map(
+    value.split(",").map(part => {
+      const [key, ...rest] = part.trim().split("=");
+      return [key, rest.join("=")] as const;
+    }),
+  );
+  const attestation = fields.get("attestation");
+  const timestamp = Number(fields.get("timestamp"));
+  const signature = fields.get("signature");
+  if (!attestation || !signature || !Number.isInteger(timestamp)) return null;
+  return { attestation, timestamp, signature };
+}
+
+async function verifyOwnerSignature(signer: Address, signature: string, message: Uint8Array): Promise<boolean> {
+  try {
+    const publicKey = await getPublicKeyFromAddress(signer);
+    const bytes = getBase58Encoder().encode(signature) as SignatureBytes;
+    return bytes.length === 64 && await verifySignature(publicKey, bytes, message);
+  } catch {
+    // Malformed signature or key
+    return false;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Schema migration - re-issue an AgentIdentity attestation on a newer schema version
+ *
+ * SAS attestations cannot change schema in place. Migrating:
+ *   1. Decodes the old attestation with its schema's layout
+ *   2. Carries the data forward to the newest layout (new fields filled from options)
+ *   3. Mints a new tokenized attestation to the same holder, reusing the nonce
+ *      and the remaining expiry (or none, for an attestation that never expires)
+ *   4. Optionally closes the old attestation and burns its proof NFT
+ */
+
+import type { Address } from "@solana/kit";
+import { fetchAttestation, fetchSchema } from "sas-lib";
+import { fetchToken } from "@solana-program/token-2022";
+import type { SASClient } from "./sas-client";
+import { CliError, ERROR_CODES } from "./output";
+import { getSchemaName } from "../schemas/registry";
+import {
+  AGENT_SCHEMA_NAME,
+  AGENT_SCHEMA_LATEST_VERSION,
+  AGENT_TOKEN_METADATA,
+  agentIdentityDecoder,
+  migrateAgentAttestationData,
+  type AgentAttestationDataV2,
+  type AgentDeploymentDetails,
+} from "../schemas/agent";
+
+export interface MigrateOptions extends Partial<AgentDeploymentDetails> {
+  /** Close the old attestation once the new one is minted */
+  close?: boolean;
+}
+
+export interface MigrationResult {
+  from: { attestation: Address; schema: Address; version: number };
+  to: { attestation: Address; schema: Address; version: number; mint: Address };
+  holder: Address;
+  data: AgentAttestationDataV2;
+  /** 0 when the attestation never expires */
+  expiry: number;
+  signatures: { attest: string; close: string | null };
+}
+
+/**
+ * Re-issue an AgentIdentity attestation on the newest schema version under its credential
+ */
+export async function migrateAgentAttestation(
+  client: SASClient,
+  attestation: Address,
+  options: MigrateOptions = {},
+): Promise<MigrationResult> {
+  const rpc = client.getRpc();
+  const old = await fetchAttestation(rpc, attestation);
+  const oldSchema = await fetchSchema(rpc, old.data.schema);
+
+  if (getSchemaName(oldSchema.data) !== AGENT_SCHEMA_NAME) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Attestation is not an ${AGENT_SCHEMA_NAME} attestation`,
+      { schema: old.data.schema });
+  }
+
+  const { credential } = old.data;
+  const latest = await client.findLatestSchema(credential, AGENT_SCHEMA_NAME, AGENT_SCHEMA_LATEST_VERSION);
+  if (!latest || latest.version <= oldSchema.data.version) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT,
+      `Attestation is already on the newest schema version (v${oldSchema.data.version})`,
+      undefined,
+      "Run `agent-proof schema upgrade` to create a newer version first.");
+  }
+
+  // v1 fields are a prefix of every later version, so the v1 decoder reads them all
+  const data = migrateAgentAttestationData(
+    agentIdentityDecoder.decode(oldSchema.data, Uint8Array.from(old.data.data)),
+    options,
+  );
+
+  const token = await fetchToken(rpc, old.data.tokenAccount);
+  const holder = token.data.owner;
+
+  // Keep the remaining lifetime; an attestation that never expired still doesn't
+  const now = Date.now() / 1000;
+  const expiryDays = old.data.expiry > 0n
+    ? (Number(old.data.expiry) - now) / (24 * 60 * 60)
+    : null;
+  if (expiryDays !== null && expiryDays <= 0) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Attestation has expired; issue a new one instead of migrating");
+  }
+
+  const minted = await client.createTokenizedAttestation(
+    credential,
+    latest.schema,
+    holder,
+    old.data.nonce,
+    { ...data },
+    `${AGENT_TOKEN_METADATA.name}: ${data.agent_name}`,
+    AGENT_TOKEN_METADATA.symbol,
+    AGENT_TOKEN_METADATA.uri,
+    expiryDays,
+  );
+
+  const closed = options.close ? await client.closeTokenizedAttestation(attestation) : null;
+
+  return {
+    from: { attestation, schema: old.data.schema, version: oldSchema.data.version },
+    to: { attestation: minted.attestation, schema: latest.schema, version: latest.version, mint: minted.mint },
+    holder,
+    data,
+    expiry: minted.expiry,
+    signatures: { attest: minted.signature, close: closed?.signature ?? null },
+  };
+}
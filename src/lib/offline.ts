@@ -0,0 +1,334 @@
+/**
+ * Offline signing - partially signed transactions handed between signers
+ *
+ * `--sign-only` (init, attest, revoke) writes a transaction file instead of
+ * sending. Each required signer adds a signature with `agent-proof sign`
+ * (no network needed, so it works on an air-gapped machine) and anyone can
+ * submit the finished file with `agent-proof broadcast`.
+ *
+ * A file built on a recent blockhash must be broadcast within about a minute.
+ * Built with `--nonce <account>` it uses a durable nonce instead and stays
+ * valid until the nonce account is advanced.
+ */
+
+import chalk from "chalk";
+import type { Ora } from "ora";
+import {
+  address,
+  createNoopSigner,
+  createSolanaRpc,
+  createSolanaRpcSubscriptions,
+  getAddressDecoder,
+  getBase58Decoder,
+  getBase64EncodedWireTransaction,
+  getBase64Encoder,
+  getCompiledTransactionMessageDecoder,
+  getPublicKeyFromAddress,
+  getSignatureFromTransaction,
+  getTransactionDecoder,
+  sendAndConfirmDurableNonceTransactionFactory,
+  sendAndConfirmTransactionFactory,
+  verifySignature,
+  type Address,
+  type FullySignedTransaction,
+  type GetAccountInfoApi,
+  type IInstruction,
+  type Nonce,
+  type Rpc,
+  type Transaction,
+  type TransactionPartialSigner,
+} from "@solana/kit";
+import { COMPUTE_BUDGET_PROGRAM_ADDRESS } from "@solana-program/compute-budget";
+import { SAS_PROGRAM_ID, type DurableNonceConfig, type PreparedTransaction, type SASClient } from "./sas-client";
+import { getActiveNetwork } from "./profiles";
+import { log, emit, isTextOutput, CliError, ERROR_CODES } from "./output";
+
+export const TRANSACTION_FILE_VERSION = 1;
+
+const SYSTEM_PROGRAM_ADDRESS = "11111111111111111111111111111111";
+const KNOWN_PROGRAMS: Record<string, string> = {
+  [SAS_PROGRAM_ID]: "Solana Attestation Service",
+  [COMPUTE_BUDGET_PROGRAM_ADDRESS]: "Compute Budget",
+  [SYSTEM_PROGRAM_ADDRESS]: "System",
+};
+/** version u32, state u32, authority, nonce, lamports per signature u64 */
+const NONCE_ACCOUNT_SIZE = 80;
+const NONCE_STATE_INITIALIZED = 1;
+
+export type TransactionFileLifetime =
+  | { blockhash: string; lastValidBlockHeight: string }
+  | { nonce: string; nonceAccount: string };
+
+export interface TransactionFile {
+  version: typeof TRANSACTION_FILE_VERSION;
+  /** Profile it was built on (informational) */
+  network: string;
+  /** Genesis hash of the cluster it was built on, checked before broadcast */
+  cluster: string;
+  /** What the transaction does, for the people asked to sign it */
+  description: string;
+  /** Base64 wire transaction */
+  transaction: string;
+  lifetime: TransactionFileLifetime;
+}
+
+export interface TransactionSignerStatus {
+  address: string;
+  signed: boolean;
+}
+
+/** Flags shared by commands that support --sign-only */
+export interface SignOnlyOptions {
+  signOnly?: boolean;
+  feePayer?: string;
+  nonce?: string;
+  out?: string;
+}
+
+/**
+ * Result emitted by `--sign-only` (init, attest, revoke) in json/ndjson output modes
+ */
+export interface SignOnlyResult {
+  file: TransactionFile;
+  /** Where the file was written, null when printed to stdout */
+  out: string | null;
+  signers: TransactionSignerStatus[];
+}
+
+/**
+ * Fee payer for a --sign-only build (signs later), after checking the flags
+ */
+export function signOnlyFeePayer(options: SignOnlyOptions): TransactionPartialSigner | undefined {
+  if (!options.signOnly) {
+    const stray = (["feePayer", "nonce", "out"] as const).find(flag => options[flag]);
+    if (stray) {
+      const flag = stray.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `--${flag} only applies with --sign-only`);
+    }
+    return undefined;
+  }
+  if (!options.feePayer) return undefined;
+  try {
+    return createNoopSigner(address(options.feePayer));
+  } catch {
+    throw new CliError(ERROR_CODES.INVALID_ADDRESS, `Invalid --fee-payer "${options.feePayer}"`);
+  }
+}
+
+/**
+ * Build, partially sign and write out instructions instead of sending them
+ */
+export async function signOnly(
+  spinner: Ora,
+  client: SASClient,
+  instructions: IInstruction[],
+  description: string,
+  options: SignOnlyOptions,
+): Promise<SignOnlyResult> {
+  if (!client.fitsInTransaction(instructions)) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "Instructions don't fit in one transaction, so they can't be signed offline together");
+  }
+
+  spinner.text = "Signing transaction...";
+  const durableNonce = options.nonce
+    ? await fetchDurableNonce(client.getRpc(), address(options.nonce))
+    : undefined;
+  const transaction = await client.prepareTransaction(instructions, durableNonce);
+  const file = await createTransactionFile(transaction, description);
+  const signers = transactionSigners(transaction);
+  spinner.succeed("Transaction built (not sent)");
+
+  if (options.out) {
+    await writeTransactionFile(options.out, file);
+  } else if (isTextOutput()) {
+    console.log(JSON.stringify(file, null, 2));
+  }
+  const result = { file, out: options.out ?? null, signers } satisfies SignOnlyResult;
+  emit(result);
+
+  log(chalk.cyan("\n✍️  Partially Signed Transaction"));
+  log(chalk.gray("─".repeat(50)));
+  log(`Action:      ${chalk.white(description)}`);
+  log(`Lifetime:    ${"nonce" in file.lifetime
+    ? chalk.green(`durable nonce ${file.lifetime.nonceAccount}`)
+    : chalk.yellow("recent blockhash (broadcast within about a minute)")}`);
+  for (const signer of signers) {
+    log(`  ${signer.signed ? chalk.green("✓") : chalk.yellow("…")} ${signer.address}${signer.signed ? "" : chalk.gray(" (needs to sign)")}`);
+  }
+  log(chalk.gray("─".repeat(50)));
+  const path = options.out ?? "<file>";
+  if (signers.some(s => !s.signed)) {
+    log(chalk.gray(`Co-sign with: agent-proof sign ${path} -k <signer>`));
+  }
+  log(chalk.gray(`Submit with:  agent-proof broadcast ${path}`));
+  return result;
+}
+
+/**
+ * Read the current value and authority of a durable nonce account
+ */
+export async function fetchDurableNonce(
+  rpc: Rpc<GetAccountInfoApi>,
+  account: Address,
+): Promise<DurableNonceConfig> {
+  const { value } = await rpc.getAccountInfo(account, { encoding: "base64" }).send();
+  if (!value) {
+    throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, `Nonce account not found: ${account}`, undefined,
+      "Create one with: solana create-nonce-account <keypair> <amount>");
+  }
+  const data = Uint8Array.from(getBase64Encoder().encode(value.data[0]));
+  const state = data.length === NONCE_ACCOUNT_SIZE
+    ? new DataView(data.buffer).getUint32(4, true)
+    : undefined;
+  if (value.owner !== SYSTEM_PROGRAM_ADDRESS || state !== NONCE_STATE_INITIALIZED) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${account} is not an initialized nonce account`);
+  }
+  return {
+    nonceAccountAddress: account,
+    nonceAuthorityAddress: getAddressDecoder().decode(data.subarray(8, 40)),
+    nonce: getBase58Decoder().decode(data.subarray(40, 72)) as Nonce,
+  };
+}
+
+/**
+ * Wrap a prepared transaction in a transaction file
+ */
+export async function createTransactionFile(
+  transaction: PreparedTransaction,
+  description: string,
+): Promise<TransactionFile> {
+  const network = getActiveNetwork();
+  const cluster = await createSolanaRpc(network.rpcUrl).getGenesisHash().send();
+  const { lifetimeConstraint } = transaction;
+
+  return {
+    version: TRANSACTION_FILE_VERSION,
+    network: network.profile,
+    cluster,
+    description,
+    transaction: getBase64EncodedWireTransaction(transaction),
+    lifetime: "nonce" in lifetimeConstraint
+      ? { nonce: lifetimeConstraint.nonce, nonceAccount: lifetimeConstraint.nonceAccountAddress }
+      : { blockhash: lifetimeConstraint.blockhash, lastValidBlockHeight: lifetimeConstraint.lastValidBlockHeight.toString() },
+  };
+}
+
+/**
+ * Read and decode a transaction file, checking the signatures it already has
+ */
+export async function readTransactionFile(path: string): Promise<{ file: TransactionFile; transaction: Transaction }> {
+  const source = Bun.file(path);
+  if (!(await source.exists())) {
+    throw new CliError(ERROR_CODES.FILE_NOT_FOUND, `Transaction file not found: ${path}`);
+  }
+
+  let file: TransactionFile;
+  let transaction: Transaction;
+  try {
+    file = await source.json();
+    if (file.version !== TRANSACTION_FILE_VERSION) {
+      throw new Error(`unsupported version ${file.version}`);
+    }
+    transaction = getTransactionDecoder().decode(getBase64Encoder().encode(file.transaction));
+  } catch (error) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${path} is not a transaction file: ${(error as Error).message}`);
+  }
+
+  // A signature that no longer verifies means the message changed after it was signed
+  for (const [signer, signature] of Object.entries(transaction.signatures)) {
+    if (signature && !await verifySignature(await getPublicKeyFromAddress(address(signer)), signature, transaction.messageBytes)) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `The signature of ${signer} does not match the transaction in ${path}`,
+        undefined, "The file was modified after signing; rebuild it with --sign-only.");
+    }
+  }
+  return { file, transaction };
+}
+
+/**
+ * Write a transaction file with an updated transaction
+ */
+export async function writeTransactionFile(path: string, file: TransactionFile, transaction?: Transaction): Promise<TransactionFile> {
+  const updated = transaction
+    ? { ...file, transaction: getBase64EncodedWireTransaction(transaction) }
+    : file;
+  await Bun.write(path, JSON.stringify(updated, null, 2) + "\n");
+  return updated;
+}
+
+/**
+ * Required signers in order (the first pays the fees) and whether each has signed
+ */
+export function transactionSigners(transaction: Transaction): TransactionSignerStatus[] {
+  return Object.entries(transaction.signatures).map(([signer, signature]) => ({
+    address: signer,
+    signed: signature !== null,
+  }));
+}
+
+/**
+ * Programs the transaction invokes, named where known (for the people signing it)
+ */
+export function transactionPrograms(transaction: Transaction): string[] {
+  const message = getCompiledTransactionMessageDecoder().decode(transaction.messageBytes);
+  const programs = new Set(message.instructions.map(ix => message.staticAccounts[ix.programAddressIndex]));
+  return [...programs].map(program => KNOWN_PROGRAMS[program] ? `${KNOWN_PROGRAMS[program]} (${program})` : program);
+}
+
+/**
+ * Add one signer's signature to a transaction
+ */
+export async function addSignature(transaction: Transaction, signer: TransactionPartialSigner): Promise<Transaction> {
+  if (!(signer.address in transaction.signatures)) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${signer.address} is not a signer of this transaction`,
+      { signers: Object.keys(transaction.signatures) });
+  }
+  const [signatures] = await signer.signTransactions([transaction]);
+  if (!signatures[signer.address]) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${signer.address} did not produce a signature`,
+      undefined, "pubkey: signers only name an address; sign with the key itself.");
+  }
+  return {
+    ...transaction,
+    signatures: { ...transaction.signatures, ...signatures },
+  };
+}
+
+/**
+ * Submit a fully signed transaction file and wait for confirmation
+ */
+export async function broadcastTransaction(file: TransactionFile, transaction: Transaction): Promise<string> {
+  const missing = transactionSigners(transaction).filter(s => !s.signed).map(s => s.address);
+  if (missing.length) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Missing ${missing.length} signature(s): ${missing.join(", ")}`,
+      { missing }, "Each missing signer runs: agent-proof sign <file> -k <their signer>");
+  }
+
+  const network = getActiveNetwork();
+  const rpc = createSolanaRpc(network.rpcUrl);
+  const rpcSubscriptions = createSolanaRpcSubscriptions(network.wssUrl);
+  const cluster = await rpc.getGenesisHash().send();
+  if (cluster !== file.cluster) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Transaction was built for another cluster (profile "${file.network}")`,
+      { expected: file.cluster, actual: cluster }, `Broadcast with --profile ${file.network}`);
+  }
+
+  const signed = transaction as FullySignedTransaction;
+  if ("nonce" in file.lifetime) {
+    await sendAndConfirmDurableNonceTransactionFactory({ rpc, rpcSubscriptions })(
+      {
+        ...signed,
+        lifetimeConstraint: { nonce: file.lifetime.nonce as Nonce, nonceAccountAddress: address(file.lifetime.nonceAccount) },
+      },
+      { commitment: network.commitment },
+    );
+  } else {
+    await sendAndConfirmTransactionFactory({ rpc, rpcSubscriptions })(
+      {
+        ...signed,
+        lifetimeConstraint: { lastValidBlockHeight: BigInt(file.lifetime.lastValidBlockHeight) },
+      },
+      { commitment: network.commitment },
+    );
+  }
+  return getSignatureFromTransaction(signed);
+}
@@ -0,0 +1,162 @@
+/**
+ * Output modes - human text or machine-readable JSON / NDJSON
+ *
+ * text    Colored output on stdout, spinners on stderr
+ * json    One envelope per invocation on stdout:
+ *           { "ok": true,  "command": "<name>", "data": <result> }
+ *           { "ok": false, "command": "<name>", "error": { "code", "message", "details"? } }
+ * ndjson  Same envelopes on a single line; list results emit one line per item
+ *
+ * In json/ndjson modes spinners and text are suppressed; stdout carries only results.
+ */
+
+import chalk from "chalk";
+import ora, { type Ora } from "ora";
+import { isSolanaError } from "@solana/kit";
+
+export type OutputMode = "text" | "json" | "ndjson";
+
+export const OUTPUT_MODES: OutputMode[] = ["text", "json", "ndjson"];
+
+/**
+ * Stable error codes carried by structured errors
+ */
+export const ERROR_CODES = {
+  INVALID_ARGUMENT: "INVALID_ARGUMENT",
+  INVALID_ADDRESS: "INVALID_ADDRESS",
+  FILE_NOT_FOUND: "FILE_NOT_FOUND",
+  ACCOUNT_NOT_FOUND: "ACCOUNT_NOT_FOUND",
+  ALREADY_EXISTS: "ALREADY_EXISTS",
+  CONFIRMATION_REQUIRED: "CONFIRMATION_REQUIRED",
+  RPC_ERROR: "RPC_ERROR",
+  TRANSACTION_FAILED: "TRANSACTION_FAILED",
+  UNKNOWN: "UNKNOWN",
+} as const;
+
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+/**
+ * Error with a stable code, safe to surface to machine consumers
+ */
+export class CliError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>,
+    readonly hint?: string,
+  ) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+let _mode: OutputMode = "text";
+let _command = "agent-proof";
+
+export function setOutputMode(mode: OutputMode, command?: string): void {
+  _mode = mode;
+  if (command) _command = command;
+}
+
+export function getOutputMode(): OutputMode {
+  return _mode;
+}
+
+export function isTextOutput(): boolean {
+  return _mode === "text";
+}
+
+/**
+ * Create a spinner that writes to stderr and is silent in machine modes
+ */
+export function startSpinner(text: string): Ora {
+  return ora({ text, stream: process.stderr, isSilent: !isTextOutput() }).start();
+}
+
+/**
+ * Print human-readable text (suppressed in machine modes)
+ */
+export function log(...args: unknown[]): void {
+  if (isTextOutput()) {
+    console.log(...args);
+  }
+}
+
+/**
+ * Emit a command result (no-op in text mode, where commands print their own summary)
+ */
+export function emit(data: unknown): void {
+  if (_mode === "json") {
+    console.log(stringify({ ok: true, command: _command, data }, 2));
+  } else if (_mode === "ndjson") {
+    const items = Array.isArray(data) ? data : [data];
+    for (const item of items) {
+      console.log(stringify({ ok: true, command: _command, data: item }));
+    }
+  }
+}
+
+/**
+ * Report a failure in the active mode and exit
+ */
+export function fail(spin: Ora | null, message: string, error: unknown, exitCode = 1): never {
+  const cliError = toCliError(error);
+
+  if (isTextOutput()) {
+    spin?.fail(message);
+    console.error(chalk.red(`\n✗ ${cliError.message}`));
+    if (cliError.hint) {
+      console.error(chalk.gray(cliError.hint));
+    }
+  } else {
+    spin?.stop();
+    console.log(stringify({
+      ok: false,
+      command: _command,
+      error: {
+        code: cliError.code,
+        message: cliError.message,
+        ...(cliError.details ? { details: cliError.details } : {}),
+      },
+    }, _mode === "json" ? 2 : undefined));
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Classify any thrown value into a CliError
+ */
+export function toCliError(error: unknown): CliError {
+  if (error instanceof CliError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.includes("could not find account") || message.includes("Account not found")) {
+    return new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, "No account found at this address", undefined,
+      "The address may not have an agent proof, or it may have been revoked.");
+  }
+  if ((error as NodeJS.ErrnoException)?.code === "ENOENT" || message.includes("No such file")) {
+    return new CliError(ERROR_CODES.FILE_NOT_FOUND, message);
+  }
+  if (isSolanaError(error)) {
+    const { __code, ...context } = error.context as Record<string, unknown>;
+    const isAddressError = message.toLowerCase().includes("address");
+    return new CliError(
+      isAddressError ? ERROR_CODES.INVALID_ADDRESS : ERROR_CODES.RPC_ERROR,
+      message,
+      { solanaErrorCode: __code, ...jsonSafe(context) as Record<string, unknown> },
+    );
+  }
+  return new CliError(ERROR_CODES.UNKNOWN, message);
+}
+
+/**
+ * JSON.stringify with bigint support
+ */
+export function stringify(value: unknown, space?: number): string {
+  return JSON.stringify(value, (_, v) => typeof v === "bigint" ? v.toString() : v, space);
+}
+
+function jsonSafe(value: unknown): unknown {
+  return JSON.parse(stringify(value));
+}
@@ -0,0 +1,107 @@
+/**
+ * Init plan - which of init's accounts exist and which it will create
+ *
+ * `init` reads the plan first and sends only the missing steps, so a re-run
+ * after a partial failure picks up where it stopped. An existing account that
+ * differs from what init would create (a schema with another layout, a mint
+ * outside Token-2022) is a mismatch: init reports it instead of building on it.
+ */
+
+import { fetchEncodedAccounts, type Address, type IInstruction } from "@solana/kit";
+import { decodeSchema, type Schema } from "sas-lib";
+import { TOKEN_2022_PROGRAM_ADDRESS } from "@solana-program/token-2022";
+import type { NewAccount, SASClient, SchemaConfig } from "./sas-client";
+import { getSchemaFieldNames } from "../schemas/registry";
+
+export type PlanStatus = "exists" | "create" | "mismatch";
+
+export interface PlanStep {
+  step: "credential" | "schema" | "tokenize";
+  account: Address;
+  status: PlanStatus;
+  /** Rent-exempt deposit for an account to create (0 when it exists) */
+  rentLamports: bigint;
+  /** What differs, for a mismatch */
+  mismatch: string | null;
+}
+
+export interface InitPlan {
+  credential: Address;
+  schema: Address;
+  mint: Address;
+  steps: PlanStep[];
+  /** Total rent for the accounts to create */
+  rentLamports: bigint;
+  /** Instructions for the steps to create, in order */
+  instructions: IInstruction[];
+  newAccounts: NewAccount[];
+}
+
+/**
+ * Compare the credential, schema and schema mint init would create with what is on-chain
+ */
+export async function planInit(client: SASClient, config: SchemaConfig): Promise<InitPlan> {
+  const rpc = client.getRpc();
+  const credentialStep = await client.buildCreateCredential({ name: config.credentialName });
+  const schemaStep = await client.buildCreateSchema(config);
+  const tokenizeStep = await client.buildTokenizeSchema(credentialStep.credential, schemaStep.schema);
+  const { credential } = credentialStep;
+  const { schema } = schemaStep;
+  const { mint } = tokenizeStep;
+
+  const [credentialAccount, schemaAccount, mintAccount] = await fetchEncodedAccounts(rpc, [credential, schema, mint]);
+
+  const mismatches: Record<PlanStep["step"], string | null> = {
+    credential: null,
+    schema: schemaAccount.exists ? schemaMismatch(decodeSchema(schemaAccount).data, credential, config) : null,
+    tokenize: mintAccount.exists && mintAccount.programAddress !== TOKEN_2022_PROGRAM_ADDRESS
+      ? `owned by ${mintAccount.programAddress}, not Token-2022`
+      : null,
+  };
+  const built = [
+    { step: "credential" as const, exists: credentialAccount.exists, ...credentialStep },
+    { step: "schema" as const, exists: schemaAccount.exists, ...schemaStep },
+    { step: "tokenize" as const, exists: mintAccount.exists, ...tokenizeStep },
+  ];
+
+  const steps = await Promise.all(built.map(async ({ step, exists, newAccounts }): Promise<PlanStep> => {
+    const [account] = newAccounts;
+    const mismatch = exists ? mismatches[step] : null;
+    return {
+      step,
+      account: account.address,
+      status: !exists ? "create" : mismatch ? "mismatch" : "exists",
+      rentLamports: exists ? 0n : BigInt(await rpc.getMinimumBalanceForRentExemption(BigInt(account.space)).send()),
+      mismatch,
+    };
+  }));
+  const pending = built.filter(b => !b.exists);
+
+  return {
+    credential,
+    schema,
+    mint,
+    steps,
+    rentLamports: steps.reduce((sum, s) => sum + s.rentLamports, 0n),
+    instructions: pending.map(b => b.instruction),
+    newAccounts: pending.flatMap(b => b.newAccounts),
+  };
+}
+
+/**
+ * Describe how an existing schema differs from the one init would create (null when it matches)
+ */
+function schemaMismatch(existing: Schema, credential: Address, config: SchemaConfig): string | null {
+  if (existing.credential !== credential) {
+    return `belongs to credential ${existing.credential}`;
+  }
+  const layout = Uint8Array.from(existing.layout);
+  if (layout.length !== config.layout.length || layout.some((b, i) => b !== config.layout[i])) {
+    return `layout [${layout.join(",")}] differs from the expected [${config.layout.join(",")}]`;
+  }
+  const fieldNames = getSchemaFieldNames(existing);
+  if (fieldNames.join(",") !== config.fieldNames.join(",")) {
+    return `fields ${fieldNames.join(", ")} differ from the expected ${config.fieldNames.join(", ")}`;
+  }
+  return null;
+}
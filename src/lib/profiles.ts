@@ -0,0 +1,219 @@
+/**
+ * Network profiles - user config file at ~/.config/agent-proof/config.json
+ *
+ * Resolution order for the active network:
+ *   --url flag > --profile flag > RPC_URL env > AGENT_PROOF_PROFILE env > config "profile" > devnet
+ *
+ * Explicit flags always beat the environment: an ambient RPC_URL does not
+ * override `--profile mainnet`.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { isAddress, type Commitment } from "@solana/kit";
+import { CliError, ERROR_CODES } from "./output";
+import { DEFAULT_PRIORITY_FEE, parsePriorityFee } from "./fees";
+
+export interface NetworkProfile {
+  rpcUrl: string;
+  wssUrl?: string;
+  keypair?: string;
+  commitment?: Commitment;
+  /** auto, max or micro-lamports per CU (see lib/fees) */
+  priorityFee?: string;
+  /** Comma-separated credential addresses that `index sync` copies (see lib/local-index) */
+  indexCredentials?: string;
+}
+
+export interface AgentProofConfig {
+  profile: string;
+  profiles: Record<string, NetworkProfile>;
+}
+
+export interface ResolvedNetwork {
+  profile: string;
+  rpcUrl: string;
+  wssUrl: string;
+  keypair: string;
+  commitment: Commitment;
+  priorityFee: string;
+  indexCredentials: string[];
+}
+
+export interface NetworkSelection {
+  profile?: string;
+  url?: string;
+  priorityFee?: string;
+}
+
+export const CONFIG_PATH = process.env.AGENT_PROOF_CONFIG
+  || path.join(process.env.HOME || "", ".config/agent-proof/config.json");
+
+export const DEFAULT_KEYPAIR_PATH = "~/.config/solana/id.json";
+export const DEFAULT_COMMITMENT: Commitment = "confirmed";
+
+export const DEFAULT_PROFILES: Record<string, NetworkProfile> = {
+  localnet: {
+    rpcUrl: "http://127.0.0.1:8899",
+    wssUrl: "ws://127.0.0.1:8900",
+  },
+  devnet: {
+    rpcUrl: "https://api.devnet.solana.com",
+    wssUrl: "wss://api.devnet.solana.com",
+  },
+  mainnet: {
+    rpcUrl: "https://api.mainnet-beta.solana.com",
+    wssUrl: "wss://api.mainnet-beta.solana.com",
+  },
+};
+
+export const PROFILE_FIELDS = ["rpcUrl", "wssUrl", "keypair", "commitment", "priorityFee", "indexCredentials"] as const;
+const COMMITMENTS: Commitment[] = ["processed", "confirmed", "finalized"];
+
+let _network: ResolvedNetwork | null = null;
+
+/**
+ * Load the config file, merged over the built-in profiles
+ */
+export function loadConfig(): AgentProofConfig {
+  let stored: Partial<AgentProofConfig> = {};
+  if (fs.existsSync(CONFIG_PATH)) {
+    try {
+      stored = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8"));
+    } catch (error: any) {
+      throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid config file ${CONFIG_PATH}: ${error.message}`);
+    }
+  }
+
+  const profiles: Record<string, NetworkProfile> = {};
+  for (const [name, profile] of Object.entries(DEFAULT_PROFILES)) {
+    profiles[name] = { ...profile, ...stored.profiles?.[name] };
+  }
+  for (const [name, profile] of Object.entries(stored.profiles ?? {})) {
+    profiles[name] ??= profile;
+  }
+
+  return {
+    profile: stored.profile || "devnet",
+    profiles,
+  };
+}
+
+/**
+ * Write the config file (creating ~/.config/agent-proof if needed)
+ */
+export function saveConfig(config: AgentProofConfig): void {
+  fs.mkdirSync(path.dirname(CONFIG_PATH), { recursive: true });
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2) + "\n");
+}
+
+/**
+ * Resolve the network to use from flags, environment and the config file
+ */
+export function resolveNetwork(selection: NetworkSelection = {}): ResolvedNetwork {
+  const config = loadConfig();
+  const name = selection.profile || process.env.AGENT_PROOF_PROFILE || config.profile;
+  const profile = config.profiles[name];
+  if (!profile) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Unknown profile "${name}". Available: ${Object.keys(config.profiles).join(", ")}`);
+  }
+
+  const overrideUrl = selection.url || (selection.profile ? undefined : process.env.RPC_URL);
+  const rpcUrl = overrideUrl || profile.rpcUrl;
+  const wssUrl = overrideUrl
+    ? (process.env.WSS_URL || deriveWssUrl(overrideUrl))
+    : (profile.wssUrl || deriveWssUrl(profile.rpcUrl));
+
+  const priorityFee = selection.priorityFee || profile.priorityFee || DEFAULT_PRIORITY_FEE;
+  parsePriorityFee(priorityFee);
+
+  return {
+    profile: overrideUrl ? "custom" : name,
+    rpcUrl,
+    wssUrl,
+    keypair: profile.keypair || DEFAULT_KEYPAIR_PATH,
+    commitment: profile.commitment || DEFAULT_COMMITMENT,
+    priorityFee,
+    indexCredentials: splitList(profile.indexCredentials),
+  };
+}
+
+/**
+ * Set the network used by every command for this process
+ */
+export function setActiveNetwork(network: ResolvedNetwork): void {
+  _network = network;
+}
+
+/**
+ * Get the active network (resolved from the config file if never set)
+ */
+export function getActiveNetwork(): ResolvedNetwork {
+  if (!_network) {
+    _network = resolveNetwork();
+  }
+  return _network;
+}
+
+/**
+ * Whether a network points at mainnet-beta (no airdrops, real funds)
+ */
+export function isMainnet(network: ResolvedNetwork): boolean {
+  return network.profile === "mainnet" || network.rpcUrl.includes("mainnet");
+}
+
+/**
+ * Resolve a keypair path: explicit flag, then the active profile's default
+ */
+export function resolveKeypairPath(keypair?: string): string {
+  return expandHome(keypair || getActiveNetwork().keypair);
+}
+
+/**
+ * Expand a leading ~ to the home directory
+ */
+export function expandHome(filePath: string): string {
+  return filePath.startsWith("~")
+    ? path.join(process.env.HOME || "", filePath.slice(1))
+    : filePath;
+}
+
+/**
+ * Derive a websocket URL from an RPC URL (local validators listen on port + 1)
+ */
+export function deriveWssUrl(rpcUrl: string): string {
+  const url = new URL(rpcUrl);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  if (url.port && ["localhost", "127.0.0.1"].includes(url.hostname)) {
+    url.port = String(Number(url.port) + 1);
+  }
+  return url.toString().replace(/\/$/, "");
+}
+
+/**
+ * Validate a profile field value before it is written to the config file
+ */
+export function validateProfileField(field: string, value: string): void {
+  if (!(PROFILE_FIELDS as readonly string[]).includes(field)) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Unknown profile field "${field}". Expected one of: ${PROFILE_FIELDS.join(", ")}`);
+  }
+  if ((field === "rpcUrl" || field === "wssUrl") && !URL.canParse(value)) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid URL "${value}"`);
+  }
+  if (field === "commitment" && !COMMITMENTS.includes(value as Commitment)) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Invalid commitment "${value}". Expected one of: ${COMMITMENTS.join(", ")}`);
+  }
+  if (field === "priorityFee") {
+    parsePriorityFee(value);
+  }
+  if (field === "indexCredentials") {
+    const invalid = splitList(value).filter(entry => !isAddress(entry));
+    if (invalid.length > 0) {
+      throw new CliError(ERROR_CODES.INVALID_ADDRESS, `Invalid credential address${invalid.length === 1 ? "" : "es"}: ${invalid.join(", ")}`);
+    }
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map(entry => entry.trim()).filter(Boolean);
+}
@@ -0,0 +1,179 @@
+/**
+ * Renewal - re-issue an attestation with a new expiry and close the old one
+ *
+ * SAS attestations cannot change expiry in place. Renewing:
+ *   1. Decodes the old attestation with its schema's decoder
+ *   2. Closes the old attestation and burns its proof NFT
+ *   3. Mints a new tokenized attestation under the same schema to the current
+ *      holder of the old proof NFT, with the same data (a fresh `created_at`
+ *      when the schema has one), token metadata and the new expiry
+ *
+ * A proof issued with the recipient wallet as its nonce (`attest --recipient`,
+ * `attest-batch`) keeps that nonce, so it stays derivable from the wallet and
+ * is re-created at the same address: the old one has to be closed first. Other
+ * proofs get a fresh random nonce and a new address, and the new proof is
+ * minted first. Both steps go out in one transaction when they fit, so the
+ * holder never has both proofs or neither.
+ */
+
+import { generateKeyPairSigner, isSome, type Address, type IInstruction } from "@solana/kit";
+import { deriveAttestationMintPda } from "sas-lib";
+import { fetchMaybeMint, fetchMaybeToken } from "@solana-program/token-2022";
+import type { NewAccount, SASClient } from "./sas-client";
+import { CliError, ERROR_CODES } from "./output";
+import { fetchDecodedAttestation } from "./attestations";
+import { assertAuthorizedSigner } from "./issuance";
+import { getSchemaFieldNames } from "../schemas/registry";
+import { AGENT_TOKEN_METADATA } from "../schemas/agent";
+
+export interface RenewalPlan {
+  from: { attestation: Address; mint: Address; expiry: number };
+  to: { attestation: Address; mint: Address; expiry: number };
+  credential: Address;
+  schema: Address;
+  holder: Address;
+  data: Record<string, unknown>;
+  /** Whether mint and close fit in one transaction */
+  atomic: boolean;
+  /** The new proof reuses the holder nonce (and address), so the old one is closed first */
+  closeFirst: boolean;
+  instructions: { attest: IInstruction; close: IInstruction };
+  newAccounts: NewAccount[];
+  /** Rent returned by closing the old attestation and mint */
+  reclaimedLamports: bigint;
+}
+
+export interface RenewalResult {
+  /** Equal when the renewal was atomic */
+  signatures: { attest: string; close: string };
+  cuUsed: number;
+}
+
+/**
+ * Build the instructions that renew an attestation, without sending them
+ */
+export async function planRenewal(
+  client: SASClient,
+  attestation: Address,
+  expiryDays: number | null,
+): Promise<RenewalPlan> {
+  const rpc = client.getRpc();
+  const old = await fetchDecodedAttestation(rpc, attestation);
+  const { credential, schema } = old.attestation;
+  await assertAuthorizedSigner(client, credential, credential);
+
+  const token = await fetchMaybeToken(rpc, old.attestation.tokenAccount);
+  if (!token.exists) {
+    throw new CliError(ERROR_CODES.ACCOUNT_NOT_FOUND, "The attestation's proof NFT no longer exists",
+      { attestation, tokenAccount: old.attestation.tokenAccount },
+      "Issue a new attestation with `agent-proof attest` instead.");
+  }
+  const holder = token.data.owner;
+
+  const [oldMint] = await deriveAttestationMintPda({ attestation });
+  const metadata = await readTokenMetadata(client, oldMint);
+
+  const data = { ...old.data };
+  if (getSchemaFieldNames(old.schema).includes("created_at")) {
+    data.created_at = BigInt(Math.floor(Date.now() / 1000));
+  }
+
+  // Keep the recipient nonce so the proof stays derivable from the holder's wallet
+  const closeFirst = old.attestation.nonce === holder;
+  const minted = await client.buildTokenizedAttestation({
+    credential,
+    schema,
+    schemaData: old.schema,
+    recipient: holder,
+    nonce: closeFirst ? holder : (await generateKeyPairSigner()).address,
+    data,
+    ...metadata,
+    expiryDays,
+  });
+  const closed = await client.buildCloseTokenizedAttestation(attestation);
+
+  return {
+    from: { attestation, mint: oldMint, expiry: Number(old.attestation.expiry) },
+    to: { attestation: minted.attestation, mint: minted.mint, expiry: minted.expiry },
+    credential,
+    schema,
+    holder,
+    data,
+    atomic: client.fitsInTransaction([minted.instruction, closed.instruction]),
+    closeFirst,
+    instructions: { attest: minted.instruction, close: closed.instruction },
+    newAccounts: minted.newAccounts,
+    reclaimedLamports: closed.reclaimedLamports,
+  };
+}
+
+/**
+ * A renewal's instructions in the order they must run
+ */
+export function renewalInstructions(plan: RenewalPlan): IInstruction[] {
+  const { attest, close } = plan.instructions;
+  return plan.closeFirst ? [close, attest] : [attest, close];
+}
+
+/**
+ * Send a renewal: one transaction when atomic, else two in plan order
+ */
+export async function renewAttestation(client: SASClient, plan: RenewalPlan): Promise<RenewalResult> {
+  const { attest, close } = plan.instructions;
+  if (plan.atomic) {
+    const { signature, cuUsed } = await client.sendInstructions(renewalInstructions(plan));
+    return { signatures: { attest: signature, close: signature }, cuUsed };
+  }
+  if (plan.closeFirst) {
+    const closed = await client.sendInstructions([close]);
+    let minted: Awaited<ReturnType<SASClient["sendInstructions"]>>;
+    try {
+      minted = await client.sendInstructions([attest]);
+    } catch (error) {
+      throw new CliError(ERROR_CODES.TRANSACTION_FAILED,
+        `Closed the old attestation, but minting its renewal failed: ${error instanceof Error ? error.message : String(error)}`,
+        { attestation: plan.from.attestation, signature: closed.signature, holder: plan.holder },
+        `Re-issue the proof with: agent-proof attest --recipient ${plan.holder}`);
+    }
+    return {
+      signatures: { attest: minted.signature, close: closed.signature },
+      cuUsed: minted.cuUsed + closed.cuUsed,
+    };
+  }
+  const minted = await client.sendInstructions([attest]);
+  let closed: Awaited<ReturnType<SASClient["sendInstructions"]>>;
+  try {
+    closed = await client.sendInstructions([close]);
+  } catch (error) {
+    throw new CliError(ERROR_CODES.TRANSACTION_FAILED,
+      `Renewed, but closing the old attestation failed: ${error instanceof Error ? error.message : String(error)}`,
+      { attestation: plan.to.attestation, signature: minted.signature, old: plan.from.attestation },
+      `Close the old proof with: agent-proof revoke ${plan.from.attestation}`);
+  }
+  return {
+    signatures: { attest: minted.signature, close: closed.signature },
+    cuUsed: minted.cuUsed + closed.cuUsed,
+  };
+}
+
+/**
+ * Name, symbol and URI of a proof NFT (AgentIdentity defaults if it has no metadata)
+ */
+async function readTokenMetadata(
+  client: SASClient,
+  mint: Address,
+): Promise<{ tokenName: string; tokenSymbol: string; tokenUri: string }> {
+  const account = await fetchMaybeMint(client.getRpc(), mint);
+  if (account.exists && isSome(account.data.extensions)) {
+    for (const ext of account.data.extensions.value) {
+      if (ext.__kind === "TokenMetadata") {
+        return { tokenName: ext.name, tokenSymbol: ext.symbol, tokenUri: ext.uri };
+      }
+    }
+  }
+  return {
+    tokenName: AGENT_TOKEN_METADATA.name,
+    tokenSymbol: AGENT_TOKEN_METADATA.symbol,
+    tokenUri: AGENT_TOKEN_METADATA.uri,
+  };
+}
@@ -15,15 +15,29 @@ import {
   address,
   type Address,
   type KeyPairSigner,
+  type TransactionPartialSigner,
   pipe,
   createTransactionMessage,
   setTransactionMessageFeePayer,
   setTransactionMessageLifetimeUsingBlockhash,
+  setTransactionMessageLifetimeUsingDurableNonce,
   appendTransactionMessageInstructions,
   signTransactionMessageWithSigners,
+  partiallySignTransactionMessageWithSigners,
   sendAndConfirmTransactionFactory,
   getSignatureFromTransaction,
+  isTransactionMessageWithinSizeLimit,
+  isSolanaError,
+  isSignerRole,
+  SOLANA_ERROR__BLOCK_HEIGHT_EXCEEDED,
+  type Blockhash,
   type IInstruction,
+  type Commitment,
+  type MicroLamports,
+  type Nonce,
+  type Transaction,
+  type TransactionWithBlockhashLifetime,
+  type TransactionWithDurableNonceLifetime,
 } from "@solana/kit";
 
 import {
@@ -37,28 +51,110 @@ import {
   getCreateSchemaInstruction,
   getTokenizeSchemaInstruction,
   getCreateTokenizedAttestationInstruction,
+  getCloseTokenizedAttestationInstruction,
+  getChangeSchemaVersionInstruction,
+  getChangeAuthorizedSignersInstruction,
+  fetchAttestation,
+  fetchCredential,
   fetchSchema,
+  fetchAllMaybeSchema,
+  getCredentialEncoder,
+  getSchemaEncoder,
   serializeAttestationData,
   SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS,
+  type Schema,
 } from "sas-lib";
 
 import {
   TOKEN_2022_PROGRAM_ADDRESS,
   getMintSize,
+  getTokenSize,
   findAssociatedTokenPda,
   ASSOCIATED_TOKEN_PROGRAM_ADDRESS,
 } from "@solana-program/token-2022";
 
 import {
   getSetComputeUnitLimitInstruction,
+  getSetComputeUnitPriceInstruction,
+  MAX_COMPUTE_UNIT_LIMIT,
 } from "@solana-program/compute-budget";
 
+import { getActiveNetwork } from "./profiles";
+import { estimatePriorityFee, parsePriorityFee, type PriorityFee } from "./fees";
+import { CliError, ERROR_CODES, stringify } from "./output";
+
 export { SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS as SAS_PROGRAM_ID };
 
+/** Sends per transaction when its blockhash expires before it lands */
+const MAX_SEND_ATTEMPTS = 3;
+
+/** Base fee per transaction signature */
+const LAMPORTS_PER_SIGNATURE = 5_000n;
+
+/** Placeholder lifetime for size checks (a blockhash is always 32 bytes) */
+const SIZE_CHECK_LIFETIME = {
+  blockhash: "11111111111111111111111111111111" as Blockhash,
+  lastValidBlockHeight: 0n,
+};
+
 export interface SASClientConfig {
-  rpcUrl: string;
-  wssUrl: string;
-  signer: KeyPairSigner;
+  /** Defaults to the active network profile */
+  rpcUrl?: string;
+  wssUrl?: string;
+  commitment?: Commitment;
+  /** Any transaction signer: keypair file, env key or external signer (see lib/signers) */
+  signer: TransactionPartialSigner;
+  /** Pays fees and rent; defaults to the signer (a co-signer's noop signer with --sign-only) */
+  feePayer?: TransactionPartialSigner;
+  /** auto, max or micro-lamports per CU; defaults to the active network's setting */
+  priorityFee?: string;
+}
+
+export interface DurableNonceConfig {
+  nonce: Nonce;
+  nonceAccountAddress: Address;
+  nonceAuthorityAddress: Address;
+}
+
+/** A transaction signed by whichever signers are local (see lib/offline) */
+export type PreparedTransaction = Transaction
+  & (TransactionWithBlockhashLifetime | TransactionWithDurableNonceLifetime);
+
+export interface SimulationResult {
+  /** null when the RPC doesn't report usage */
+  unitsConsumed: number | null;
+  err: unknown;
+  logs: readonly string[];
+}
+
+/** An account an instruction creates, and its size for rent */
+export interface NewAccount {
+  label: string;
+  address: Address;
+  space: number;
+}
+
+/**
+ * What sending a set of instructions would cost the fee payer
+ */
+export interface CostEstimate {
+  /** null when simulation failed or the RPC doesn't report usage */
+  computeUnits: number | null;
+  /** Compute unit limit set on each transaction */
+  cuLimit: number;
+  transactions: number;
+  signatures: number;
+  baseFeeLamports: bigint;
+  priorityFeeMicroLamports: MicroLamports;
+  /** Across all transactions */
+  priorityFeeLamports: bigint;
+  accounts: (NewAccount & { rentLamports: bigint })[];
+  rentLamports: bigint;
+  /** Fees plus rent */
+  totalLamports: bigint;
+  balanceLamports: bigint;
+  /** Why simulation failed (e.g. an unfunded fee payer), or null */
+  simulationError: string | null;
 }
 
 export interface CredentialConfig {
@@ -66,6 +162,21 @@ export interface CredentialConfig {
   signers?: Address[];
 }
 
+export interface TokenizedAttestationParams {
+  credential: Address;
+  schema: Address;
+  /** Decoded schema account, if already fetched */
+  schemaData?: Schema;
+  recipient: Address;
+  nonce: Address;
+  data: Record<string, unknown>;
+  tokenName: string;
+  tokenSymbol: string;
+  tokenUri: string;
+  /** Lifetime in days (may be fractional); null for a non-expiring attestation. Default 365 */
+  expiryDays?: number | null;
+}
+
 export interface SchemaConfig {
   credentialName: string;
   name: string;
@@ -78,13 +189,20 @@ export interface SchemaConfig {
 export class SASClient {
   private rpc: ReturnType<typeof createSolanaRpc>;
   private rpcSubscriptions: ReturnType<typeof createSolanaRpcSubscriptions>;
-  private signer: KeyPairSigner;
+  private signer: TransactionPartialSigner;
+  private feePayer: TransactionPartialSigner;
+  private priorityFee: PriorityFee;
+  private commitment: Commitment;
   private sendAndConfirm: ReturnType<typeof sendAndConfirmTransactionFactory>;
 
   constructor(config: SASClientConfig) {
-    this.rpc = createSolanaRpc(config.rpcUrl);
-    this.rpcSubscriptions = createSolanaRpcSubscriptions(config.wssUrl);
+    const network = getActiveNetwork();
+    this.rpc = createSolanaRpc(config.rpcUrl ?? network.rpcUrl);
+    this.rpcSubscriptions = createSolanaRpcSubscriptions(config.wssUrl ?? network.wssUrl);
+    this.commitment = config.commitment ?? network.commitment;
     this.signer = config.signer;
+    this.feePayer = config.feePayer ?? config.signer;
+    this.priorityFee = parsePriorityFee(config.priorityFee ?? network.priorityFee);
     this.sendAndConfirm = sendAndConfirmTransactionFactory({
       rpc: this.rpc,
       rpcSubscriptions: this.rpcSubscriptions,
@@ -106,11 +224,11 @@ export class SASClient {
   }
 
   /**
-   * Derive the credential PDA
+   * Derive the credential PDA (authority defaults to the signer)
    */
-  async deriveCredentialAddress(name: string): Promise<Address> {
+  async deriveCredentialAddress(name: string, authority: Address = this.signer.address): Promise<Address> {
     const [pda] = await deriveCredentialPda({
-      authority: this.signer.address,
+      authority,
       name,
     });
     return pda;
@@ -144,29 +262,89 @@ export class SASClient {
    * Create a credential (authority to issue attestations)
    */
   async createCredential(config: CredentialConfig): Promise<{ signature: string; credential: Address; cuUsed: number; cuLimit: number }> {
+    const { instruction, credential } = await this.buildCreateCredential(config);
+    const result = await this.sendTransaction([instruction]);
+    return { ...result, credential };
+  }
+
+  /**
+   * Build the create-credential instruction without sending it
+   */
+  async buildCreateCredential(config: CredentialConfig): Promise<{
+    instruction: IInstruction;
+    credential: Address;
+    newAccounts: NewAccount[];
+  }> {
     const credential = await this.deriveCredentialAddress(config.name);
+    const signers = config.signers || [this.signer.address];
     
-    const ix = getCreateCredentialInstruction({
-      payer: this.signer,
+    const instruction = getCreateCredentialInstruction({
+      payer: this.feePayer,
       credential,
       authority: this.signer,
       name: config.name,
-      signers: config.signers || [this.signer.address],
+      signers,
     });
 
-    const result = await this.sendTransaction([ix]);
-    return { ...result, credential };
+    const space = getCredentialEncoder().encode({
+      discriminator: 0,
+      authority: this.signer.address,
+      name: new TextEncoder().encode(config.name),
+      authorizedSigners: signers,
+    }).length;
+
+    return { instruction, credential, newAccounts: [{ label: "credential", address: credential, space }] };
+  }
+
+  /**
+   * Replace a credential's authorized signers (authority only)
+   *
+   * SAS stores the full list, so callers pass the complete new set.
+   */
+  async changeAuthorizedSigners(
+    credential: Address,
+    signers: Address[],
+  ): Promise<{ signature: string; cuUsed: number; cuLimit: number }> {
+    const ix = getChangeAuthorizedSignersInstruction({
+      payer: this.feePayer,
+      authority: this.signer,
+      credential,
+      signers,
+    });
+
+    return this.sendTransaction([ix]);
+  }
+
+  /**
+   * Fetch a credential's authority and authorized signers
+   */
+  async getCredentialSigners(credential: Address): Promise<{ authority: Address; signers: Address[] }> {
+    const { data } = await fetchCredential(this.rpc, credential);
+    return { authority: data.authority, signers: data.authorizedSigners };
   }
 
   /**
    * Create a schema (defines attestation structure)
    */
   async createSchema(config: SchemaConfig): Promise<{ signature: string; schema: Address; cuUsed: number; cuLimit: number }> {
+    const { instruction, schema } = await this.buildCreateSchema(config);
+    const result = await this.sendTransaction([instruction]);
+    return { ...result, schema };
+  }
+
+  /**
+   * Build the create-schema instruction without sending it
+   */
+  async buildCreateSchema(config: SchemaConfig): Promise<{
+    instruction: IInstruction;
+    schema: Address;
+    newAccounts: NewAccount[];
+  }> {
     const credential = await this.deriveCredentialAddress(config.credentialName);
     const schema = await this.deriveSchemaAddress(credential, config.name, config.version ?? 1);
     
-    const ix = getCreateSchemaInstruction({
-      payer: this.signer,
+    const instruction = getCreateSchemaInstruction({
+      payer: this.feePayer,
       credential,
       schema,
       authority: this.signer,
@@ -176,28 +354,96 @@ export class SASClient {
       fieldNames: config.fieldNames,
     });
 
+    // Field names are stored as u32 length-prefixed strings; only the size matters here
+    const encoder = new TextEncoder();
+    const fieldNamesSize = config.fieldNames.reduce((n, f) => n + 4 + encoder.encode(f).length, 0);
+    const space = getSchemaEncoder().encode({
+      discriminator: 0,
+      credential,
+      name: encoder.encode(config.name),
+      description: encoder.encode(config.description),
+      layout: config.layout,
+      fieldNames: new Uint8Array(fieldNamesSize),
+      isPaused: false,
+      version: config.version ?? 1,
+    }).length;
+
+    return { instruction, schema, newAccounts: [{ label: "schema", address: schema, space }] };
+  }
+
+  /**
+   * Create the next version of a schema (same name, new layout)
+   *
+   * SAS schemas are immutable, so a new layout lives at a new schema PDA
+   * derived with version + 1. Attestations on older versions remain valid.
+   */
+  async changeSchemaVersion(
+    credential: Address,
+    existingSchema: Address,
+    layout: Uint8Array,
+    fieldNames: string[],
+  ): Promise<{ signature: string; schema: Address; version: number; cuUsed: number; cuLimit: number }> {
+    const existing = await fetchSchema(this.rpc, existingSchema);
+    const name = new TextDecoder().decode(Uint8Array.from(existing.data.name));
+    const version = existing.data.version + 1;
+    const schema = await this.deriveSchemaAddress(credential, name, version);
+
+    const ix = getChangeSchemaVersionInstruction({
+      payer: this.feePayer,
+      authority: this.signer,
+      credential,
+      existingSchema,
+      newSchema: schema,
+      layout,
+      fieldNames,
+    });
+
     const result = await this.sendTransaction([ix]);
-    return { ...result, schema };
+    return { ...result, schema, version };
+  }
+
+  /**
+   * Find the newest existing version of a schema (probes versions 1..maxVersion)
+   */
+  async findLatestSchema(
+    credential: Address,
+    name: string,
+    maxVersion: number,
+  ): Promise<{ schema: Address; version: number } | null> {
+    const versions = Array.from({ length: maxVersion }, (_, i) => i + 1);
+    const addresses = await Promise.all(versions.map(v => this.deriveSchemaAddress(credential, name, v)));
+    const accounts = await fetchAllMaybeSchema(this.rpc, addresses);
+    for (let i = versions.length - 1; i >= 0; i--) {
+      if (accounts[i].exists) {
+        return { schema: addresses[i], version: versions[i] };
+      }
+    }
+    return null;
   }
 
   /**
    * Tokenize a schema (enable NFT-backed attestations)
    */
   async tokenizeSchema(credential: Address, schema: Address): Promise<{ signature: string; mint: Address; cuUsed: number; cuLimit: number }> {
+    const { instruction, mint } = await this.buildTokenizeSchema(credential, schema);
+    const result = await this.sendTransaction([instruction]);
+    return { ...result, mint };
+  }
+
+  /**
+   * Build the tokenize-schema instruction without sending it
+   */
+  async buildTokenizeSchema(credential: Address, schema: Address): Promise<{
+    instruction: IInstruction;
+    mint: Address;
+    newAccounts: NewAccount[];
+  }> {
     const [mint] = await deriveSchemaMintPda({ schema });
     const sasPda = await deriveSasAuthorityAddress();
-    
-    // Calculate mint account space with Group extension
-    const schemaMintAccountSpace = getMintSize([
-      {
-        __kind: "GroupPointer",
-        authority: sasPda,
-        groupAddress: mint,
-      },
-    ]);
-    
-    const ix = getTokenizeSchemaInstruction({
-      payer: this.signer,
+    const schemaMintAccountSpace = getSchemaMintSize(sasPda, mint);
+
+    const instruction = getTokenizeSchemaInstruction({
+      payer: this.feePayer,
       credential,
       schema,
       mint,
@@ -207,8 +453,7 @@ export class SASClient {
       tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
     });
 
-    const result = await this.sendTransaction([ix]);
-    return { ...result, mint };
+    return { instruction, mint, newAccounts: [{ label: "schema mint", address: mint, space: schemaMintAccountSpace }] };
   }
 
   /**
@@ -223,19 +468,50 @@ export class SASClient {
     tokenName: string,
     tokenSymbol: string,
     tokenUri: string,
-    expiryDays = 365,
-  ): Promise<{ signature: string; attestation: Address; mint: Address; cuUsed: number; cuLimit: number }> {
+    expiryDays: number | null = 365,
+  ): Promise<{ signature: string; attestation: Address; mint: Address; expiry: number; cuUsed: number; cuLimit: number }> {
+    const { instruction, attestation, mint, expiry } = await this.buildTokenizedAttestation({
+      credential,
+      schema,
+      recipient,
+      nonce,
+      data,
+      tokenName,
+      tokenSymbol,
+      tokenUri,
+      expiryDays,
+    });
+
+    const result = await this.sendTransaction([instruction]);
+    return { ...result, attestation, mint, expiry };
+  }
+
+  /**
+   * Build the create-tokenized-attestation instruction without sending it
+   *
+   * Pass `schemaData` when building many instructions for one schema to skip
+   * re-fetching the schema account each time.
+   */
+  async buildTokenizedAttestation(params: TokenizedAttestationParams): Promise<{
+    instruction: IInstruction;
+    attestation: Address;
+    mint: Address;
+    expiry: number;
+    newAccounts: NewAccount[];
+  }> {
+    const { credential, schema, recipient, nonce, tokenName, tokenSymbol, tokenUri } = params;
     const attestation = await this.deriveAttestationAddress(credential, schema, nonce);
     const [attestationMint] = await deriveAttestationMintPda({ attestation });
     const [schemaMint] = await deriveSchemaMintPda({ schema });
     const sasPda = await deriveSasAuthorityAddress();
     
     // Fetch schema to serialize data
-    const schemaAccount = await fetchSchema(this.rpc, schema);
-    const serializedData = serializeAttestationData(schemaAccount.data, data);
+    const schemaData = params.schemaData ?? (await fetchSchema(this.rpc, schema)).data;
+    const serializedData = serializeAttestationData(schemaData, params.data);
     
-    // Calculate expiry timestamp
-    const expiryTimestamp = Math.floor(Date.now() / 1000) + (expiryDays * 24 * 60 * 60);
+    // Calculate expiry timestamp (expiryDays may be fractional; 0 never expires)
+    const expiryDays = params.expiryDays === undefined ? 365 : params.expiryDays;
+    const expiryTimestamp = expiryDays === null ? 0 : Math.floor(Date.now() / 1000 + expiryDays * 24 * 60 * 60);
     
     // Find recipient's token account
     const [recipientTokenAccount] = await findAssociatedTokenPda({
@@ -244,43 +520,19 @@ export class SASClient {
       tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
     });
     
-    // Calculate mint account space with all extensions
-    const mintAccountSpace = getMintSize([
-      {
-        __kind: "GroupMemberPointer",
-        authority: sasPda,
-        memberAddress: attestationMint,
-      },
-      { __kind: "NonTransferable" },
-      {
-        __kind: "MetadataPointer",
-        authority: sasPda,
-        metadataAddress: attestationMint,
-      },
-      { __kind: "PermanentDelegate", delegate: sasPda },
-      { __kind: "MintCloseAuthority", closeAuthority: sasPda },
-      {
-        __kind: "TokenMetadata",
-        updateAuthority: sasPda,
-        mint: attestationMint,
-        name: tokenName,
-        symbol: tokenSymbol,
-        uri: tokenUri,
-        additionalMetadata: new Map([
-          ["attestation", attestation],
-          ["schema", schema],
-        ]),
-      },
-      {
-        __kind: "TokenGroupMember",
-        group: schemaMint,
-        mint: attestationMint,
-        memberNumber: 1,
-      },
-    ]);
+    const mintAccountSpace = getAttestationMintSize({
+      sasPda,
+      attestation,
+      attestationMint,
+      schema,
+      schemaMint,
+      tokenName,
+      tokenSymbol,
+      tokenUri,
+    });
     
-    const ix = await getCreateTokenizedAttestationInstruction({
-      payer: this.signer,
+    const instruction = await getCreateTokenizedAttestationInstruction({
+      payer: this.feePayer,
       authority: this.signer,
       credential,
       schema,
@@ -301,15 +553,71 @@ export class SASClient {
       tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
     });
 
-    const result = await this.sendTransaction([ix]);
-    return { ...result, attestation, mint: attestationMint };
+    return {
+      instruction,
+      attestation,
+      mint: attestationMint,
+      expiry: expiryTimestamp,
+      newAccounts: [
+        { label: "attestation", address: attestation, space: getAttestationSize(serializedData) },
+        { label: "attestation mint", address: attestationMint, space: mintAccountSpace },
+        { label: "recipient token account", address: recipientTokenAccount, space: ATTESTATION_TOKEN_ACCOUNT_SIZE },
+      ],
+    };
+  }
+
+  /**
+   * Close a tokenized attestation (burns the proof NFT via the SAS permanent delegate)
+   *
+   * Must be signed by an authorized signer of the attestation's credential.
+   * Rent from the attestation and mint accounts is returned to the payer.
+   */
+  async closeTokenizedAttestation(
+    attestation: Address,
+  ): Promise<{ signature: string; mint: Address; reclaimedLamports: bigint; cuUsed: number; cuLimit: number }> {
+    const { instruction, mint, reclaimedLamports } = await this.buildCloseTokenizedAttestation(attestation);
+    const result = await this.sendTransaction([instruction]);
+    return { ...result, mint, reclaimedLamports };
+  }
+
+  /**
+   * Build the close-tokenized-attestation instruction without sending it
+   */
+  async buildCloseTokenizedAttestation(
+    attestation: Address,
+  ): Promise<{ instruction: IInstruction; mint: Address; reclaimedLamports: bigint }> {
+    const attestationAccount = await fetchAttestation(this.rpc, attestation);
+    const [attestationMint] = await deriveAttestationMintPda({ attestation });
+    const sasPda = await deriveSasAuthorityAddress();
+
+    // Sum lamports held by the accounts being closed (reclaimed rent)
+    const { value: closedAccounts } = await this.rpc
+      .getMultipleAccounts([attestation, attestationMint], { encoding: "base64" })
+      .send();
+    const reclaimedLamports = closedAccounts.reduce(
+      (total, account) => total + (account ? BigInt(account.lamports) : 0n),
+      0n,
+    );
+
+    const instruction = getCloseTokenizedAttestationInstruction({
+      payer: this.feePayer,
+      authority: this.signer,
+      credential: attestationAccount.data.credential,
+      attestation,
+      attestationMint,
+      sasPda,
+      attestationTokenAccount: attestationAccount.data.tokenAccount,
+      tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+    });
+
+    return { instruction, mint: attestationMint, reclaimedLamports };
   }
 
   /**
-   * Check balance
+   * Check the fee payer's balance
    */
   async getBalance(): Promise<bigint> {
-    const result = await this.rpc.getBalance(this.signer.address).send();
+    const result = await this.rpc.getBalance(this.feePayer.address).send();
     return result.value;
   }
 
@@ -317,60 +625,305 @@ export class SASClient {
    * Airdrop SOL for testing (devnet only)
    */
   async airdrop(lamports: bigint = 1_000_000_000n): Promise<string> {
-    const sig = await this.rpc.requestAirdrop(this.signer.address, lamports).send();
+    const sig = await this.rpc.requestAirdrop(this.feePayer.address, lamports).send();
     // Wait for confirmation
     await new Promise(resolve => setTimeout(resolve, 2000));
     return sig;
   }
 
   /**
-   * Send and confirm a transaction with CU estimation
+   * Whether instructions fit in one transaction (with a CU limit instruction added)
    */
-  private async sendTransaction(instructions: IInstruction[]): Promise<{ signature: string; cuUsed: number; cuLimit: number }> {
+  fitsInTransaction(instructions: IInstruction[]): boolean {
+    const message = pipe(
+      createTransactionMessage({ version: 0 }),
+      tx => setTransactionMessageFeePayer(this.feePayer.address, tx),
+      tx => setTransactionMessageLifetimeUsingBlockhash(SIZE_CHECK_LIFETIME, tx),
+      tx => appendTransactionMessageInstructions(
+        [getSetComputeUnitLimitInstruction({ units: MAX_COMPUTE_UNIT_LIMIT }), ...instructions], tx),
+    );
+    return isTransactionMessageWithinSizeLimit(message);
+  }
+
+  /**
+   * Simulate instructions as one transaction
+   */
+  async simulateInstructions(instructions: IInstruction[]): Promise<SimulationResult> {
     const { value: latestBlockhash } = await this.rpc.getLatestBlockhash().send();
-    
+
     // Build transaction for simulation (without CU limit)
     const simMessage = pipe(
       createTransactionMessage({ version: 0 }),
-      tx => setTransactionMessageFeePayer(this.signer.address, tx),
+      tx => setTransactionMessageFeePayer(this.feePayer.address, tx),
       tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
       tx => appendTransactionMessageInstructions(instructions, tx),
     );
     
-    // Sign for simulation
-    const simTx = await signTransactionMessageWithSigners(simMessage);
+    // Sign for simulation (signatures aren't verified, so offline co-signers may be missing)
+    const simTx = await partiallySignTransactionMessageWithSigners(simMessage);
     
     // Simulate to get actual CU usage
     const simResult = await this.rpc.simulateTransaction(simTx, {
-      commitment: "confirmed",
+      commitment: this.commitment,
       replaceRecentBlockhash: true,
     }).send();
-    
-    // Extract CU consumed and add 10% buffer
-    const cuConsumed = Number(simResult.value.unitsConsumed ?? 200_000);
-    const cuLimit = Math.ceil(cuConsumed * 1.1);
-    
-    // Build final transaction with optimized CU limit
-    const cuLimitIx = getSetComputeUnitLimitInstruction({ units: cuLimit });
-    
-    const finalMessage = pipe(
+
+    return {
+      unitsConsumed: simResult.value.unitsConsumed === undefined ? null : Number(simResult.value.unitsConsumed),
+      err: simResult.value.err,
+      logs: simResult.value.logs ?? [],
+    };
+  }
+
+  /**
+   * Send instructions built by the caller (pass unitsConsumed from a prior simulation to skip re-simulating)
+   */
+  async sendInstructions(instructions: IInstruction[], unitsConsumed?: number | null): Promise<{ signature: string; cuUsed: number; cuLimit: number }> {
+    return this.sendTransaction(instructions, unitsConsumed);
+  }
+
+  /**
+   * Build and partially sign instructions without sending (for --sign-only)
+   *
+   * Signers that aren't local (noop signers: a co-signing fee payer, an
+   * offline authority) are left for `agent-proof sign`. With a durable nonce
+   * the transaction doesn't expire; the 10% CU headroom covers the nonce
+   * advance instruction.
+   */
+  async prepareTransaction(instructions: IInstruction[], durableNonce?: DurableNonceConfig): Promise<PreparedTransaction> {
+    const budget = await this.computeBudget(await this.simulateOrThrow(instructions), this.priorityFee);
+
+    if (durableNonce) {
+      const message = pipe(
+        createTransactionMessage({ version: 0 }),
+        tx => setTransactionMessageFeePayer(this.feePayer.address, tx),
+        tx => setTransactionMessageLifetimeUsingDurableNonce(durableNonce, tx),
+        tx => appendTransactionMessageInstructions([...budget.instructions, ...instructions], tx),
+      );
+      return partiallySignTransactionMessageWithSigners(message);
+    }
+
+    const { value: latestBlockhash } = await this.rpc.getLatestBlockhash().send();
+    const message = pipe(
       createTransactionMessage({ version: 0 }),
-      tx => setTransactionMessageFeePayer(this.signer.address, tx),
+      tx => setTransactionMessageFeePayer(this.feePayer.address, tx),
       tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
-      tx => appendTransactionMessageInstructions([cuLimitIx, ...instructions], tx),
+      tx => appendTransactionMessageInstructions([...budget.instructions, ...instructions], tx),
     );
+    return partiallySignTransactionMessageWithSigners(message);
+  }
 
-    const signedTx = await signTransactionMessageWithSigners(finalMessage);
-    await this.sendAndConfirm(signedTx, { commitment: "confirmed" });
-    
+  /**
+   * Estimate fees and rent for instructions without sending them
+   *
+   * Simulation failures don't throw: an unfunded fee payer can't simulate, but
+   * still needs to know how much to fund. Without simulated usage the priority
+   * fee is priced at the full compute limit (an upper bound).
+   * `transactions` is how many transactions the instructions go out in. The
+   * instructions are simulated together (later ones may depend on earlier
+   * ones), so each transaction is priced at the limit for all of them: an
+   * upper bound on both fees, not an even split.
+   */
+  async estimateCost(instructions: IInstruction[], newAccounts: NewAccount[], transactions = 1): Promise<CostEstimate> {
+    const sim = await this.simulateInstructions(instructions);
+    const computeUnits = sim.err ? null : sim.unitsConsumed;
+    const { cuLimit, priorityFee } = await this.computeBudget(computeUnits, this.priorityFee);
+
+    const signers = new Set<Address>([this.feePayer.address]);
+    for (const ix of instructions) {
+      for (const account of ix.accounts ?? []) {
+        if (isSignerRole(account.role)) signers.add(account.address);
+      }
+    }
+
+    const accounts = await Promise.all(newAccounts.map(async account => ({
+      ...account,
+      rentLamports: BigInt(await this.rpc.getMinimumBalanceForRentExemption(BigInt(account.space)).send()),
+    })));
+    const baseFeeLamports = LAMPORTS_PER_SIGNATURE * BigInt(signers.size * transactions);
+    // micro-lamports per CU, rounded up like the runtime, for every transaction
+    const priorityFeeLamports = (priorityFee * BigInt(cuLimit) + 999_999n) / 1_000_000n * BigInt(transactions);
+    const rentLamports = accounts.reduce((sum, a) => sum + a.rentLamports, 0n);
+
+    return {
+      computeUnits,
+      cuLimit,
+      transactions,
+      signatures: signers.size,
+      baseFeeLamports,
+      priorityFeeMicroLamports: priorityFee,
+      priorityFeeLamports,
+      accounts,
+      rentLamports,
+      totalLamports: baseFeeLamports + priorityFeeLamports + rentLamports,
+      balanceLamports: await this.getBalance(),
+      simulationError: sim.err ? describeSimulationFailure(sim) : null,
+    };
+  }
+
+  /**
+   * Send and confirm a transaction with CU estimation and a priority fee
+   *
+   * Fails before sending if simulation fails. A transaction whose blockhash
+   * expires can no longer land, so it is re-signed on a fresh blockhash (with
+   * "auto" escalated to "max") up to MAX_SEND_ATTEMPTS times.
+   */
+  private async sendTransaction(
+    instructions: IInstruction[],
+    unitsConsumed?: number | null,
+  ): Promise<{ signature: string; cuUsed: number; cuLimit: number }> {
+    const cuConsumed = unitsConsumed === undefined ? await this.simulateOrThrow(instructions) : unitsConsumed;
+
+    for (let attempt = 1; ; attempt++) {
+      const fee: PriorityFee = attempt > 1 && this.priorityFee.mode === "auto" ? { mode: "max" } : this.priorityFee;
+      const budget = await this.computeBudget(cuConsumed, fee);
+      const { value: latestBlockhash } = await this.rpc.getLatestBlockhash().send();
+
+      const finalMessage = pipe(
+        createTransactionMessage({ version: 0 }),
+        tx => setTransactionMessageFeePayer(this.feePayer.address, tx),
+        tx => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
+        tx => appendTransactionMessageInstructions([...budget.instructions, ...instructions], tx),
+      );
+
+      const signedTx = await signTransactionMessageWithSigners(finalMessage);
+      try {
+        await this.sendAndConfirm(signedTx, { commitment: this.commitment });
+      } catch (error) {
+        if (!isSolanaError(error, SOLANA_ERROR__BLOCK_HEIGHT_EXCEEDED)) throw error;
+        if (attempt < MAX_SEND_ATTEMPTS) continue;
+        throw new CliError(ERROR_CODES.TRANSACTION_FAILED, `Transaction expired ${attempt} times without landing`,
+          { priorityFee: budget.priorityFee.toString() },
+          "The cluster is congested. Retry with a higher --priority-fee <micro-lamports>.");
+      }
+
+      return {
+        signature: getSignatureFromTransaction(signedTx),
+        cuUsed: cuConsumed ?? budget.cuLimit,
+        cuLimit: budget.cuLimit,
+      };
+    }
+  }
+
+  /**
+   * Simulate, failing with the program's error instead of sending a transaction that can't succeed
+   */
+  private async simulateOrThrow(instructions: IInstruction[]): Promise<number | null> {
+    const sim = await this.simulateInstructions(instructions);
+    if (sim.err) {
+      throw new CliError(ERROR_CODES.TRANSACTION_FAILED, `Simulation failed: ${describeSimulationFailure(sim)}`,
+        { logs: sim.logs });
+    }
+    return sim.unitsConsumed;
+  }
+
+  /**
+   * Compute budget instructions: simulated CU + 10% and the priority fee
+   */
+  private async computeBudget(
+    unitsConsumed: number | null,
+    fee: PriorityFee,
+  ): Promise<{ instructions: IInstruction[]; cuLimit: number; priorityFee: MicroLamports }> {
+    // Without reported usage, take the full limit rather than guess low
+    const cuLimit = unitsConsumed === null
+      ? MAX_COMPUTE_UNIT_LIMIT
+      : Math.min(Math.ceil(unitsConsumed * 1.1), MAX_COMPUTE_UNIT_LIMIT);
+    const priorityFee = await estimatePriorityFee(this.rpc, fee);
     return {
-      signature: getSignatureFromTransaction(signedTx),
-      cuUsed: cuConsumed,
+      instructions: [
+        getSetComputeUnitLimitInstruction({ units: cuLimit }),
+        ...(priorityFee > 0n ? [getSetComputeUnitPriceInstruction({ microLamports: priorityFee })] : []),
+      ],
       cuLimit,
+      priorityFee,
     };
   }
 }
 
+/**
+ * One-line reason for a failed simulation (the last error log line, else the raw error)
+ */
+export function describeSimulationFailure(sim: SimulationResult): string {
+  const detail = sim.logs.filter(l => l.includes("Error") || l.includes("failed")).pop();
+  return detail ?? stringify(sim.err);
+}
+
+/**
+ * Schema mint account space (mint with the Group pointer extension)
+ */
+export function getSchemaMintSize(sasPda: Address, mint: Address): number {
+  return getMintSize([
+    {
+      __kind: "GroupPointer",
+      authority: sasPda,
+      groupAddress: mint,
+    },
+  ]);
+}
+
+/**
+ * Attestation mint account space (mint with every extension SAS initializes)
+ */
+export function getAttestationMintSize(params: {
+  sasPda: Address;
+  attestation: Address;
+  attestationMint: Address;
+  schema: Address;
+  schemaMint: Address;
+  tokenName: string;
+  tokenSymbol: string;
+  tokenUri: string;
+}): number {
+  const { sasPda, attestation, attestationMint, schema, schemaMint } = params;
+  return getMintSize([
+    {
+      __kind: "GroupMemberPointer",
+      authority: sasPda,
+      memberAddress: attestationMint,
+    },
+    { __kind: "NonTransferable" },
+    {
+      __kind: "MetadataPointer",
+      authority: sasPda,
+      metadataAddress: attestationMint,
+    },
+    { __kind: "PermanentDelegate", delegate: sasPda },
+    { __kind: "MintCloseAuthority", closeAuthority: sasPda },
+    {
+      __kind: "TokenMetadata",
+      updateAuthority: sasPda,
+      mint: attestationMint,
+      name: params.tokenName,
+      symbol: params.tokenSymbol,
+      uri: params.tokenUri,
+      additionalMetadata: new Map([
+        ["attestation", attestation],
+        ["schema", schema],
+      ]),
+    },
+    {
+      __kind: "TokenGroupMember",
+      group: schemaMint,
+      mint: attestationMint,
+      memberNumber: 1,
+    },
+  ]);
+}
+
+/**
+ * Attestation account space: discriminator, nonce, credential, schema,
+ * length-prefixed data, signer, expiry (i64) and token account
+ */
+export function getAttestationSize(data: Uint8Array): number {
+  return 1 + 32 * 3 + 4 + data.length + 32 + 8 + 32;
+}
+
+/** Proof NFT token account: an ATA of a non-transferable mint */
+export const ATTESTATION_TOKEN_ACCOUNT_SIZE = getTokenSize([
+  { __kind: "ImmutableOwner" },
+  { __kind: "NonTransferableAccount" },
+]);
+
 /**
  * Load a keypair from a JSON file (Solana CLI format)
  */
@@ -0,0 +1,269 @@
+/**
+ * Verification server - the `verify` checks over HTTP
+ *
+ *   GET /verify/:attestation   Verification report (the same named checks as `verify`)
+ *   GET /agents/:wallet        Attestations whose proof NFT the wallet holds
+ *   GET /schemas/:address      Schema account, field layout and decoder
+ *   GET /health                RPC reachability and current slot
+ *   GET /metrics               Prometheus text format
+ *
+ * Lookups are cached per path together with the slot they were read at and
+ * served from the cache until the chain has moved `cacheSlots` slots past it.
+ * Verification results are re-evaluated on every hit, so expiry stays exact.
+ */
+
+import {
+  address,
+  createDefaultRpcTransport,
+  createSolanaRpcFromTransport,
+  isJsonRpcPayload,
+  type Address,
+  type RpcTransport,
+} from "@solana/kit";
+import { fetchSchema } from "sas-lib";
+import { getSchemaFieldNames, getSchemaName, resolveSchemaDecoder } from "../schemas/registry";
+import { attestationRecordJson, decodeAttestations, findAttestationsByOwner, type AttestationRecordJson } from "./attestations";
+import { fetchAttestationSnapshot, verifySnapshot, type VerificationReport } from "./verification";
+import { MetricsRegistry } from "./metrics";
+import { CliError, ERROR_CODES, stringify, toCliError, type ErrorCode } from "./output";
+
+export const DEFAULT_CACHE_SLOTS = 150;
+export const MAX_CACHE_ENTRIES = 10_000;
+/** How long a fetched slot is reused before asking the RPC again */
+const SLOT_REFRESH_MS = 1000;
+
+export interface VerificationServerOptions {
+  rpcUrl: string;
+  port: number;
+  hostname: string;
+  cacheSlots: number;
+  /** Called after every request (for access logging) */
+  onRequest?: (request: Request, status: number, durationMs: number) => void;
+}
+
+/**
+ * Data returned by GET /schemas/:address
+ */
+export interface SchemaInfo {
+  address: string;
+  credential: string;
+  name: string;
+  description: string;
+  version: number;
+  paused: boolean;
+  layout: number[];
+  fieldNames: string[];
+  decoder: string;
+}
+
+/**
+ * Data returned by GET /health
+ */
+export interface HealthInfo {
+  status: "ok";
+  slot: string;
+  uptimeSeconds: number;
+  cacheEntries: number;
+}
+
+interface CacheEntry {
+  slot: bigint;
+  value: unknown;
+}
+
+type Route = "verify" | "agents" | "schemas" | "health" | "metrics" | "unknown";
+
+const ERROR_STATUS: Partial<Record<ErrorCode, number>> = {
+  [ERROR_CODES.INVALID_ARGUMENT]: 400,
+  [ERROR_CODES.INVALID_ADDRESS]: 400,
+  [ERROR_CODES.ACCOUNT_NOT_FOUND]: 404,
+  [ERROR_CODES.RPC_ERROR]: 502,
+};
+
+/**
+ * Start the HTTP server
+ */
+export function startVerificationServer(options: VerificationServerOptions) {
+  const startedAt = Date.now();
+  const metrics = new MetricsRegistry();
+  const requests = metrics.counter("agent_proof_http_requests_total", "HTTP requests by route and status code");
+  const lookups = metrics.counter("agent_proof_lookups_total", "Lookups by route and cache result");
+  const rpcDuration = metrics.histogram("agent_proof_rpc_request_duration_seconds", "RPC request latency by method");
+  const rpcErrors = metrics.counter("agent_proof_rpc_errors_total", "Failed RPC requests by method");
+
+  // Time every RPC call by its JSON-RPC method
+  const transport = createDefaultRpcTransport({ url: options.rpcUrl });
+  const timedTransport: RpcTransport = async config => {
+    const method = isJsonRpcPayload(config.payload) ? config.payload.method : "batch";
+    const start = performance.now();
+    try {
+      return await transport(config);
+    } catch (error) {
+      rpcErrors.inc({ method });
+      throw error;
+    } finally {
+      rpcDuration.observe({ method }, (performance.now() - start) / 1000);
+    }
+  };
+  const rpc = createSolanaRpcFromTransport(timedTransport);
+
+  const cache = new Map<string, CacheEntry>();
+  metrics.gauge("agent_proof_cache_entries", "Cached lookups", () => cache.size);
+
+  let slot: { value: bigint; fetchedAt: number } | null = null;
+  let slotRequest: Promise<bigint> | null = null;
+  const currentSlot = async (): Promise<bigint> => {
+    if (slot && Date.now() - slot.fetchedAt < SLOT_REFRESH_MS) return slot.value;
+    slotRequest ??= rpc.getSlot().send()
+      .then(value => {
+        slot = { value, fetchedAt: Date.now() };
+        return value;
+      })
+      .finally(() => { slotRequest = null; });
+    return slotRequest;
+  };
+
+  const cached = async <T>(route: Route, key: string, load: () => Promise<T>): Promise<{ value: T; slot: bigint }> => {
+    const now = await currentSlot();
+    const entry = cache.get(key);
+    if (entry && now - entry.slot < BigInt(options.cacheSlots)) {
+      lookups.inc({ route, cache: "hit" });
+      return { value: entry.value as T, slot: entry.slot };
+    }
+    lookups.inc({ route, cache: "miss" });
+    const value = await load();
+    if (cache.size >= MAX_CACHE_ENTRIES) {
+      // Maps iterate in insertion order: drop the oldest entry
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.delete(key);
+    cache.set(key, { slot: now, value });
+    return { value, slot: now };
+  };
+
+  const handlers: Record<Exclude<Route, "metrics" | "unknown">, (param: string) => Promise<{ data: unknown; slot: bigint }>> = {
+    verify: async param => {
+      const attestation = parseAddress(param);
+      const { value: snapshot, slot } = await cached("verify", `verify:${attestation}`,
+        () => fetchAttestationSnapshot(rpc, attestation, { withToken: true }));
+      return { data: await verifySnapshot(snapshot) satisfies VerificationReport, slot };
+    },
+
+    agents: async param => {
+      const wallet = parseAddress(param);
+      const { value, slot } = await cached("agents", `agents:${wallet}`, async () => {
+        const records = await decodeAttestations(rpc, await findAttestationsByOwner(rpc, wallet));
+        return records.map(attestationRecordJson);
+      });
+      return { data: { wallet, attestations: value satisfies AttestationRecordJson[] }, slot };
+    },
+
+    schemas: async param => {
+      const schemaAddress = parseAddress(param);
+      const { value, slot } = await cached("schemas", `schemas:${schemaAddress}`, async (): Promise<SchemaInfo> => {
+        const { data: schema } = await fetchSchema(rpc, schemaAddress);
+        return {
+          address: schemaAddress,
+          credential: schema.credential,
+          name: getSchemaName(schema),
+          description: new TextDecoder().decode(Uint8Array.from(schema.description)),
+          version: schema.version,
+          paused: schema.isPaused,
+          layout: Array.from(schema.layout),
+          fieldNames: getSchemaFieldNames(schema),
+          decoder: resolveSchemaDecoder(schema, schemaAddress).id,
+        };
+      });
+      return { data: value, slot };
+    },
+
+    health: async () => {
+      slot = null;
+      const value = await currentSlot();
+      return {
+        data: {
+          status: "ok",
+          slot: value.toString(),
+          uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+          cacheEntries: cache.size,
+        } satisfies HealthInfo,
+        slot: value,
+      };
+    },
+  };
+
+  const handle = async (request: Request): Promise<{ route: Route; response: Response }> => {
+    const { pathname } = new URL(request.url);
+    const [, name, param, ...rest] = pathname.split("/");
+
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return { route: "unknown", response: errorResponse(405, "METHOD_NOT_ALLOWED", "Only GET is supported") };
+    }
+    if (name === "metrics" && param === undefined) {
+      return {
+        route: "metrics",
+        response: new Response(metrics.render(), {
+          headers: { "content-type": "text/plain; version=0.0.4; charset=utf-8" },
+        }),
+      };
+    }
+
+    const route = name as keyof typeof handlers;
+    const matches = Object.hasOwn(handlers, route) && rest.length === 0
+      && (route === "health" ? param === undefined : !!param);
+    if (!matches) {
+      return { route: "unknown", response: errorResponse(404, "NOT_FOUND", `No route for ${pathname}`) };
+    }
+
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(param ?? "");
+    } catch {
+      return { route, response: errorResponse(400, ERROR_CODES.INVALID_ADDRESS, `Invalid address "${param}"`) };
+    }
+
+    try {
+      const { data, slot } = await handlers[route](decoded);
+      return {
+        route,
+        response: new Response(stringify({ ok: true, slot, data }), {
+          headers: { "content-type": "application/json" },
+        }),
+      };
+    } catch (error) {
+      const cliError = toCliError(error);
+      const status = route === "health" ? 503 : ERROR_STATUS[cliError.code] ?? 500;
+      return { route, response: errorResponse(status, cliError.code, cliError.message, cliError.details) };
+    }
+  };
+
+  return Bun.serve({
+    port: options.port,
+    hostname: options.hostname,
+    async fetch(request) {
+      const start = performance.now();
+      const { route, response } = await handle(request);
+      requests.inc({ route, status: String(response.status) });
+      options.onRequest?.(request, response.status, performance.now() - start);
+      return response;
+    },
+  });
+}
+
+function parseAddress(value: string): Address {
+  try {
+    return address(value);
+  } catch {
+    throw new CliError(ERROR_CODES.INVALID_ADDRESS, `Invalid address "${value}"`);
+  }
+}
+
+/**
+ * JSON error response in the CLI's failure envelope
+ */
+export function errorResponse(status: number, code: string, message: string, details?: Record<string, unknown>): Response {
+  return new Response(
+    stringify({ ok: false, error: { code, message, ...(details ? { details } : {}) } }),
+    { status, headers: { "content-type": "application/json" } },
+  );
+}
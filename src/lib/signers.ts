@@ -0,0 +1,217 @@
+/**
+ * Signers - where the signing key comes from
+ *
+ * Every command that signs takes a signer spec (`-k, --keypair`, or the
+ * profile's `keypair` field):
+ *
+ *   <path>           Solana CLI JSON keypair file (the default, ~/.config/solana/id.json)
+ *   env:<VAR>        Base58 64-byte secret key in an environment variable
+ *   exec:<command>   External signer process; the key never leaves it
+ *   pubkey:<address> Address only, signs nothing (with --sign-only, for a key
+ *                    held offline that signs later with `agent-proof sign`)
+ *
+ * External signer protocol: the command is started once (via `sh -c`) and
+ * spoken to in newline-delimited JSON on stdin/stdout. Each request carries an
+ * `id` that the response echoes; a response may carry `error` instead.
+ *
+ *   → {"id":1,"method":"publicKey"}
+ *   ← {"id":1,"publicKey":"<base58 address>"}
+ *   → {"id":2,"method":"sign","kind":"transaction"|"message","message":"<base64 bytes>"}
+ *   ← {"id":2,"signature":"<base58 Ed25519 signature>"}
+ *
+ * `kind` lets the daemon apply policy: "transaction" bytes are a Solana
+ * transaction message, "message" bytes are an off-chain message (challenge
+ * responses, request signatures). Returned signatures are verified locally
+ * before use.
+ */
+
+import {
+  address,
+  createKeyPairSignerFromBytes,
+  createNoopSigner,
+  createSignableMessage,
+  getBase58Decoder,
+  getBase58Encoder,
+  getBase64Decoder,
+  getPublicKeyFromAddress,
+  verifySignature,
+  type Address,
+  type MessagePartialSigner,
+  type SignatureBytes,
+  type SignatureDictionary,
+  type TransactionPartialSigner,
+} from "@solana/kit";
+import { loadKeypairFromFile } from "./sas-client";
+import { getActiveNetwork, resolveKeypairPath } from "./profiles";
+import { CliError, ERROR_CODES, toCliError } from "./output";
+
+/**
+ * A signer that can sign transactions and off-chain messages (KeyPairSigner is one)
+ */
+export type AgentSigner = TransactionPartialSigner & MessagePartialSigner;
+
+/** How long to wait for the external signer (it may ask a human to approve) */
+export const EXTERNAL_SIGNER_TIMEOUT_MS = 120_000;
+
+/**
+ * Load the signer for a spec, defaulting to the active profile's keypair
+ */
+export async function loadSigner(spec?: string): Promise<AgentSigner> {
+  const resolved = spec || getActiveNetwork().keypair;
+
+  if (resolved.startsWith("env:")) {
+    return createEnvSigner(resolved.slice("env:".length));
+  }
+  if (resolved.startsWith("exec:")) {
+    return createExternalSigner(resolved.slice("exec:".length));
+  }
+  if (resolved.startsWith("pubkey:")) {
+    try {
+      return createNoopSigner(address(resolved.slice("pubkey:".length)));
+    } catch {
+      throw new CliError(ERROR_CODES.INVALID_ADDRESS, `Invalid address in signer "${resolved}"`);
+    }
+  }
+  const path = resolveKeypairPath(resolved);
+  if (!(await Bun.file(path).exists())) {
+    throw new CliError(ERROR_CODES.FILE_NOT_FOUND, `Keypair file not found: ${path}`, undefined,
+      "Pass -k <path>, env:<VAR> or exec:<command>, or run: solana-keygen new");
+  }
+  return loadKeypairFromFile(path);
+}
+
+/**
+ * Sign raw bytes with any message signer
+ */
+export async function signMessageBytes(signer: MessagePartialSigner, message: Uint8Array): Promise<SignatureBytes> {
+  const [signatures] = await signer.signMessages([createSignableMessage(message)]);
+  return signatures[signer.address];
+}
+
+/**
+ * Signer from a base58 secret key in an environment variable
+ */
+export async function createEnvSigner(name: string): Promise<AgentSigner> {
+  const value = process.env[name];
+  if (!value) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `Environment variable ${name} is not set`);
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(getBase58Encoder().encode(value.trim()));
+  } catch {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${name} is not base58`);
+  }
+  if (bytes.length !== 64) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, `${name} must hold a 64-byte secret key (got ${bytes.length} bytes)`);
+  }
+  return createKeyPairSignerFromBytes(bytes);
+}
+
+/**
+ * Signer backed by an external process speaking the protocol above
+ */
+export async function createExternalSigner(command: string): Promise<AgentSigner> {
+  if (!command.trim()) {
+    throw new CliError(ERROR_CODES.INVALID_ARGUMENT, "exec: signer needs a command");
+  }
+
+  const proc = Bun.spawn(["sh", "-c", command], { stdin: "pipe", stdout: "pipe", stderr: "inherit", env: process.env });
+  // The signer lives as long as the CLI and must not keep it running
+  proc.unref();
+  process.once("exit", () => proc.kill());
+
+  const pending = new Map<number, { resolve: (value: Record<string, unknown>) => void; reject: (error: Error) => void }>();
+  let nextId = 1;
+
+  const failAll = (error: Error) => {
+    for (const { reject } of pending.values()) reject(error);
+    pending.clear();
+  };
+
+  // Read newline-delimited responses in the background
+  (async () => {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of proc.stdout) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+        let message: Record<string, unknown>;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          failAll(new CliError(ERROR_CODES.UNKNOWN, `External signer wrote invalid JSON: ${line.slice(0, 80)}`));
+          continue;
+        }
+        const waiter = pending.get(message.id as number);
+        if (!waiter) continue;
+        pending.delete(message.id as number);
+        if (typeof message.error === "string") {
+          waiter.reject(new CliError(ERROR_CODES.UNKNOWN, `External signer refused: ${message.error}`));
+        } else {
+          waiter.resolve(message);
+        }
+      }
+    }
+    failAll(new CliError(ERROR_CODES.UNKNOWN, "External signer exited"));
+  })().catch(error => failAll(toCliError(error)));
+
+  const request = (body: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      // The pending timer is what keeps the CLI alive while the signer works
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new CliError(ERROR_CODES.UNKNOWN, `External signer did not answer within ${EXTERNAL_SIGNER_TIMEOUT_MS / 1000}s`));
+      }, EXTERNAL_SIGNER_TIMEOUT_MS);
+      pending.set(id, {
+        resolve: value => { clearTimeout(timer); resolve(value); },
+        reject: error => { clearTimeout(timer); reject(error); },
+      });
+      try {
+        proc.stdin.write(JSON.stringify({ id, ...body }) + "\n");
+        proc.stdin.flush();
+      } catch (error) {
+        // The signer closed its stdin (or exited): nothing will answer this request
+        pending.get(id)?.reject(new CliError(ERROR_CODES.UNKNOWN, `External signer is not accepting requests: ${(error as Error).message}`));
+        pending.delete(id);
+      }
+    });
+  };
+
+  const { publicKey } = await request({ method: "publicKey" });
+  let signerAddress: Address;
+  try {
+    signerAddress = address(publicKey as string);
+  } catch {
+    throw new CliError(ERROR_CODES.INVALID_ADDRESS, `External signer returned an invalid public key "${publicKey}"`);
+  }
+  const cryptoKey = await getPublicKeyFromAddress(signerAddress);
+
+  const sign = async (bytes: Uint8Array, kind: "transaction" | "message"): Promise<SignatureBytes> => {
+    const { signature } = await request({ method: "sign", kind, message: getBase64Decoder().decode(bytes) });
+    let signatureBytes: SignatureBytes;
+    try {
+      signatureBytes = getBase58Encoder().encode(signature as string) as SignatureBytes;
+    } catch {
+      signatureBytes = new Uint8Array() as SignatureBytes;
+    }
+    if (signatureBytes.length !== 64 || !await verifySignature(cryptoKey, signatureBytes, bytes)) {
+      throw new CliError(ERROR_CODES.UNKNOWN, `External signer returned a signature that does not verify for ${signerAddress}`,
+        { signature: typeof signature === "string" ? signature : getBase58Decoder().decode(signatureBytes) });
+    }
+    return signatureBytes;
+  };
+
+  return {
+    address: signerAddress,
+    signTransactions: async transactions => Promise.all(transactions.map(async transaction =>
+      ({ [signerAddress]: await sign(Uint8Array.from(transaction.messageBytes), "transaction") }) as SignatureDictionary)),
+    signMessages: async messages => Promise.all(messages.map(async message =>
+      ({ [signerAddress]: await sign(Uint8Array.from(message.content), "message") }) as SignatureDictionary)),
+  };
+}
@@ -28,6 +28,8 @@ import {
   estimateComputeUnitLimitFactory,
 } from "@solana-program/compute-budget";
 import { Client } from "./client.js";
+import { estimatePriorityFee, parsePriorityFee } from "./fees.js";
+import { getActiveNetwork } from "./profiles.js";
 
 /**
  * Create a default transaction message with compute budget
@@ -36,7 +38,7 @@ export async function createDefaultTransaction(
   client: Client,
   feePayer: TransactionSigner,
   computeLimit: number = MAX_COMPUTE_UNIT_LIMIT,
-  feeMicroLamports: MicroLamports = 1n as MicroLamports
+  feeMicroLamports: MicroLamports = 0n as MicroLamports
 ) {
   const { value: latestBlockhash } = await client.rpc
     .getLatestBlockhash()
@@ -46,7 +48,7 @@ export async function createDefaultTransaction(
     createTransactionMessage({ version: 0 }),
     (tx) => setTransactionMessageFeePayerSigner(feePayer, tx),
     (tx) => setTransactionMessageLifetimeUsingBlockhash(latestBlockhash, tx),
-    (tx) => updateOrAppendSetComputeUnitPriceInstruction(feeMicroLamports, tx),
+    (tx) => (feeMicroLamports > 0n ? updateOrAppendSetComputeUnitPriceInstruction(feeMicroLamports, tx) : tx),
     (tx) => updateOrAppendSetComputeUnitLimitInstruction(computeLimit, tx)
   );
 }
@@ -69,9 +71,10 @@ export async function sendAndConfirmInstructions(
   const estimateCompute = estimateComputeUnitLimitFactory({ rpc: client.rpc });
   const computeUnitLimit = await estimateCompute(simulationTx);
 
-  // Build final transaction with accurate compute limit
+  // Build final transaction with accurate compute limit and the network's priority fee
+  const priorityFee = await estimatePriorityFee(client.rpc, parsePriorityFee(getActiveNetwork().priorityFee));
   const signature = await pipe(
-    await createDefaultTransaction(client, payer, computeUnitLimit),
+    await createDefaultTransaction(client, payer, computeUnitLimit, priorityFee),
     (tx) => appendTransactionMessageInstructions(instructions, tx),
     async (tx) => {
       const signedTx = await signTransactionMessageWithSigners(tx);
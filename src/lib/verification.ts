@@ -0,0 +1,255 @@
+/**
+ * Verification core - the checks behind `verify`, shared with `serve`
+ *
+ * Works on an AttestationSnapshot, fetched live or read from a bundle.
+ * evaluateSnapshot covers the attestation itself; checkSnapshot adds the
+ * proof NFT (mint, holder, extensions and metadata) as named checks.
+ */
+
+import { isSome, type Address, type GetAccountInfoApi, type Rpc } from "@solana/kit";
+import { deriveAttestationMintPda, deriveSchemaMintPda, fetchMaybeCredential } from "sas-lib";
+import {
+  fetchMaybeMint,
+  fetchMaybeToken,
+  TOKEN_2022_PROGRAM_ADDRESS,
+  type Extension,
+  type Mint,
+} from "@solana-program/token-2022";
+import { fetchDecodedAttestation } from "./attestations";
+import { formatExpiry } from "./expiry";
+import type { AttestationSnapshot } from "./bundle";
+
+/**
+ * Outcome of the standard checks on one attestation
+ */
+export interface AttestationVerification {
+  attestation: string;
+  valid: boolean;
+  expired: boolean;
+  paused: boolean;
+  credential: string;
+  schema: string;
+  signer: string;
+  /** Whether the signer is still one of the credential's authorized signers (null if the credential is unknown) */
+  signerAuthorized: boolean | null;
+  tokenMint: string | null;
+  decoder: string;
+  data: Record<string, unknown>;
+  createdAt: string | null;
+  /** null for a non-expiring attestation */
+  expiresAt: string | null;
+}
+
+/** unchecked: the snapshot lacks the accounts the check reads, so it could not run */
+export type CheckStatus = "pass" | "fail" | "warn" | "unchecked";
+
+/**
+ * One named check in a verification report
+ */
+export interface VerificationCheck {
+  name: string;
+  status: CheckStatus;
+  /** A required check that fails or could not run makes the attestation invalid */
+  required: boolean;
+  message: string;
+}
+
+/**
+ * Outcome of every check on one attestation (what `verify`, `serve` and the gate report)
+ */
+export interface VerificationReport extends AttestationVerification {
+  /** Every named check; `valid` is false unless every required one passes */
+  checks: VerificationCheck[];
+}
+
+/**
+ * Fetch live attestation state (the online equivalent of a bundle)
+ */
+export async function fetchAttestationSnapshot(
+  rpc: Rpc<GetAccountInfoApi>,
+  attestationAddress: Address,
+  options: { withToken?: boolean } = {},
+): Promise<AttestationSnapshot> {
+  // Fetch the attestation and its schema, then deserialize with the registered decoder
+  const { attestation, schema, decoder, data } = await fetchDecodedAttestation(rpc, attestationAddress);
+
+  // The proof NFT mint is missing once burned (or if the attestation was never tokenized)
+  const [mintAddress] = await deriveAttestationMintPda({ attestation: attestationAddress });
+  const mintAccount = await fetchMaybeMint(rpc, mintAddress);
+  const mint = mintAccount.exists && mintAccount.programAddress === TOKEN_2022_PROGRAM_ADDRESS ? mintAccount.data : null;
+
+  let token: AttestationSnapshot["token"];
+  if (options.withToken) {
+    const tokenAccount = await fetchMaybeToken(rpc, attestation.tokenAccount);
+    token = tokenAccount.exists && tokenAccount.programAddress === TOKEN_2022_PROGRAM_ADDRESS ? tokenAccount.data : null;
+  }
+
+  const credential = await fetchMaybeCredential(rpc, attestation.credential);
+
+  return {
+    address: attestationAddress,
+    attestation,
+    schema,
+    credential: credential.exists ? credential.data : null,
+    decoder,
+    data,
+    tokenMint: mint ? mintAddress : null,
+    holder: token?.owner ?? null,
+    mint,
+    token,
+  };
+}
+
+/**
+ * Run the expiry, pause, credential and signer checks on a snapshot
+ *
+ * A signer removed from the credential is reported, but does not make the
+ * attestation invalid: operators rotate, and their past attestations stand.
+ * A credential that does not exist does.
+ */
+export function evaluateSnapshot(snapshot: AttestationSnapshot, now = Date.now()): AttestationVerification {
+  const { address, attestation, schema, credential, decoder, data, tokenMint } = snapshot;
+  const isExpired = attestation.expiry > 0n && BigInt(Math.floor(now / 1000)) >= attestation.expiry;
+  const createdAt = decoder.createdAt?.(data) ?? null;
+
+  return {
+    attestation: address,
+    valid: !isExpired && !schema.isPaused && credential !== null,
+    expired: isExpired,
+    paused: schema.isPaused,
+    credential: attestation.credential,
+    schema: attestation.schema,
+    signer: attestation.signer,
+    signerAuthorized: credential ? credential.authorizedSigners.includes(attestation.signer) : null,
+    tokenMint,
+    decoder: decoder.id,
+    data,
+    createdAt: createdAt?.toISOString() ?? null,
+    expiresAt: formatExpiry(attestation.expiry),
+  };
+}
+
+/**
+ * Run every check on a snapshot, the proof NFT included
+ *
+ * Required checks decide validity. A signer since removed from the credential
+ * only warns (see evaluateSnapshot). Checks the snapshot has no accounts for,
+ * such as the mint when reading the local index, are reported as unchecked,
+ * which leaves the attestation unverified rather than valid.
+ */
+export async function checkSnapshot(snapshot: AttestationSnapshot, now = Date.now()): Promise<VerificationCheck[]> {
+  const { address, attestation, decoder, data, mint, token, holder } = snapshot;
+  const verification = evaluateSnapshot(snapshot, now);
+  const [expectedMint] = await deriveAttestationMintPda({ attestation: address });
+  const [schemaMint] = await deriveSchemaMintPda({ schema: attestation.schema });
+
+  const checks: VerificationCheck[] = [];
+  const check = (name: string, required: boolean, status: CheckStatus, message: string) => {
+    checks.push({ name, status, required, message });
+  };
+  // Checks that read the proof NFT mint
+  const checkMint = (name: string, run: (mint: Mint, extensions: Extension[]) => [CheckStatus, string]) => {
+    if (mint === undefined) {
+      check(name, true, "unchecked", "Not checked: the snapshot has no mint account");
+    } else if (mint === null) {
+      check(name, true, "fail", `Proof NFT mint ${expectedMint} does not exist`);
+    } else {
+      check(name, true, ...run(mint, isSome(mint.extensions) ? mint.extensions.value : []));
+    }
+  };
+
+  check("decoded", true, "pass", `Attestation data decodes as ${decoder.id}`);
+  check("expiry", true, verification.expired ? "fail" : "pass", verification.expiresAt
+    ? `${verification.expired ? "Expired" : "Expires"} ${verification.expiresAt}`
+    : "Never expires");
+  check("schema-active", true, verification.paused ? "fail" : "pass", verification.paused
+    ? "Schema has been paused by the issuer"
+    : "Schema is not paused");
+  check("credential", true, snapshot.credential ? "pass" : "fail", snapshot.credential
+    ? `Credential ${attestation.credential} exists`
+    : `Credential ${attestation.credential} does not exist`);
+  check("signer-authorized", false,
+    verification.signerAuthorized === null ? "unchecked" : verification.signerAuthorized ? "pass" : "warn",
+    verification.signerAuthorized === null ? "Not checked: the credential does not exist"
+      : verification.signerAuthorized ? `${attestation.signer} is an authorized signer of the credential`
+      : `${attestation.signer} has since been removed from the credential's signers`);
+
+  checkMint("nft-mint", mint => mint.supply === 1n
+    ? ["pass", `Proof NFT mint ${expectedMint} exists`]
+    : ["fail", `Proof NFT mint ${expectedMint} has supply ${mint.supply}, expected 1`]);
+
+  if (token === undefined) {
+    check("nft-held", true, holder ? "pass" : "unchecked", holder
+      ? `Held by ${holder} (as indexed)`
+      : "Not checked: the snapshot has no token account");
+  } else if (token === null) {
+    check("nft-held", true, "fail", `Token account ${attestation.tokenAccount} does not exist`);
+  } else if (token.mint !== expectedMint) {
+    check("nft-held", true, "fail", `Token account ${attestation.tokenAccount} holds mint ${token.mint}, not the proof NFT`);
+  } else {
+    check("nft-held", true, token.amount === 1n ? "pass" : "fail", token.amount === 1n
+      ? `Held by ${token.owner}`
+      : `Token account ${attestation.tokenAccount} holds ${token.amount} proof NFTs, expected 1`);
+  }
+
+  const owner = typeof data.owner_pubkey === "string" ? data.owner_pubkey : null;
+  if (!owner) {
+    // Nothing to compare against: not a check that could have run
+    check("holder-owner", false, "warn", `Not applicable: ${decoder.id} has no owner_pubkey field`);
+  } else if (!holder) {
+    check("holder-owner", true, token === undefined ? "unchecked" : "fail", token === undefined
+      ? "Not checked: the snapshot has no token account"
+      : "No wallet holds the proof NFT");
+  } else {
+    check("holder-owner", true, holder === owner ? "pass" : "fail", holder === owner
+      ? `Holder matches owner_pubkey ${owner}`
+      : `Held by ${holder}, but owner_pubkey is ${owner}`);
+  }
+
+  checkMint("non-transferable", (_, extensions) => extensions.some(e => e.__kind === "NonTransferable")
+    ? ["pass", "Mint has the NonTransferable extension"]
+    : ["fail", "Mint is missing the NonTransferable extension"]);
+
+  checkMint("group-member", (_, extensions) => {
+    const member = extensions.find(e => e.__kind === "TokenGroupMember");
+    if (!member) return ["fail", "Mint is not a member of any token group"];
+    return member.group === schemaMint && member.mint === expectedMint
+      ? ["pass", `Member #${member.memberNumber} of schema mint ${schemaMint}`]
+      : ["fail", `Member of group ${member.group}, not schema mint ${schemaMint}`];
+  });
+
+  checkMint("metadata", (_, extensions) => {
+    const metadata = extensions.find(e => e.__kind === "TokenMetadata");
+    if (!metadata) return ["fail", "Mint has no token metadata"];
+    const problems = [
+      metadata.additionalMetadata.get("attestation") !== address ? `attestation is ${metadata.additionalMetadata.get("attestation") ?? "unset"}` : null,
+      metadata.additionalMetadata.get("schema") !== attestation.schema ? `schema is ${metadata.additionalMetadata.get("schema") ?? "unset"}` : null,
+    ].filter(p => p !== null);
+    return problems.length === 0
+      ? ["pass", "Token metadata points back to the attestation and schema"]
+      : ["fail", `Token metadata ${problems.join(", ")}`];
+  });
+
+  return checks;
+}
+
+/**
+ * Run every check and fold the required ones into `valid`
+ *
+ * Pass a snapshot fetched with `withToken`, or the NFT holder checks can't run.
+ */
+export async function verifySnapshot(snapshot: AttestationSnapshot, now = Date.now()): Promise<VerificationReport> {
+  const checks = await checkSnapshot(snapshot, now);
+  return {
+    ...evaluateSnapshot(snapshot, now),
+    valid: failedChecks(checks).length === 0,
+    checks,
+  };
+}
+
+/**
+ * Required checks that did not pass (failed, or could not run)
+ */
+export function failedChecks(checks: VerificationCheck[]): VerificationCheck[] {
+  return checks.filter(c => c.required && c.status !== "pass");
+}
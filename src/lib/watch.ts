@@ -0,0 +1,247 @@
+/**
+ * Attestation watcher - lifecycle events from SAS account subscriptions
+ *
+ *   created   A new attestation matching the filter
+ *   revoked   A watched attestation's account was closed
+ *   expiring  A watched attestation expires within the window (once each)
+ *
+ * New attestations arrive through a program subscription filtered like
+ * `findAttestations`. A closed account no longer belongs to the program (nor
+ * matches its filters), so closes come from per-account subscriptions
+ * instead. RPC providers limit subscriptions per connection, so only the first
+ * MAX_ACCOUNT_SUBSCRIPTIONS watched attestations get one; the rest are polled
+ * for closes with getMultipleAccounts alongside the expiry check, so their
+ * revocations are reported up to a minute late. Attestations that exist at
+ * start are loaded once and only reported when they are revoked or start
+ * expiring.
+ *
+ * Nothing is replayed: events that happen while the watcher isn't running
+ * are not reported.
+ */
+
+import {
+  getBase64Encoder,
+  type Address,
+  type Slot,
+} from "@solana/kit";
+import {
+  deriveAttestationMintPda,
+  getAttestationDecoder,
+  SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS,
+  type Attestation,
+} from "sas-lib";
+import { findAssociatedTokenPda, TOKEN_2022_PROGRAM_ADDRESS } from "@solana-program/token-2022";
+import type { Client } from "./client";
+import {
+  attestationFilters,
+  attestationRecordJson,
+  decodeAttestations,
+  findAttestations,
+  findAttestationsByOwner,
+  type AttestationFilter,
+  type AttestationRecord,
+  type AttestationRecordJson,
+} from "./attestations";
+
+export const DEFAULT_EXPIRING_WITHIN_DAYS = 7;
+/** How often watched attestations are checked for upcoming expiry (and polled for closes) */
+const EXPIRY_CHECK_MS = 60_000;
+/** Account subscriptions per watcher; attestations beyond this are polled */
+export const MAX_ACCOUNT_SUBSCRIPTIONS = 256;
+const MULTIPLE_ACCOUNTS_LIMIT = 100;
+
+export type WatchEventType = "created" | "revoked" | "expiring";
+
+export interface WatchEvent {
+  event: WatchEventType;
+  /** When the watcher saw it */
+  time: string;
+  /** Slot of the account change, null for expiry checks */
+  slot: string | null;
+  attestation: AttestationRecordJson;
+}
+
+export interface WatchFilter extends AttestationFilter {
+  /** Only attestations whose proof NFT this wallet holds */
+  wallet?: Address;
+}
+
+export interface AttestationWatcherOptions {
+  client: Client;
+  filter: WatchFilter;
+  expiringWithinSeconds: number;
+  onEvent: (event: WatchEvent) => void;
+}
+
+export interface AttestationWatcher {
+  /** Attestations watched at start */
+  initial: number;
+  /** Resolves on stop(), rejects if a subscription fails */
+  done: Promise<void>;
+  stop(): void;
+}
+
+/**
+ * Load the matching attestations and start streaming their lifecycle events
+ */
+export async function startAttestationWatcher(options: AttestationWatcherOptions): Promise<AttestationWatcher> {
+  const { client, filter, expiringWithinSeconds, onEvent } = options;
+  const abort = new AbortController();
+  const watched = new Map<Address, AttestationRecord>();
+  const warned = new Set<Address>();
+  /** Watched attestations without an account subscription */
+  const polled = new Set<Address>();
+  let subscriptions = 0;
+
+  let failWatcher: (error: unknown) => void = () => {};
+  const done = new Promise<void>((resolve, reject) => {
+    abort.signal.addEventListener("abort", () => resolve());
+    failWatcher = error => {
+      if (abort.signal.aborted) return;
+      abort.abort();
+      reject(error);
+    };
+  });
+
+  const report = (event: WatchEventType, record: AttestationRecord, slot: Slot | null) => {
+    onEvent({
+      event,
+      time: new Date().toISOString(),
+      slot: slot === null ? null : slot.toString(),
+      attestation: attestationRecordJson(record),
+    });
+  };
+
+  const revoked = (address: Address, slot: Slot) => {
+    const record = watched.get(address);
+    if (!record) return;
+    watched.delete(address);
+    polled.delete(address);
+    report("revoked", record, slot);
+  };
+
+  const watchAccount = async (record: AttestationRecord) => {
+    const stream = await client.rpcSubscriptions
+      .accountNotifications(record.address, { encoding: "base64" })
+      .subscribe({ abortSignal: abort.signal });
+    for await (const { context, value } of stream) {
+      if (value.lamports === 0n || value.data[0].length === 0) {
+        revoked(record.address, context.slot);
+        return;
+      }
+    }
+  };
+
+  const watch = (record: AttestationRecord) => {
+    watched.set(record.address, record);
+    if (subscriptions >= MAX_ACCOUNT_SUBSCRIPTIONS) {
+      polled.add(record.address);
+      return;
+    }
+    subscriptions++;
+    watchAccount(record)
+      .finally(() => subscriptions--)
+      .catch(failWatcher);
+  };
+
+  // Closes of attestations beyond the subscription cap
+  let polling = false;
+  const pollClosed = async () => {
+    if (polling || polled.size === 0) return;
+    polling = true;
+    try {
+      const addresses = [...polled];
+      for (let i = 0; i < addresses.length; i += MULTIPLE_ACCOUNTS_LIMIT) {
+        const chunk = addresses.slice(i, i + MULTIPLE_ACCOUNTS_LIMIT);
+        const { context, value } = await client.rpc.getMultipleAccounts(chunk, { encoding: "base64" }).send();
+        value.forEach((account, j) => {
+          if (!account || account.lamports === 0n || account.owner !== SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS) {
+            revoked(chunk[j], context.slot);
+          }
+        });
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  const decoder = getAttestationDecoder();
+  const base64 = getBase64Encoder();
+  const onProgramChange = async (pubkey: Address, lamports: bigint, data: string, slot: Slot) => {
+    if (watched.has(pubkey) || lamports === 0n) return;
+    const attestation = decoder.decode(base64.encode(data));
+    if (filter.wallet && !(await heldBy(pubkey, attestation, filter.wallet))) return;
+    const [record] = await decodeAttestations(client.rpc, [{ address: pubkey, attestation }]);
+    watch(record);
+    report("created", record, slot);
+  };
+
+  // Subscribe before loading so nothing created in between is missed: changes
+  // queue up behind the load and are handled one at a time, in order
+  const programStream = await client.rpcSubscriptions
+    .programNotifications(SOLANA_ATTESTATION_SERVICE_PROGRAM_ADDRESS, {
+      encoding: "base64",
+      filters: attestationFilters(filter),
+    })
+    .subscribe({ abortSignal: abort.signal });
+  let loaded: () => void = () => {};
+  let queue = new Promise<void>(resolve => { loaded = resolve; });
+  (async () => {
+    for await (const { context, value } of programStream) {
+      queue = queue
+        .then(() => onProgramChange(value.pubkey, value.account.lamports, value.account.data[0], context.slot))
+        .catch(failWatcher);
+    }
+  })().catch(failWatcher);
+
+  let existing: Awaited<ReturnType<typeof findAttestations>>;
+  try {
+    existing = filter.wallet
+      ? (await findAttestationsByOwner(client.rpc, filter.wallet)).filter(({ attestation }) =>
+        (!filter.credential || attestation.credential === filter.credential)
+        && (!filter.schema || attestation.schema === filter.schema))
+      : await findAttestations(client.rpc, filter);
+    for (const record of await decodeAttestations(client.rpc, existing)) {
+      watch(record);
+    }
+  } catch (error) {
+    abort.abort();
+    throw error;
+  }
+  loaded();
+
+  const checkExpiry = () => {
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + expiringWithinSeconds);
+    for (const record of watched.values()) {
+      if (record.expiry > 0n && record.expiry <= deadline && !warned.has(record.address)) {
+        warned.add(record.address);
+        report("expiring", record, null);
+      }
+    }
+  };
+  checkExpiry();
+  const timer = setInterval(() => {
+    checkExpiry();
+    pollClosed().catch(failWatcher);
+  }, EXPIRY_CHECK_MS);
+  abort.signal.addEventListener("abort", () => clearInterval(timer));
+
+  return {
+    initial: existing.length,
+    done,
+    stop: () => abort.abort(),
+  };
+}
+
+/**
+ * Whether an attestation's proof NFT sits in the wallet's token account
+ */
+async function heldBy(attestationAddress: Address, attestation: Attestation, wallet: Address): Promise<boolean> {
+  const [mint] = await deriveAttestationMintPda({ attestation: attestationAddress });
+  const [tokenAccount] = await findAssociatedTokenPda({
+    mint,
+    owner: wallet,
+    tokenProgram: TOKEN_2022_PROGRAM_ADDRESS,
+  });
+  return attestation.tokenAccount === tokenAccount;
+}
@@ -0,0 +1,93 @@
+/**
+ * Webhook delivery - POST events to a URL, in order, with retries
+ *
+ * Each event is sent as a JSON body. Network errors, 429 and 5xx responses
+ * are retried with exponential backoff (1s, 2s, 4s, ... capped at 60s); any
+ * other non-2xx response is final. Deliveries are queued so events arrive in
+ * the order they happened, and a failed one doesn't block the next.
+ */
+
+import { stringify } from "./output";
+
+export const DEFAULT_WEBHOOK_RETRIES = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface WebhookDelivery {
+  url: string;
+  /** Response status of the last attempt, null if it never got one */
+  status: number | null;
+  attempts: number;
+  delivered: boolean;
+  error: string | null;
+}
+
+export interface WebhookOptions {
+  url: string;
+  /** Retries after the first attempt */
+  retries: number;
+  /** Called after every delivery, successful or not */
+  onDelivery?: (delivery: WebhookDelivery, event: unknown) => void;
+}
+
+/**
+ * Create an ordered sender for a webhook URL
+ */
+export function createWebhookSender(options: WebhookOptions): {
+  send(event: unknown): void;
+  /** Resolves once everything queued so far has been delivered or given up on */
+  flush(): Promise<void>;
+} {
+  let queue = Promise.resolve();
+  return {
+    send: event => {
+      queue = queue.then(async () => {
+        const delivery = await deliverWebhook(options.url, event, options.retries);
+        try {
+          options.onDelivery?.(delivery, event);
+        } catch {
+          // A throwing callback must not reject the queue and stop later deliveries
+        }
+      });
+    },
+    flush: () => queue,
+  };
+}
+
+/**
+ * POST one event, retrying transient failures
+ */
+export async function deliverWebhook(url: string, event: unknown, retries: number): Promise<WebhookDelivery> {
+  let status: number | null = null;
+  let error: string | null = null;
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "User-Agent": "agent-proof-watch" },
+        body: stringify(event),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      status = response.status;
+      if (response.ok) {
+        return { url, status, attempts: attempt, delivered: true, error: null };
+      }
+      error = `HTTP ${status}`;
+      if (status !== 429 && status < 500) {
+        return { url, status, attempts: attempt, delivered: false, error };
+      }
+    } catch (e) {
+      status = null;
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    if (attempt <= retries) {
+      const delay = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+      await new Promise(r => setTimeout(r, delay));
+    }
+  }
+
+  return { url, status, attempts: retries + 1, delivered: false, error };
+}
@@ -0,0 +1,37 @@
+/**
+ * AGENT-ID Schema (v1)
+ *
+ * The original proof-of-existence schema deployed by `setup-schema.ts`
+ * and minted by the `create` command: agent_name, proof_hash, model_id.
+ */
+
+import { deserializeAttestationData } from "sas-lib";
+import { CONFIG } from "../lib/config";
+import type { SchemaDecoder } from "./registry";
+
+export interface AgentIdAttestationData {
+  agent_name: string;
+  proof_hash: string | Uint8Array;
+  model_id: string;
+}
+
+/**
+ * Decoder for AGENT-ID v1 attestations
+ */
+export const agentIdDecoder: SchemaDecoder<AgentIdAttestationData> = {
+  id: `${CONFIG.SCHEMA_NAME}@${CONFIG.SCHEMA_VERSION}`,
+  name: CONFIG.SCHEMA_NAME,
+  version: CONFIG.SCHEMA_VERSION,
+  addresses: [CONFIG.SCHEMA_ADDRESS],
+  decode: (schema, data) => deserializeAttestationData<AgentIdAttestationData>(schema, data),
+  render: (data) => [
+    { label: "Agent Name", value: data.agent_name, color: "white" },
+    { label: "Model", value: data.model_id, color: "white" },
+    { label: "Proof Hash", value: `${proofHashHex(data.proof_hash).slice(0, 24)}...`, color: "yellow" },
+  ],
+  summary: (data) => ({ agent: data.agent_name, type: data.model_id }),
+};
+
+function proofHashHex(hash: string | Uint8Array): string {
+  return typeof hash === "string" ? hash : Buffer.from(hash).toString("hex");
+}
@@ -6,6 +6,9 @@
  * that an AI agent was operating at a specific point in time.
  */
 
+import { deserializeAttestationData } from "sas-lib";
+import type { SchemaDecoder } from "./registry";
+
 // SAS Field Types (from sas-lib)
 // Based on the demo: string=12, u8=0
 export const SAS_FIELD_TYPES = {
@@ -54,6 +57,35 @@ export const AGENT_SCHEMA_LAYOUT = new Uint8Array([
   SAS_FIELD_TYPES.u64,     // created_at
 ]);
 
+/**
+ * Version 2 appends deployment details to the v1 fields, so a v1 payload
+ * is a prefix of a v2 payload.
+ * Layout: [...v1, string, string, string]
+ */
+export const AGENT_SCHEMA_V2_FIELD_NAMES = [
+  ...AGENT_SCHEMA_FIELD_NAMES,
+  "model_version",     // e.g., "claude-sonnet-4-20250514"
+  "endpoint_url",      // Public endpoint the agent serves from
+  "framework_version", // e.g., "openclaw@1.4.2"
+];
+
+export const AGENT_SCHEMA_V2_LAYOUT = new Uint8Array([
+  ...AGENT_SCHEMA_LAYOUT,
+  SAS_FIELD_TYPES.string,  // model_version
+  SAS_FIELD_TYPES.string,  // endpoint_url
+  SAS_FIELD_TYPES.string,  // framework_version
+]);
+
+/**
+ * Every AgentIdentity version, keyed by version number
+ */
+export const AGENT_SCHEMA_VERSIONS: Record<number, { layout: Uint8Array; fieldNames: string[] }> = {
+  1: { layout: AGENT_SCHEMA_LAYOUT, fieldNames: AGENT_SCHEMA_FIELD_NAMES },
+  2: { layout: AGENT_SCHEMA_V2_LAYOUT, fieldNames: AGENT_SCHEMA_V2_FIELD_NAMES },
+};
+
+export const AGENT_SCHEMA_LATEST_VERSION = 2;
+
 /**
  * Token metadata for the proof NFT
  */
@@ -72,6 +104,29 @@ export interface AgentAttestationData {
   created_at: bigint;
 }
 
+export interface AgentAttestationDataV2 extends AgentAttestationData {
+  model_version: string;
+  endpoint_url: string;
+  framework_version: string;
+}
+
+export type AgentDeploymentDetails = Pick<AgentAttestationDataV2, "model_version" | "endpoint_url" | "framework_version">;
+
+/**
+ * Carry attestation data forward to the v2 layout (details override existing values)
+ */
+export function migrateAgentAttestationData(
+  data: AgentAttestationData & Partial<AgentDeploymentDetails>,
+  details: Partial<AgentDeploymentDetails> = {},
+): AgentAttestationDataV2 {
+  return {
+    ...data,
+    model_version: details.model_version ?? data.model_version ?? "",
+    endpoint_url: details.endpoint_url ?? data.endpoint_url ?? "",
+    framework_version: details.framework_version ?? data.framework_version ?? "",
+  };
+}
+
 /**
  * Create attestation data for an agent
  */
@@ -91,3 +146,40 @@ export function createAgentAttestationData(
     created_at: BigInt(Math.floor(Date.now() / 1000)),
   };
 }
+
+/**
+ * Decoder for AgentIdentity v1 attestations
+ */
+export const agentIdentityDecoder: SchemaDecoder<AgentAttestationData> = {
+  id: `${AGENT_SCHEMA_NAME}@${AGENT_SCHEMA_VERSION}`,
+  name: AGENT_SCHEMA_NAME,
+  version: AGENT_SCHEMA_VERSION,
+  decode: (schema, data) => deserializeAttestationData<AgentAttestationData>(schema, data),
+  render: (data) => [
+    { label: "Agent Name", value: data.agent_name, color: "white" },
+    { label: "Agent Type", value: data.agent_type, color: "white" },
+    { label: "Platform", value: data.platform, color: "white" },
+    { label: "Owner", value: `${data.owner_pubkey.slice(0, 24)}...`, color: "green" },
+    { label: "Hash", value: `${data.capabilities_hash.slice(0, 24)}...`, color: "yellow" },
+  ],
+  createdAt: (data) => new Date(Number(data.created_at) * 1000),
+  summary: (data) => ({ agent: data.agent_name, type: data.agent_type }),
+};
+
+/**
+ * Decoder for AgentIdentity v2 attestations
+ */
+export const agentIdentityV2Decoder: SchemaDecoder<AgentAttestationDataV2> = {
+  id: `${AGENT_SCHEMA_NAME}@2`,
+  name: AGENT_SCHEMA_NAME,
+  version: 2,
+  decode: (schema, data) => deserializeAttestationData<AgentAttestationDataV2>(schema, data),
+  render: (data) => [
+    ...agentIdentityDecoder.render(data),
+    { label: "Model Ver", value: data.model_version || "-", color: "white" },
+    { label: "Endpoint", value: data.endpoint_url || "-", color: "cyan" },
+    { label: "Framework", value: data.framework_version || "-", color: "white" },
+  ],
+  createdAt: agentIdentityDecoder.createdAt,
+  summary: agentIdentityDecoder.summary,
+};
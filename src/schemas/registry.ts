@@ -0,0 +1,129 @@
+/**
+ * Schema registry - maps on-chain schemas to typed decoders and renderers
+ *
+ * Decoders match by schema address, or by schema name + version.
+ * Unknown schemas fall back to a generic decoder that dumps every
+ * field listed in the schema's `fieldNames`.
+ */
+
+import type { Address } from "@solana/kit";
+import { deserializeAttestationData, type Schema } from "sas-lib";
+import { agentIdentityDecoder, agentIdentityV2Decoder } from "./agent";
+import { agentIdDecoder } from "./agent-id";
+
+export type FieldColor = "white" | "green" | "yellow" | "cyan" | "gray";
+
+export interface RenderedField {
+  label: string;
+  value: string;
+  color?: FieldColor;
+}
+
+export interface SchemaDecoder<T = Record<string, unknown>> {
+  /** Stable identifier, e.g. "AgentIdentity@1" */
+  id: string;
+  name: string;
+  version: number;
+  /** Known deployments of this schema (matched before name/version) */
+  addresses?: Address[];
+  decode(schema: Schema, data: Uint8Array): T;
+  render(data: T): RenderedField[];
+  /** Creation time recorded in the data, if the schema has one */
+  createdAt?(data: T): Date | null;
+  /** Short agent label and type for tables */
+  summary?(data: T): { agent?: string; type?: string };
+}
+
+const decoders: SchemaDecoder[] = [
+  asRecordDecoder(agentIdentityV2Decoder),
+  asRecordDecoder(agentIdentityDecoder),
+  asRecordDecoder(agentIdDecoder),
+];
+
+/**
+ * Register a decoder (later registrations take precedence)
+ */
+export function registerSchemaDecoder<T extends object>(decoder: SchemaDecoder<T>): void {
+  decoders.unshift(asRecordDecoder(decoder));
+}
+
+/**
+ * View a typed decoder as the registry does: its data is a plain record of fields
+ *
+ * Data interfaces have no index signature, so TypeScript can't widen them to
+ * Record<string, unknown> on its own; every decoded value is a plain object.
+ */
+function asRecordDecoder<T extends object>(decoder: SchemaDecoder<T>): SchemaDecoder {
+  return decoder as unknown as SchemaDecoder;
+}
+
+/**
+ * Find the decoder for a schema account, falling back to the generic decoder
+ */
+export function resolveSchemaDecoder(schema: Schema, schemaAddress?: Address): SchemaDecoder {
+  if (schemaAddress) {
+    const byAddress = decoders.find(d => d.addresses?.includes(schemaAddress));
+    if (byAddress) return byAddress;
+  }
+
+  const name = getSchemaName(schema);
+  const byName = decoders.find(d => d.name === name && d.version === schema.version);
+  if (byName) return byName;
+
+  return genericDecoder(schema);
+}
+
+/**
+ * Decode a schema's name bytes
+ */
+export function getSchemaName(schema: Schema): string {
+  return new TextDecoder().decode(Uint8Array.from(schema.name));
+}
+
+/**
+ * Decode a schema's field names (u32 length-prefixed strings, concatenated)
+ */
+export function getSchemaFieldNames(schema: Schema): string[] {
+  const bytes = Uint8Array.from(schema.fieldNames);
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const names: string[] = [];
+  let offset = 0;
+  while (offset + 4 <= bytes.length) {
+    const length = view.getUint32(offset, true);
+    offset += 4;
+    names.push(decoder.decode(bytes.subarray(offset, offset + length)));
+    offset += length;
+  }
+  return names;
+}
+
+/**
+ * Format any decoded field value as display text
+ */
+export function formatFieldValue(value: unknown): string {
+  if (value instanceof Uint8Array) return Buffer.from(value).toString("hex");
+  if (Array.isArray(value)) return value.map(formatFieldValue).join(", ");
+  return String(value);
+}
+
+/**
+ * Generic decoder driven by the schema's own field names
+ */
+function genericDecoder(schema: Schema): SchemaDecoder {
+  const name = getSchemaName(schema);
+  const fieldNames = getSchemaFieldNames(schema);
+  return {
+    id: `${name}@${schema.version} (generic)`,
+    name,
+    version: schema.version,
+    decode: (s, data) => deserializeAttestationData<Record<string, unknown>>(s, data),
+    render: (data) => fieldNames.map(field => ({
+      label: field,
+      value: formatFieldValue(data[field]),
+    })),
+    summary: (data) => ({
+      agent: typeof data.agent_name === "string" ? data.agent_name : undefined,
+    }),
+  };
+}